@@ -0,0 +1,118 @@
+/**
+ * Built-in Conditions
+ *
+ * Registry entries for the watchdog's own detectors. Trackers that carry
+ * state across cycles live here so the registry can re-run any detector
+ * (e.g. for post-restart verification) against the same state.
+ */
+
+import type { Config } from '../config.js';
+import type { StallStateStore } from '../services/stall-state.js';
+import type { ConditionSpec } from './registry.js';
+import { detectForkedClusterFromSnapshot } from './forked-cluster.js';
+import { detectSnapshotDivergenceFromSnapshot } from './snapshot-divergence.js';
+import { detectSnapshotsStoppedFromSnapshot, StallTracker } from './snapshots-stopped.js';
+import { detectUnhealthyNodesFromSnapshot, StateTracker } from './unhealthy-nodes.js';
+import { detectNodeLaggingFromSnapshot, LagTracker } from './node-lagging.js';
+import { detectHypergraphHealth } from './hypergraph-health.js';
+import { detectHypergraphLag, HypergraphLagTracker } from './hypergraph-lag.js';
+import { detectMetagraphInclusion, InclusionTracker } from './metagraph-inclusion.js';
+
+/** Cross-cycle state of the built-in conditions */
+export interface ConditionTrackers {
+  stall: StallTracker;
+  state: StateTracker;
+  lag: LagTracker;
+  inclusion: InclusionTracker;
+  hypergraphLag: HypergraphLagTracker;
+}
+
+export function createTrackers(): ConditionTrackers {
+  return {
+    stall: new StallTracker(),
+    state: new StateTracker(),
+    lag: new LagTracker(),
+    inclusion: new InclusionTracker(),
+    hypergraphLag: new HypergraphLagTracker(),
+  };
+}
+
+/**
+ * Built-in condition specs. Stall state is persisted after every stall check
+ * when a store is given.
+ */
+export function builtinConditions(
+  config: Config,
+  trackers: ConditionTrackers,
+  stallState?: StallStateStore,
+): ConditionSpec[] {
+  const hypergraph = config.hypergraph;
+
+  return [
+    {
+      name: 'ForkedCluster',
+      priority: 10,
+      mayRestart: true,
+      detect: (snap) => detectForkedClusterFromSnapshot(config, snap),
+    },
+    {
+      name: 'SnapshotDivergence',
+      priority: 20,
+      // A forked cluster diverges too; the fork restart comes first
+      dependsOn: ['ForkedCluster'],
+      mayRestart: true,
+      detect: (snap) => detectSnapshotDivergenceFromSnapshot(config, snap),
+    },
+    {
+      name: 'SnapshotsStopped',
+      priority: 30,
+      mayRestart: true,
+      detect: async (snap) => {
+        const result = detectSnapshotsStoppedFromSnapshot(config, snap, trackers.stall);
+        await stallState?.save(trackers.stall);
+        return result;
+      },
+    },
+    {
+      name: 'UnhealthyNodes',
+      priority: 40,
+      mayRestart: true,
+      detect: (snap) => detectUnhealthyNodesFromSnapshot(config, snap, trackers.state),
+    },
+    {
+      name: 'NodeLagging',
+      priority: 50,
+      // An old ordinal reads as lag; only judge nodes on recent data
+      maxDataAgeSeconds: 30,
+      mayRestart: true,
+      detect: (snap) => detectNodeLaggingFromSnapshot(config, snap, trackers.lag),
+    },
+    {
+      name: 'HypergraphHealth',
+      priority: 60,
+      everyCycles: hypergraph?.checkIntervalMultiplier ?? 1,
+      enabled: hypergraph?.enabled ?? false,
+      // We can't restart external infrastructure
+      mayRestart: false,
+      detect: (snap) => detectHypergraphHealth(config, snap),
+    },
+    {
+      name: 'HypergraphLag',
+      priority: 65,
+      everyCycles: hypergraph?.checkIntervalMultiplier ?? 1,
+      enabled: hypergraph?.enabled ?? false,
+      dependsOn: ['HypergraphHealth'],
+      mayRestart: false,
+      detect: (snap) => detectHypergraphLag(config, snap, {}, trackers.hypergraphLag),
+    },
+    {
+      name: 'MetagraphInclusion',
+      priority: 70,
+      everyCycles: hypergraph?.checkIntervalMultiplier ?? 1,
+      enabled: Boolean(hypergraph?.enabled && hypergraph.metagraphId),
+      dependsOn: ['HypergraphHealth'],
+      mayRestart: false,
+      detect: (snap) => detectMetagraphInclusion(config, snap, {}, trackers.inclusion),
+    },
+  ];
+}
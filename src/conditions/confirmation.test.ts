@@ -0,0 +1,134 @@
+/**
+ * Detection Confirmation Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConfirmationTracker, confirmationRule } from './confirmation.js';
+import type { ConfirmationRule } from '../config.js';
+import type { DetectionResult, RestartScope } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function detection(detected: boolean, scope: RestartScope = 'individual-node', condition = 'UnhealthyNodes'): DetectionResult {
+  return { detected, condition, details: 'test', restartScope: detected ? scope : 'none' };
+}
+
+/** Feed a sequence of detected/clear cycles, return the states */
+function run(tracker: ConfirmationTracker, cycles: boolean[], scope?: RestartScope): string[] {
+  return cycles.map(d => tracker.observe(detection(d, scope)).state);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('confirmationRule()', () => {
+  const rules: ConfirmationRule[] = [
+    { condition: 'ForkedCluster', required: 1, window: 1 },
+    { scope: 'individual-node', required: 3, window: 5 },
+    { required: 2, window: 2 },
+  ];
+
+  it('picks the first matching rule', () => {
+    expect(confirmationRule(rules, detection(true, 'individual-node', 'ForkedCluster')).required).toBe(1);
+    expect(confirmationRule(rules, detection(true, 'individual-node')).required).toBe(3);
+    expect(confirmationRule(rules, detection(true, 'full-layer')).required).toBe(2);
+  });
+
+  it('acts immediately when no rule matches', () => {
+    expect(confirmationRule([], detection(true))).toEqual({ required: 1, window: 1 });
+  });
+});
+
+describe('ConfirmationTracker', () => {
+  it('confirms on the first detection with the default rule', () => {
+    const tracker = new ConfirmationTracker([{ required: 1, window: 1 }], 1);
+    expect(run(tracker, [true, false])).toEqual(['confirmed', 'resolved']);
+  });
+
+  it('requires N consecutive cycles', () => {
+    const tracker = new ConfirmationTracker([{ required: 3, window: 3 }], 1);
+    expect(run(tracker, [true, true, false, true, true, true])).toEqual([
+      'pending', 'pending', 'clear', 'pending', 'pending', 'confirmed',
+    ]);
+  });
+
+  it('supports M of the last N cycles', () => {
+    const tracker = new ConfirmationTracker([{ required: 2, window: 3 }], 1);
+    expect(run(tracker, [true, false, true])).toEqual(['pending', 'clear', 'confirmed']);
+  });
+
+  it('ignores a single blip', () => {
+    const tracker = new ConfirmationTracker([{ required: 2, window: 2 }], 1);
+    expect(run(tracker, [false, true, false, false])).toEqual(['clear', 'pending', 'clear', 'clear']);
+  });
+
+  it('applies different rules per restart scope', () => {
+    const tracker = new ConfirmationTracker([
+      { scope: 'full-metagraph', required: 1, window: 1 },
+      { required: 3, window: 3 },
+    ], 1);
+
+    expect(tracker.observe(detection(true, 'individual-node')).state).toBe('pending');
+    expect(tracker.observe(detection(true, 'full-metagraph')).state).toBe('confirmed');
+  });
+
+  it('needs clean cycles before closing an incident, and re-acts while recovering', () => {
+    const tracker = new ConfirmationTracker([{ required: 2, window: 2 }], 3);
+
+    expect(run(tracker, [true, true, false, false])).toEqual(['pending', 'confirmed', 'recovering', 'recovering']);
+    // Still the same incident: no re-confirmation needed
+    expect(run(tracker, [true])).toEqual(['confirmed']);
+    expect(run(tracker, [false, false, false])).toEqual(['recovering', 'recovering', 'resolved']);
+    // A new incident needs confirming again
+    expect(run(tracker, [true])).toEqual(['pending']);
+  });
+
+  it('exposes conditions awaiting confirmation or recovery', () => {
+    const tracker = new ConfirmationTracker([{ required: 2, window: 2 }], 2);
+
+    tracker.observe(detection(true));
+    expect(tracker.pending()).toEqual(['UnhealthyNodes']);
+
+    tracker.observe(detection(true));
+    expect(tracker.pending()).toEqual([]);
+
+    tracker.observe(detection(false));
+    expect(tracker.pending()).toEqual(['UnhealthyNodes']);
+  });
+
+  it('tracks conditions independently', () => {
+    const tracker = new ConfirmationTracker([{ required: 2, window: 2 }], 1);
+
+    tracker.observe(detection(true, 'individual-node', 'A'));
+    expect(tracker.observe(detection(true, 'individual-node', 'B')).state).toBe('pending');
+    expect(tracker.observe(detection(true, 'individual-node', 'A')).state).toBe('confirmed');
+  });
+
+  it('counts interval ticks, not push-triggered checks', () => {
+    const tracker = new ConfirmationTracker([{ required: 3, window: 3 }], 2);
+
+    // Three checks in one tick are one observation
+    expect(tracker.observe(detection(true), 1).state).toBe('pending');
+    expect(tracker.observe(detection(true), 1).state).toBe('pending');
+    expect(tracker.observe(detection(true), 1)).toMatchObject({ state: 'pending', hits: 1 });
+    expect(tracker.observe(detection(true), 2).state).toBe('pending');
+    expect(tracker.observe(detection(true), 3).state).toBe('confirmed');
+
+    // Recovery needs clean ticks too; the latest check of a tick counts
+    expect(tracker.observe(detection(false), 4)).toMatchObject({ state: 'recovering', cleanCycles: 1 });
+    expect(tracker.observe(detection(false), 4)).toMatchObject({ state: 'recovering', cleanCycles: 1 });
+    expect(tracker.observe(detection(false), 5).state).toBe('resolved');
+  });
+
+  it('drops observations that fall out of the window in time', () => {
+    const tracker = new ConfirmationTracker([{ required: 2, window: 3 }], 1);
+
+    expect(tracker.observe(detection(true), 1).state).toBe('pending');
+    // Ticks 2-4 had no checks (e.g. a long restart): tick 1 is out of the window
+    expect(tracker.observe(detection(true), 5).state).toBe('pending');
+    expect(tracker.observe(detection(true), 6).state).toBe('confirmed');
+  });
+});
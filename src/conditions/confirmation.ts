@@ -0,0 +1,152 @@
+/**
+ * Detection Confirmation (hysteresis)
+ *
+ * A single snapshot is not enough to act on — one `Unreachable` poll should
+ * not kill and rejoin a node. Each condition must be detected in M of the
+ * last N check cycles (N consecutive when M = N) before it is confirmed,
+ * with M/N chosen per condition and restart scope by the first matching rule.
+ *
+ * Once confirmed, the incident stays open until the condition has been clear
+ * for `recoveryCycles` consecutive cycles; a re-detection while recovering
+ * acts immediately.
+ *
+ * Cycles are interval ticks (HEALTH_CHECK_INTERVAL of elapsed time), not
+ * check runs: push updates can run several checks per tick, and only the
+ * latest result of a tick counts, so windows keep their length in time.
+ *
+ * State is in-memory and survives across check cycles (like StallTracker).
+ */
+
+import type { ConfirmationRule } from '../config.js';
+import type { DetectionResult } from '../types.js';
+
+export type ConfirmationState =
+  /** Not detected, no open incident */
+  | 'clear'
+  /** Detected, but not yet in enough recent cycles */
+  | 'pending'
+  /** Detected and confirmed — act on it */
+  | 'confirmed'
+  /** Clear, but not for long enough to close the incident */
+  | 'recovering'
+  /** Clear for `recoveryCycles` cycles — incident closed this cycle */
+  | 'resolved';
+
+export interface ConfirmationStatus {
+  condition: string;
+  state: ConfirmationState;
+  /** Cycles with a detection within the rule's window */
+  hits: number;
+  required: number;
+  window: number;
+  /** Consecutive clean cycles since the incident was confirmed */
+  cleanCycles: number;
+  recoveryCycles: number;
+}
+
+interface Observation {
+  tick: number;
+  detected: boolean;
+}
+
+interface ConditionState {
+  /** One per tick, most recent last */
+  observations: Observation[];
+  open: boolean;
+  /** First tick of the current clean streak while the incident is open */
+  cleanSince: number | null;
+  lastTick: number;
+}
+
+/** Rule for a detection: first rule whose filters match */
+export function confirmationRule(rules: ConfirmationRule[], result: DetectionResult): ConfirmationRule {
+  return rules.find(r =>
+    (!r.condition || r.condition === result.condition) &&
+    (!r.scope || r.scope === result.restartScope),
+  ) ?? { required: 1, window: 1 };
+}
+
+export class ConfirmationTracker {
+  private state = new Map<string, ConditionState>();
+  private readonly maxWindow: number;
+
+  constructor(
+    private readonly rules: ConfirmationRule[],
+    private readonly recoveryCycles: number,
+  ) {
+    this.maxWindow = Math.max(1, ...rules.map(r => r.window));
+  }
+
+  /**
+   * Record a result for a condition at interval tick `tick` (default: the
+   * condition's next tick) and return its status. A later result in the
+   * same tick replaces the earlier one.
+   */
+  observe(result: DetectionResult, tick?: number): ConfirmationStatus {
+    let s = this.state.get(result.condition);
+    if (!s) {
+      s = { observations: [], open: false, cleanSince: null, lastTick: 0 };
+      this.state.set(result.condition, s);
+    }
+    tick ??= s.lastTick + 1;
+    s.lastTick = tick;
+
+    const last = s.observations[s.observations.length - 1];
+    if (last?.tick === tick) {
+      last.detected = result.detected;
+    } else {
+      s.observations.push({ tick, detected: result.detected });
+    }
+    s.observations = s.observations.filter(o => o.tick > tick - this.maxWindow);
+
+    const rule = confirmationRule(this.rules, result);
+    const hits = s.observations.filter(o => o.detected && o.tick > tick - rule.window).length;
+    let state: ConfirmationState;
+    let clean = 0;
+
+    if (result.detected) {
+      s.cleanSince = null;
+      if (s.open || hits >= rule.required) {
+        s.open = true;
+        state = 'confirmed';
+      } else {
+        state = 'pending';
+      }
+    } else if (s.open) {
+      s.cleanSince ??= tick;
+      clean = tick - s.cleanSince + 1;
+      if (clean >= this.recoveryCycles) {
+        s.open = false;
+        s.cleanSince = null;
+        s.observations = [];
+        state = 'resolved';
+      } else {
+        state = 'recovering';
+      }
+    } else {
+      state = 'clear';
+    }
+
+    return {
+      condition: result.condition,
+      state,
+      hits,
+      required: rule.required,
+      window: rule.window,
+      cleanCycles: clean,
+      recoveryCycles: this.recoveryCycles,
+    };
+  }
+
+  /** Conditions currently awaiting confirmation or recovery. */
+  pending(): string[] {
+    return [...this.state.entries()]
+      .filter(([, s]) => s.open ? s.cleanSince !== null : s.observations.some(o => o.detected))
+      .map(([condition]) => condition);
+  }
+
+  /** Clear all state. */
+  reset(): void {
+    this.state.clear();
+  }
+}
@@ -30,19 +30,46 @@ function makeConfig(nodeCount: number = 3): Config {
       name: `node${i + 1}`,
     })),
     ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+    controller: 'ssh',
+    dockerSocketPath: '/var/run/docker.sock',
     sshKeyPath: '/test/key',
     sshUser: 'test',
     cliPorts: { gl0: 9001, ml0: 9201, cl1: 9301, dl1: 9401 },
     p2pPorts: { gl0: 9010, ml0: 9210, cl1: 9310, dl1: 9410 },
     snapshotStallMinutes: 4,
+    snapshotStalls: {
+      gl0: { minutes: 4, scope: 'full-layer' },
+      ml0: { minutes: 4, scope: 'full-metagraph' },
+      cl1: { minutes: 10, scope: 'full-layer' },
+      dl1: { minutes: 10, scope: 'full-layer' },
+    },
+    nodeLagThresholds: { gl0: 20, ml0: 20, cl1: 20, dl1: 20 },
+    nodeLagReference: 'median',
+    nodeLagSustainSeconds: 180,
+    statePolicy: { timeouts: { WaitingForDownload: 0, DownloadInProgress: 0, Leaving: 0, Offline: 0, Unreachable: 0 }, defaultSeconds: 600 },
     healthCheckIntervalSeconds: 60,
+    healthUpdates: { mode: 'poll', channel: 'monitor:health:updated', minIntervalSeconds: 10 },
     restartCooldownMinutes: 10,
     maxRestartsPerHour: 6,
+    conditions: {},
+    conditionModules: [],
+    restartBudgets: [],
+    confirmationRules: [],
+    recoveryCycles: 1,
+    escalation: { ladder: ['individual-node', 'full-layer', 'full-metagraph'], attemptsPerStep: 2 },
+    maintenanceWindows: [],
+    verifySettleSeconds: 0,
+    restartResumeMaxAgeMinutes: 30,
+    instanceId: 'test',
+    leaderElection: false,
+    leaderLeaseSeconds: 180,
     redisUrl: 'redis://localhost:6379',
     postgresUrl: '',
     healthDataStaleSeconds: 60,
+    snapshotHistoryRetentionHours: 24,
     daemon: false,
     once: false,
+    dryRun: false,
   };
 }
 
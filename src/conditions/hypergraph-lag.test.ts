@@ -0,0 +1,110 @@
+/**
+ * Hypergraph Lag Condition Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectHypergraphLag, HypergraphLagTracker } from './hypergraph-lag.js';
+import type { Config } from '../config.js';
+import type { HealthSnapshot } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function makeConfig(enabled = true): Config {
+  return {
+    hypergraph: {
+      enabled,
+      l0Urls: ['http://hg1:9000', 'http://hg2:9000'],
+      checkIntervalMultiplier: 3,
+      inclusionMaxGap: 20,
+      gl0MaxLag: 50,
+    },
+  } as Config;
+}
+
+function makeSnapshot(ordinals: number[], reachable = true): HealthSnapshot {
+  return {
+    timestamp: new Date(),
+    stale: false,
+    source: 'redis',
+    nodes: ordinals.map((ordinal, i) => ({
+      ip: `10.0.0.${i + 1}`,
+      name: `node${i + 1}`,
+      layers: [{ layer: 'gl0' as const, state: 'Ready', ordinal, reachable, clusterSize: 10 }],
+    })),
+  };
+}
+
+const network = (ordinal: number | null) => ({ getGlobalOrdinal: async () => ordinal });
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('HypergraphLagTracker', () => {
+  it('reports the trend over the kept samples', () => {
+    const tracker = new HypergraphLagTracker();
+    expect(tracker.trend()).toBe('unknown');
+
+    tracker.record(100, 0);
+    tracker.record(80, 60_000);
+    expect(tracker.trend()).toBe('shrinking');
+
+    tracker.record(150, 120_000);
+    expect(tracker.trend()).toBe('growing');
+    expect(tracker.change()).toBe(50);
+    expect(tracker.spanMinutes()).toBe(2);
+  });
+
+  it('keeps only the most recent samples', () => {
+    const tracker = new HypergraphLagTracker();
+    for (let i = 0; i < 10; i++) tracker.record(i * 10, i * 60_000);
+    expect(tracker.change()).toBe(40);
+  });
+});
+
+describe('detectHypergraphLag()', () => {
+  it('does nothing when hypergraph monitoring is disabled', async () => {
+    const result = await detectHypergraphLag(makeConfig(false), makeSnapshot([100]), network(1000));
+    expect(result.detected).toBe(false);
+  });
+
+  it('stays quiet within the allowed lag, measured from our best GL0 node', async () => {
+    const result = await detectHypergraphLag(makeConfig(), makeSnapshot([900, 1000, 980]), network(1040), new HypergraphLagTracker());
+    expect(result.detected).toBe(false);
+  });
+
+  it('reports the lag and whether it is growing', async () => {
+    const tracker = new HypergraphLagTracker();
+    await detectHypergraphLag(makeConfig(), makeSnapshot([1000]), network(1100), tracker, 0);
+    const result = await detectHypergraphLag(makeConfig(), makeSnapshot([1010]), network(1250), tracker, 180_000);
+
+    expect(result.detected).toBe(true);
+    expect(result.restartScope).toBe('none');
+    expect(result.details).toBe('GL0 at global ordinal 1010, hypergraph at 1250: 240 behind, growing (+140 over 3.0 min) (max 50)');
+  });
+
+  it('reports a shrinking lag while GL0 catches up', async () => {
+    const tracker = new HypergraphLagTracker();
+    await detectHypergraphLag(makeConfig(), makeSnapshot([1000]), network(1300), tracker, 0);
+    const result = await detectHypergraphLag(makeConfig(), makeSnapshot([1200]), network(1320), tracker, 60_000);
+
+    expect(result.detected).toBe(true);
+    expect(result.details).toContain('120 behind, shrinking (-180 over 1.0 min)');
+  });
+
+  it('does not fire when the hypergraph or our GL0 cannot be read', async () => {
+    const tracker = new HypergraphLagTracker();
+    expect((await detectHypergraphLag(makeConfig(), makeSnapshot([100]), network(null), tracker)).detected).toBe(false);
+    expect((await detectHypergraphLag(makeConfig(), makeSnapshot([100], false), network(1000), tracker)).detected).toBe(false);
+    expect(tracker.trend()).toBe('unknown');
+  });
+
+  it('tries each hypergraph L0 URL in turn', async () => {
+    const urls: string[] = [];
+    const getGlobalOrdinal = async (url: string) => { urls.push(url); return url.includes('hg2') ? 100 : null; };
+    await detectHypergraphLag(makeConfig(), makeSnapshot([100]), { getGlobalOrdinal }, new HypergraphLagTracker());
+    expect(urls).toEqual(['http://hg1:9000', 'http://hg2:9000']);
+  });
+});
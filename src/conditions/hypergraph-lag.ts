@@ -0,0 +1,128 @@
+/**
+ * Hypergraph Lag Condition
+ *
+ * Our GL0 can be connected to the hypergraph (HypergraphHealth passes) yet
+ * hundreds of global ordinals behind it. Compares the latest global ordinal
+ * from the hypergraph L0 URLs with the highest GL0 ordinal among our nodes,
+ * and fires when the lag exceeds `hypergraph.gl0MaxLag`.
+ *
+ * Lag samples are kept across checks so the detection can say whether GL0
+ * is catching up (shrinking) or falling further behind (growing).
+ *
+ * Detection-only (restartScope: 'none'): a GL0 that is still syncing
+ * only falls further behind if restarted.
+ */
+
+import type { Config } from '../config.js';
+import type { DetectionResult, HealthSnapshot, LayerHealth } from '../types.js';
+import { getLatestGlobalOrdinal, tryFirstSuccess, type GlobalOrdinalFetch } from '../services/hypergraph-api.js';
+import { log } from '../logger.js';
+
+export interface HypergraphLagDeps {
+  getGlobalOrdinal?: GlobalOrdinalFetch;
+}
+
+export type LagTrend = 'growing' | 'shrinking' | 'steady' | 'unknown';
+
+interface LagSample {
+  at: number;
+  lag: number;
+}
+
+/** Samples kept for the trend */
+const TREND_SAMPLES = 5;
+
+/**
+ * Hypergraph lag tracker class for testability.
+ * Keeps the most recent lag samples across check cycles.
+ */
+export class HypergraphLagTracker {
+  private samples: LagSample[] = [];
+
+  record(lag: number, now = Date.now()): void {
+    this.samples.push({ at: now, lag });
+    if (this.samples.length > TREND_SAMPLES) this.samples.shift();
+  }
+
+  /** Change in lag from the oldest kept sample to the newest */
+  change(): number {
+    if (this.samples.length < 2) return 0;
+    return this.samples[this.samples.length - 1].lag - this.samples[0].lag;
+  }
+
+  trend(): LagTrend {
+    if (this.samples.length < 2) return 'unknown';
+    const change = this.change();
+    return change > 0 ? 'growing' : change < 0 ? 'shrinking' : 'steady';
+  }
+
+  /** Minutes covered by the kept samples */
+  spanMinutes(): number {
+    if (this.samples.length < 2) return 0;
+    return (this.samples[this.samples.length - 1].at - this.samples[0].at) / 60_000;
+  }
+
+  /** Clear all samples. */
+  reset(): void {
+    this.samples = [];
+  }
+}
+
+// Global tracker instance (survives across check cycles)
+const globalTracker = new HypergraphLagTracker();
+
+function describeTrend(tracker: HypergraphLagTracker): string {
+  const trend = tracker.trend();
+  if (trend === 'unknown') return 'trend unknown (first sample)';
+  const change = tracker.change();
+  return `${trend} (${change >= 0 ? '+' : ''}${change} over ${tracker.spanMinutes().toFixed(1)} min)`;
+}
+
+/**
+ * Detect our GL0 falling behind the hypergraph's global ordinal.
+ */
+export async function detectHypergraphLag(
+  config: Config,
+  snapshot: HealthSnapshot,
+  deps: HypergraphLagDeps = {},
+  tracker: HypergraphLagTracker = globalTracker,
+  now = Date.now(),
+): Promise<DetectionResult> {
+  const hgConfig = config.hypergraph;
+  if (!hgConfig?.enabled) {
+    return { detected: false, condition: 'HypergraphLag', details: '', restartScope: 'none' };
+  }
+
+  const gl0Layers = snapshot.nodes
+    .map(n => n.layers.find(l => l.layer === 'gl0'))
+    .filter((l): l is LayerHealth => l !== undefined && l.reachable && l.ordinal >= 0);
+  if (gl0Layers.length === 0) {
+    // GL0 down entirely — that's caught by other conditions
+    log('[HypergraphLag] No reachable GL0 nodes');
+    return { detected: false, condition: 'HypergraphLag', details: '', restartScope: 'none' };
+  }
+
+  const found = await tryFirstSuccess(hgConfig.l0Urls, deps.getGlobalOrdinal ?? getLatestGlobalOrdinal);
+  if (!found) {
+    // Unreachable hypergraph is HypergraphHealth's concern
+    log('[HypergraphLag] Could not fetch the latest global ordinal');
+    return { detected: false, condition: 'HypergraphLag', details: '', restartScope: 'none' };
+  }
+
+  const networkOrdinal = found.result;
+  const ourOrdinal = Math.max(...gl0Layers.map(l => l.ordinal));
+  const lag = Math.max(0, networkOrdinal - ourOrdinal);
+  tracker.record(lag, now);
+
+  const maxLag = hgConfig.gl0MaxLag;
+  const summary = `GL0 at global ordinal ${ourOrdinal}, hypergraph at ${networkOrdinal}: ${lag} behind, ${describeTrend(tracker)}`;
+
+  if (lag > maxLag) {
+    const details = `${summary} (max ${maxLag})`;
+    log(`[HypergraphLag] ${details}`);
+    return { detected: true, condition: 'HypergraphLag', details, restartScope: 'none' };
+  }
+
+  log(`[HypergraphLag] ${summary}`);
+  return { detected: false, condition: 'HypergraphLag', details: '', restartScope: 'none' };
+}
@@ -0,0 +1,155 @@
+/**
+ * Metagraph Inclusion Condition Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectMetagraphInclusion, decodeIncludedOrdinal, InclusionTracker } from './metagraph-inclusion.js';
+import type { Config } from '../config.js';
+import type { HealthSnapshot } from '../types.js';
+import type { GlobalSnapshot, StateChannelSnapshotBinary } from '../services/hypergraph-api.js';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+const METAGRAPH = 'DAG0metagraph';
+
+function makeConfig(metagraphId: string | undefined = METAGRAPH): Config {
+  return {
+    ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+    hypergraph: {
+      enabled: true,
+      l0Urls: ['http://hypergraph-l0:9000'],
+      metagraphId,
+      checkIntervalMultiplier: 3,
+      inclusionMaxGap: 20,
+    },
+  } as Config;
+}
+
+function makeSnapshot(ml0Ordinal: number, lastSnapshotHash = `h${ml0Ordinal - 1}`): HealthSnapshot {
+  return {
+    timestamp: new Date(),
+    stale: false,
+    source: 'redis',
+    nodes: [{
+      ip: '10.0.0.1',
+      name: 'node1',
+      layers: [
+        { layer: 'gl0', state: 'Ready', ordinal: 5000, reachable: true, clusterSize: 10 },
+        { layer: 'ml0', state: 'Ready', ordinal: ml0Ordinal, reachable: true, clusterSize: 3, lastSnapshotHash },
+      ],
+    }],
+  };
+}
+
+function binary(ordinal: number): StateChannelSnapshotBinary {
+  const content = Buffer.from(JSON.stringify({ value: { ordinal }, proofs: [] }));
+  return { lastSnapshotHash: `h${ordinal - 1}`, content: [...content] };
+}
+
+function global(ordinal: number, included: StateChannelSnapshotBinary[]): GlobalSnapshot {
+  return { ordinal, stateChannelSnapshots: included.length > 0 ? { [METAGRAPH]: included.map(value => ({ value })) } : {} };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('decodeIncludedOrdinal()', () => {
+  it('reads the ordinal from the serialized snapshot', () => {
+    expect(decodeIncludedOrdinal(binary(42))).toBe(42);
+  });
+
+  it('returns null for content that is not JSON', () => {
+    expect(decodeIncludedOrdinal({ lastSnapshotHash: 'x', content: [0xde, 0xad] })).toBeNull();
+  });
+});
+
+describe('detectMetagraphInclusion()', () => {
+  it('does nothing without a metagraph id', async () => {
+    const getGlobalSnapshot = async () => { throw new Error('should not fetch'); };
+    const result = await detectMetagraphInclusion(makeConfig(undefined), makeSnapshot(100), { getGlobalSnapshot });
+    expect(result.detected).toBe(false);
+  });
+
+  it('stays healthy while our snapshots keep landing', async () => {
+    const tracker = new InclusionTracker();
+    const deps = (g: GlobalSnapshot) => ({ getGlobalSnapshot: async () => g });
+
+    await detectMetagraphInclusion(makeConfig(), makeSnapshot(100), deps(global(1, [binary(99), binary(100)])), tracker);
+    const result = await detectMetagraphInclusion(makeConfig(), makeSnapshot(130), deps(global(2, [binary(125)])), tracker);
+
+    expect(result.detected).toBe(false);
+    expect(tracker.lastIncluded).toBe(125);
+  });
+
+  it('fires when ML0 runs ahead of the last included ordinal', async () => {
+    const tracker = new InclusionTracker();
+    await detectMetagraphInclusion(makeConfig(), makeSnapshot(100), { getGlobalSnapshot: async () => global(1, [binary(100)]) }, tracker);
+
+    const result = await detectMetagraphInclusion(makeConfig(), makeSnapshot(130), {
+      getGlobalSnapshot: async () => global(9, []),
+      getGlobalSnapshotAt: async (_url, ordinal) => global(ordinal, []),
+    }, tracker);
+    expect(result.detected).toBe(true);
+    expect(result.restartScope).toBe('none');
+    expect(result.details).toContain('last ordinal in global snapshots is 100 (gap 30 > 20)');
+  });
+
+  it('measures from the first ML0 ordinal seen if nothing was ever included', async () => {
+    const tracker = new InclusionTracker();
+    const getGlobalSnapshot = async () => global(1, []);
+    await detectMetagraphInclusion(makeConfig(), makeSnapshot(100), { getGlobalSnapshot }, tracker);
+
+    const result = await detectMetagraphInclusion(makeConfig(), makeSnapshot(121), { getGlobalSnapshot }, tracker);
+    expect(result.detected).toBe(true);
+    expect(result.details).toContain('since ordinal 100');
+  });
+
+  it('finds inclusions in global snapshots produced between checks', async () => {
+    const tracker = new InclusionTracker();
+    await detectMetagraphInclusion(makeConfig(), makeSnapshot(100), { getGlobalSnapshot: async () => global(1, [binary(100)]) }, tracker);
+
+    const fetched: number[] = [];
+    const result = await detectMetagraphInclusion(makeConfig(), makeSnapshot(130), {
+      getGlobalSnapshot: async () => global(5, []),
+      getGlobalSnapshotAt: async (_url, ordinal) => {
+        fetched.push(ordinal);
+        return global(ordinal, ordinal === 3 ? [binary(125)] : []);
+      },
+    }, tracker);
+
+    expect(fetched).toEqual([2, 3, 4]);
+    expect(result.detected).toBe(false);
+    expect(tracker).toMatchObject({ lastIncluded: 125, lastGlobalOrdinal: 5 });
+  });
+
+  it('reads at most a bounded number of missed global snapshots, the most recent', async () => {
+    const tracker = new InclusionTracker();
+    tracker.lastGlobalOrdinal = 10;
+    const fetched: number[] = [];
+    await detectMetagraphInclusion(makeConfig(), makeSnapshot(100), {
+      getGlobalSnapshot: async () => global(1000, []),
+      getGlobalSnapshotAt: async (_url, ordinal) => { fetched.push(ordinal); return global(ordinal, []); },
+    }, tracker);
+
+    expect(fetched).toHaveLength(29);
+    expect(fetched[0]).toBe(971);
+    expect(fetched[fetched.length - 1]).toBe(999);
+  });
+
+  it('matches undecodable entries to the node snapshot with the same preceding hash', async () => {
+    const tracker = new InclusionTracker();
+    const opaque = { lastSnapshotHash: 'h149', content: [0x01] };
+    await detectMetagraphInclusion(makeConfig(), makeSnapshot(150), { getGlobalSnapshot: async () => global(3, [opaque]) }, tracker);
+    expect(tracker.lastIncluded).toBe(150);
+  });
+
+  it('tries our GL0 nodes before the hypergraph', async () => {
+    const urls: string[] = [];
+    const getGlobalSnapshot = async (url: string) => { urls.push(url); return null; };
+    await detectMetagraphInclusion(makeConfig(), makeSnapshot(100), { getGlobalSnapshot }, new InclusionTracker());
+    expect(urls).toEqual(['http://10.0.0.1:9000', 'http://hypergraph-l0:9000']);
+  });
+});
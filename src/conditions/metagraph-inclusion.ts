@@ -0,0 +1,179 @@
+/**
+ * Metagraph Inclusion Condition
+ *
+ * ML0 can keep producing ordinals locally while none of its snapshots are
+ * accepted into global snapshots — for users that is an outage. Reads the
+ * global snapshots produced since the previous check (from our GL0 nodes,
+ * then the hypergraph L0 URLs; at most MAX_GLOBAL_SNAPSHOTS_PER_CHECK, the
+ * most recent ones) and tracks the highest ML0 ordinal seen in our
+ * metagraph's state channel entries. Fires when the local ML0 ordinal gets
+ * more than `hypergraph.inclusionMaxGap` ahead of it.
+ *
+ * The included ordinal is decoded from the state channel binary (JSON
+ * bytes); if that fails, an entry whose `lastSnapshotHash` matches what an
+ * ML0 node reports is that node's snapshot: both carry the hash of the
+ * snapshot preceding it.
+ *
+ * Detection-only (restartScope: 'none'): restarting ML0 rarely fixes a
+ * rejected state channel submission, so this alerts instead.
+ */
+
+import type { Config } from '../config.js';
+import type { DetectionResult, HealthSnapshot, LayerHealth } from '../types.js';
+import {
+  getGlobalSnapshotAt,
+  getLatestGlobalSnapshot,
+  tryFirstSuccess,
+  type GlobalSnapshot,
+  type GlobalSnapshotAtFetch,
+  type GlobalSnapshotFetch,
+  type StateChannelSnapshotBinary,
+} from '../services/hypergraph-api.js';
+import { log } from '../logger.js';
+
+/** Most global snapshots read per check when catching up (latest included) */
+const MAX_GLOBAL_SNAPSHOTS_PER_CHECK = 30;
+
+export interface MetagraphInclusionDeps {
+  getGlobalSnapshot?: GlobalSnapshotFetch;
+  getGlobalSnapshotAt?: GlobalSnapshotAtFetch;
+}
+
+/**
+ * Inclusion tracker class for testability.
+ * Remembers the last ML0 ordinal seen in a global snapshot across cycles.
+ */
+export class InclusionTracker {
+  /** Highest ML0 ordinal seen in a global snapshot */
+  lastIncluded?: number;
+  /** Global ordinal of the last global snapshot inspected */
+  lastGlobalOrdinal?: number;
+  /** ML0 ordinal when tracking started — the gap baseline until an inclusion is seen */
+  baseline?: number;
+
+  recordIncluded(ordinal: number): void {
+    this.lastIncluded = Math.max(this.lastIncluded ?? ordinal, ordinal);
+  }
+
+  /** Clear all state. */
+  reset(): void {
+    this.lastIncluded = undefined;
+    this.lastGlobalOrdinal = undefined;
+    this.baseline = undefined;
+  }
+}
+
+// Global tracker instance (survives across check cycles)
+const globalTracker = new InclusionTracker();
+
+/**
+ * ML0 ordinal of a state channel submission, decoded from its content.
+ * Returns null if the content isn't JSON with an ordinal.
+ */
+export function decodeIncludedOrdinal(binary: StateChannelSnapshotBinary): number | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(binary.content).toString('utf8')) as {
+      value?: { ordinal?: unknown };
+      ordinal?: unknown;
+    };
+    const ordinal = parsed.value?.ordinal ?? parsed.ordinal;
+    return typeof ordinal === 'number' ? ordinal : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record the ML0 ordinals of our state channel entries in a global snapshot.
+ */
+function recordInclusions(
+  global: GlobalSnapshot,
+  metagraphId: string,
+  ml0Layers: LayerHealth[],
+  tracker: InclusionTracker,
+): void {
+  for (const entry of global.stateChannelSnapshots[metagraphId] ?? []) {
+    const matched = ml0Layers.find(l => l.lastSnapshotHash === entry.value.lastSnapshotHash);
+    const ordinal = decodeIncludedOrdinal(entry.value) ?? matched?.ordinal;
+    if (ordinal === undefined) {
+      log(`[MetagraphInclusion] Global snapshot ${global.ordinal}: could not determine ordinal of state channel entry ${entry.value.lastSnapshotHash}`);
+      continue;
+    }
+    log(`[MetagraphInclusion] Global snapshot ${global.ordinal} includes ML0 ordinal ${ordinal}`);
+    tracker.recordIncluded(ordinal);
+  }
+}
+
+/**
+ * Detect ML0 snapshots not landing in global snapshots.
+ */
+export async function detectMetagraphInclusion(
+  config: Config,
+  snapshot: HealthSnapshot,
+  deps: MetagraphInclusionDeps = {},
+  tracker: InclusionTracker = globalTracker,
+): Promise<DetectionResult> {
+  const hgConfig = config.hypergraph;
+  const metagraphId = hgConfig?.metagraphId;
+  if (!hgConfig?.enabled || !metagraphId) {
+    return { detected: false, condition: 'MetagraphInclusion', details: '', restartScope: 'none' };
+  }
+
+  const ml0Layers = snapshot.nodes
+    .map(n => n.layers.find(l => l.layer === 'ml0'))
+    .filter((l): l is LayerHealth => l !== undefined && l.reachable && l.ordinal >= 0);
+  if (ml0Layers.length === 0) {
+    // ML0 down entirely — that's caught by other conditions
+    log('[MetagraphInclusion] No reachable ML0 nodes');
+    return { detected: false, condition: 'MetagraphInclusion', details: '', restartScope: 'none' };
+  }
+  const ml0Ordinal = Math.max(...ml0Layers.map(l => l.ordinal));
+
+  // Our own GL0 nodes first, then the hypergraph
+  const gl0Urls = snapshot.nodes
+    .filter(n => n.layers.some(l => l.layer === 'gl0' && l.reachable))
+    .map(n => `http://${n.ip}:${config.ports.gl0}`);
+  const found = await tryFirstSuccess([...gl0Urls, ...hgConfig.l0Urls], deps.getGlobalSnapshot ?? getLatestGlobalSnapshot);
+  if (!found) {
+    // Unreachable GL0/hypergraph is HypergraphHealth's concern
+    log('[MetagraphInclusion] Could not fetch the latest global snapshot');
+    return { detected: false, condition: 'MetagraphInclusion', details: '', restartScope: 'none' };
+  }
+
+  const latest = found.result;
+  if (tracker.lastGlobalOrdinal === undefined || latest.ordinal > tracker.lastGlobalOrdinal) {
+    // Global snapshots since the last check, oldest first, then the latest
+    const from = Math.max((tracker.lastGlobalOrdinal ?? latest.ordinal) + 1, latest.ordinal - MAX_GLOBAL_SNAPSHOTS_PER_CHECK + 1);
+    if (tracker.lastGlobalOrdinal !== undefined && from > tracker.lastGlobalOrdinal + 1) {
+      log(`[MetagraphInclusion] Skipping global snapshots ${tracker.lastGlobalOrdinal + 1}-${from - 1} (reading at most ${MAX_GLOBAL_SNAPSHOTS_PER_CHECK} per check)`);
+    }
+    const urls = [found.url, ...[...gl0Urls, ...hgConfig.l0Urls].filter(u => u !== found.url)];
+    const fetchAt = deps.getGlobalSnapshotAt ?? getGlobalSnapshotAt;
+    for (let ordinal = from; ordinal < latest.ordinal; ordinal++) {
+      const missed = await tryFirstSuccess(urls, url => fetchAt(url, ordinal));
+      if (missed) {
+        recordInclusions(missed.result, metagraphId, ml0Layers, tracker);
+      } else {
+        log(`[MetagraphInclusion] Could not fetch global snapshot ${ordinal}`);
+      }
+    }
+    recordInclusions(latest, metagraphId, ml0Layers, tracker);
+    tracker.lastGlobalOrdinal = latest.ordinal;
+  }
+
+  tracker.baseline ??= ml0Ordinal;
+  const reference = tracker.lastIncluded ?? tracker.baseline;
+  const gap = ml0Ordinal - reference;
+  const maxGap = hgConfig.inclusionMaxGap;
+
+  if (gap > maxGap) {
+    const details = tracker.lastIncluded !== undefined
+      ? `ML0 at ordinal ${ml0Ordinal} but the last ordinal in global snapshots is ${reference} (gap ${gap} > ${maxGap})`
+      : `ML0 at ordinal ${ml0Ordinal} but no ML0 snapshot has appeared in global snapshots since ordinal ${reference} (gap ${gap} > ${maxGap})`;
+    log(`[MetagraphInclusion] ${details}`);
+    return { detected: true, condition: 'MetagraphInclusion', details, restartScope: 'none' };
+  }
+
+  log(`[MetagraphInclusion] ML0 ordinal ${ml0Ordinal}, last included ${tracker.lastIncluded ?? 'N/A'} (gap ${gap}, max ${maxGap})`);
+  return { detected: false, condition: 'MetagraphInclusion', details: '', restartScope: 'none' };
+}
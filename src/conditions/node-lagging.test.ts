@@ -0,0 +1,116 @@
+/**
+ * Node Lagging Detection Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectNodeLaggingFromSnapshot, LagTracker } from './node-lagging.js';
+import type { Config } from '../config.js';
+import type { HealthSnapshot, Layer } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    nodeLagThresholds: { gl0: 20, ml0: 20, cl1: 20, dl1: 20 },
+    nodeLagReference: 'median',
+    nodeLagSustainSeconds: 180,
+    ...overrides,
+  } as Config;
+}
+
+/** Snapshot with the given ordinal per node (index = node number - 1) per layer */
+function makeSnapshot(ordinals: Partial<Record<Layer, number[]>>): HealthSnapshot {
+  return {
+    timestamp: new Date(NOW),
+    stale: false,
+    source: 'redis',
+    nodes: [0, 1, 2].map(i => ({
+      ip: `10.0.0.${i + 1}`,
+      name: `node${i + 1}`,
+      layers: (Object.keys(ordinals) as Layer[]).map(layer => ({
+        layer,
+        state: 'Ready',
+        ordinal: ordinals[layer]![i],
+        reachable: true,
+        clusterSize: 3,
+      })),
+    })),
+  };
+}
+
+/** Run detection twice, `elapsedSecs` apart, so lag can be sustained */
+function detectOver(config: Config, snapshot: HealthSnapshot, elapsedSecs: number) {
+  const tracker = new LagTracker();
+  detectNodeLaggingFromSnapshot(config, snapshot, tracker, NOW);
+  return detectNodeLaggingFromSnapshot(config, snapshot, tracker, NOW + elapsedSecs * 1000);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('detectNodeLaggingFromSnapshot()', () => {
+  it('returns detected=false when nodes are within the threshold', () => {
+    const result = detectOver(makeConfig(), makeSnapshot({ ml0: [500, 495, 490] }), 600);
+    expect(result.detected).toBe(false);
+    expect(result.condition).toBe('NodeLagging');
+  });
+
+  it('waits for the lag to be sustained', () => {
+    const snapshot = makeSnapshot({ ml0: [500, 500, 450] });
+    expect(detectOver(makeConfig(), snapshot, 60).detected).toBe(false);
+    expect(detectOver(makeConfig(), snapshot, 180).detected).toBe(true);
+  });
+
+  it('restarts only the lagging node on the lagging layer', () => {
+    const result = detectOver(makeConfig(), makeSnapshot({ gl0: [900, 901, 900], ml0: [500, 500, 450] }), 300);
+
+    expect(result.restartScope).toBe('individual-node');
+    expect(result.affectedNodes).toEqual(['10.0.0.3']);
+    expect(result.affectedLayers).toEqual(['ml0']);
+    expect(result.details).toContain('node3 (50 behind)');
+  });
+
+  it('resets the sustain timer once the node catches up', () => {
+    const tracker = new LagTracker();
+    const config = makeConfig();
+    detectNodeLaggingFromSnapshot(config, makeSnapshot({ ml0: [500, 500, 450] }), tracker, NOW);
+    detectNodeLaggingFromSnapshot(config, makeSnapshot({ ml0: [510, 510, 505] }), tracker, NOW + 120_000);
+
+    const result = detectNodeLaggingFromSnapshot(config, makeSnapshot({ ml0: [530, 530, 470] }), tracker, NOW + 240_000);
+    expect(result.detected).toBe(false);
+  });
+
+  it('uses per-layer thresholds', () => {
+    const config = makeConfig({ nodeLagThresholds: { gl0: 20, ml0: 20, cl1: 20, dl1: 100 } });
+    expect(detectOver(config, makeSnapshot({ dl1: [500, 500, 450] }), 300).detected).toBe(false);
+  });
+
+  it('measures against the max ordinal when configured', () => {
+    const snapshot = makeSnapshot({ ml0: [530, 505, 500] });
+    expect(detectOver(makeConfig(), snapshot, 300).detected).toBe(false);
+
+    // 25 and 30 behind the max would be a majority — not an individual lag
+    const max = makeConfig({ nodeLagReference: 'max' });
+    expect(detectOver(max, snapshot, 300).detected).toBe(false);
+    expect(detectOver(max, makeSnapshot({ ml0: [530, 529, 500] }), 300).affectedNodes).toEqual(['10.0.0.3']);
+  });
+
+  it('picks the lowest lagging layer and defers the others', () => {
+    const result = detectOver(makeConfig(), makeSnapshot({ ml0: [500, 450, 500], dl1: [300, 300, 200] }), 300);
+
+    expect(result.affectedNodes).toEqual(['10.0.0.2']);
+    expect(result.affectedLayers).toEqual(['ml0']);
+    expect(result.details).toContain('also lagging on DL1');
+  });
+
+  it('ignores unreachable nodes and unknown ordinals', () => {
+    const snapshot = makeSnapshot({ ml0: [500, 500, -1] });
+    snapshot.nodes[1].layers[0].reachable = false;
+    expect(detectOver(makeConfig(), snapshot, 300).detected).toBe(false);
+  });
+});
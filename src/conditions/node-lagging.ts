@@ -0,0 +1,163 @@
+/**
+ * Node Lagging Detection
+ *
+ * A node can report `Ready` while sitting far behind its peers. For each
+ * layer, compares every reachable node's ordinal to the layer reference
+ * (median or max across nodes). A node trailing by more than the layer's
+ * threshold for at least `nodeLagSustainSeconds` gets an individual restart
+ * of just that layer.
+ *
+ * Only a minority of nodes can lag: if half the layer or more trails the
+ * reference, the problem is the cluster (or the node ahead), not the laggards.
+ *
+ * This is a PURE FUNCTION — no I/O, just data analysis with tracker state.
+ */
+
+import type { Config } from '../config.js';
+import type { DetectionResult, HealthSnapshot, Layer } from '../types.js';
+import { ALL_LAYERS } from '../types.js';
+import { log } from '../logger.js';
+
+/** A node trailing its layer's reference ordinal */
+export interface NodeLag {
+  nodeIp: string;
+  nodeName: string;
+  layer: Layer;
+  ordinal: number;
+  reference: number;
+  lag: number;
+  /** How long the node has been beyond the threshold */
+  laggingSecs: number;
+}
+
+/**
+ * Tracks since when each node+layer has been lagging.
+ * State survives across check cycles (like StallTracker).
+ */
+export class LagTracker {
+  private since = new Map<string, number>();
+
+  private key(nodeIp: string, layer: Layer): string {
+    return `${nodeIp}:${layer}`;
+  }
+
+  /** Record whether a node+layer is lagging. Returns seconds it has been lagging (0 if not). */
+  update(nodeIp: string, layer: Layer, lagging: boolean, now = Date.now()): number {
+    const k = this.key(nodeIp, layer);
+    if (!lagging) {
+      this.since.delete(k);
+      return 0;
+    }
+    const start = this.since.get(k) ?? now;
+    this.since.set(k, start);
+    return (now - start) / 1000;
+  }
+
+  /** Clear all state. */
+  reset(): void {
+    this.since.clear();
+  }
+}
+
+// Global tracker instance (survives across check cycles)
+const globalTracker = new LagTracker();
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.floor((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+/**
+ * Find nodes lagging their layer's reference ordinal beyond the threshold.
+ * Updates the tracker for every node+layer seen.
+ */
+export function findLaggingNodes(
+  config: Config,
+  snapshot: HealthSnapshot,
+  tracker: LagTracker = globalTracker,
+  now = Date.now(),
+): NodeLag[] {
+  const lagging: NodeLag[] = [];
+
+  for (const layer of ALL_LAYERS) {
+    const reporting = snapshot.nodes.flatMap(node => {
+      const lh = node.layers.find(l => l.layer === layer);
+      // Unreachable nodes and unknown ordinals are UnhealthyNodes' concern
+      return lh && lh.reachable && lh.ordinal >= 0 ? [{ node, ordinal: lh.ordinal }] : [];
+    });
+    if (reporting.length < 2) continue;
+
+    const ordinals = reporting.map(r => r.ordinal);
+    const reference = config.nodeLagReference === 'max' ? Math.max(...ordinals) : median(ordinals);
+    const threshold = config.nodeLagThresholds[layer];
+
+    const behind = reporting.filter(r => reference - r.ordinal > threshold);
+    if (behind.length * 2 >= reporting.length) {
+      log(`[NodeLagging] ${layer.toUpperCase()}: ${behind.length}/${reporting.length} nodes behind ordinal ${reference} — not an individual lag`);
+      reporting.forEach(r => tracker.update(r.node.ip, layer, false, now));
+      continue;
+    }
+
+    for (const { node, ordinal } of reporting) {
+      const isBehind = behind.some(b => b.node.ip === node.ip);
+      const laggingSecs = tracker.update(node.ip, layer, isBehind, now);
+      if (isBehind) {
+        lagging.push({
+          nodeIp: node.ip,
+          nodeName: node.name,
+          layer,
+          ordinal,
+          reference,
+          lag: reference - ordinal,
+          laggingSecs,
+        });
+      }
+    }
+  }
+
+  return lagging;
+}
+
+/**
+ * Detect nodes lagging their peers from HealthSnapshot data.
+ *
+ * Returns an individual-node restart for the first layer (GL0 → DL1) with a
+ * sustained laggard; other layers are picked up on later cycles, so a restart
+ * never touches a node/layer pair that is not itself lagging.
+ */
+export function detectNodeLaggingFromSnapshot(
+  config: Config,
+  snapshot: HealthSnapshot,
+  tracker: LagTracker = globalTracker,
+  now = Date.now(),
+): DetectionResult {
+  log('[NodeLagging] Comparing node ordinals per layer...');
+
+  const lagging = findLaggingNodes(config, snapshot, tracker, now);
+  for (const l of lagging) {
+    log(`[NodeLagging] ${l.nodeName} ${l.layer.toUpperCase()}: ordinal ${l.ordinal}, ${l.lag} behind ${l.reference} for ${l.laggingSecs.toFixed(0)}s`);
+  }
+
+  const sustained = lagging.filter(l => l.laggingSecs >= config.nodeLagSustainSeconds);
+  if (sustained.length === 0) {
+    return { detected: false, condition: 'NodeLagging', details: '', restartScope: 'none' };
+  }
+
+  const layer = sustained[0].layer;
+  const targets = sustained.filter(l => l.layer === layer);
+  const deferred = [...new Set(sustained.filter(l => l.layer !== layer).map(l => l.layer))];
+
+  const details = `${layer.toUpperCase()} lagging: ${targets.map(t => `${t.nodeName} (${t.lag} behind)`).join(', ')}`
+    + (deferred.length > 0 ? `; also lagging on ${deferred.map(l => l.toUpperCase()).join(', ')}` : '');
+  log(`[NodeLagging] ${details}`);
+
+  return {
+    detected: true,
+    condition: 'NodeLagging',
+    details,
+    restartScope: 'individual-node',
+    affectedNodes: targets.map(t => t.nodeIp),
+    affectedLayers: [layer],
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Condition Registry Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConditionRegistry, dropOldLayers, loadConditionModules, type ConditionSpec } from './registry.js';
+import { SnapshotHistoryStore } from '../services/snapshot-history.js';
+import type { Config } from '../config.js';
+import type { DetectionResult, HealthSnapshot, RestartScope } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+const snapshot: HealthSnapshot = { timestamp: new Date(), nodes: [], stale: false, source: 'redis' };
+
+function result(condition: string, detected: boolean, restartScope: RestartScope = 'individual-node'): DetectionResult {
+  return { detected, condition, details: '', restartScope: detected ? restartScope : 'none' };
+}
+
+function spec(name: string, priority: number, overrides: Partial<ConditionSpec> = {}): ConditionSpec {
+  return { name, priority, mayRestart: true, detect: () => result(name, false), ...overrides };
+}
+
+function names(registry: ConditionRegistry, cycle?: number): string[] {
+  return (cycle === undefined ? registry.list() : registry.due(cycle)).map(d => d.name);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('ConditionRegistry', () => {
+  it('orders conditions by priority, dependencies first', () => {
+    const registry = new ConditionRegistry();
+    registry.register(spec('C', 30));
+    registry.register(spec('A', 10, { dependsOn: ['C'] }));
+    registry.register(spec('B', 20));
+
+    expect(names(registry)).toEqual(['B', 'C', 'A']);
+  });
+
+  it('rejects duplicate names, unknown dependencies and cycles', () => {
+    const registry = new ConditionRegistry();
+    registry.register(spec('A', 10, { dependsOn: ['B'] }));
+    expect(() => registry.register(spec('A', 10))).toThrow('already registered');
+    expect(() => registry.list()).toThrow('unknown condition(s): B');
+
+    registry.register(spec('B', 20, { dependsOn: ['A'] }));
+    expect(() => registry.list()).toThrow('Circular');
+  });
+
+  it('runs conditions on their cadence, all of them on the first cycle', () => {
+    const registry = new ConditionRegistry();
+    registry.register(spec('Fast', 10));
+    registry.register(spec('Slow', 20, { everyCycles: 3 }));
+    registry.register(spec('Off', 30, { enabled: false }));
+
+    expect(names(registry, 1)).toEqual(['Fast', 'Slow']);
+    expect(names(registry, 2)).toEqual(['Fast']);
+    expect(names(registry, 3)).toEqual(['Fast', 'Slow']);
+    // Another (push-triggered) check in tick 3: Slow already ran
+    expect(registry.due(3, true).map(d => d.name)).toEqual(['Fast']);
+  });
+
+  it('applies config overrides by name', () => {
+    const registry = new ConditionRegistry({
+      Slow: { everyCycles: 1, priority: 5 },
+      Fast: { enabled: false },
+      Typo: { enabled: false },
+    });
+    registry.register(spec('Fast', 10));
+    registry.register(spec('Slow', 20, { everyCycles: 3 }));
+
+    expect(names(registry, 2)).toEqual(['Slow']);
+    expect(() => registry.checkNames('CONDITIONS', ['Fast', 'Typo'])).toThrow('CONDITIONS: unknown condition(s) Typo (registered: Fast, Slow)');
+    expect(() => registry.checkNames('CONDITIONS', ['Fast', 'Slow'])).not.toThrow();
+  });
+
+  it('skips a condition while a dependency is detected', async () => {
+    const registry = new ConditionRegistry();
+    let upstreamDown = true;
+    registry.register(spec('Upstream', 10, { detect: () => result('Upstream', upstreamDown) }));
+    registry.register(spec('Downstream', 20, { dependsOn: ['Upstream'] }));
+    const [upstream, downstream] = registry.list();
+
+    await registry.run(upstream, snapshot);
+    expect(registry.blockedBy(downstream)).toBe('Upstream');
+
+    upstreamDown = false;
+    await registry.run(upstream, snapshot);
+    expect(registry.blockedBy(downstream)).toBeNull();
+  });
+
+  it('never asks for a restart from a detection-only condition', async () => {
+    const registry = new ConditionRegistry({ Noisy: { mayRestart: false } });
+    registry.register(spec('Noisy', 10, { detect: () => result('Noisy', true, 'full-layer') }));
+
+    const detection = await registry.run(registry.get('Noisy')!, snapshot);
+    expect(detection.detected).toBe(true);
+    expect(detection.restartScope).toBe('none');
+  });
+
+  it('hides entries older than a condition\'s data age limit from its detector', async () => {
+    const aged: HealthSnapshot = {
+      ...snapshot,
+      source: 'hybrid',
+      nodes: [{
+        ip: '10.0.0.1',
+        name: 'node1',
+        layers: [
+          { layer: 'ml0', state: 'Ready', ordinal: 100, reachable: true, clusterSize: 3, source: 'redis', ageSeconds: 45 },
+          { layer: 'cl1', state: 'Ready', ordinal: 90, reachable: true, clusterSize: 3, source: 'redis', ageSeconds: 10 },
+          { layer: 'dl1', state: 'Ready', ordinal: 80, reachable: true, clusterSize: 3, source: 'direct', ageSeconds: 0 },
+        ],
+      }],
+    };
+    const seen: string[][] = [];
+    const registry = new ConditionRegistry({ Tuned: { maxDataAgeSeconds: 60 } });
+    const record = (snap: HealthSnapshot) => seen.push(snap.nodes[0].layers.map(l => l.layer));
+    registry.register(spec('Strict', 10, { maxDataAgeSeconds: 30, detect: snap => (record(snap), result('Strict', false)) }));
+    registry.register(spec('Tuned', 20, { maxDataAgeSeconds: 5, detect: snap => (record(snap), result('Tuned', false)) }));
+
+    for (const def of registry.list()) await registry.run(def, aged);
+    expect(seen).toEqual([['cl1', 'dl1'], ['ml0', 'cl1', 'dl1']]);
+    expect(registry.describe()[0]).toContain('data under 30s');
+    expect(dropOldLayers(aged, Infinity)).toBe(aged);
+  });
+});
+
+describe('loadConditionModules()', () => {
+  it('loads specs from modules exporting createConditions', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'conditions-'));
+    const path = join(dir, 'custom.mjs');
+    writeFileSync(path, `
+      export function createConditions(config, { history }) {
+        return [{
+          name: 'Custom',
+          priority: 100,
+          mayRestart: false,
+          detect: () => ({
+            detected: false,
+            condition: 'Custom',
+            details: config.instanceId + ': ' + history.recent(60_000).length + ' recent snapshot(s)',
+            restartScope: 'none',
+          }),
+        }];
+      }
+    `);
+
+    const history = new SnapshotHistoryStore(null);
+    await history.record(snapshot);
+    const specs = await loadConditionModules({ conditionModules: [path], instanceId: 'test' } as Config, { history });
+    expect(specs.map(s => s.name)).toEqual(['Custom']);
+    expect((await specs[0].detect(snapshot)).details).toBe('test: 1 recent snapshot(s)');
+  });
+
+  it('rejects modules without createConditions', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'conditions-'));
+    const path = join(dir, 'broken.mjs');
+    writeFileSync(path, 'export const nothing = 1;');
+
+    const history = new SnapshotHistoryStore(null);
+    await expect(loadConditionModules({ conditionModules: [path] } as Config, { history })).rejects.toThrow('createConditions');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Condition Registry
+ *
+ * Every condition declares its name, priority, cadence, enabled flag,
+ * dependencies and whether it may trigger restarts. Config (CONDITIONS) can
+ * enable, disable and tune any of them by name, and CONDITION_MODULES loads
+ * custom conditions from separate modules.
+ *
+ * Each check cycle runs the conditions that are due, dependencies first and
+ * then by priority (lower first). A condition is skipped while one of its
+ * dependencies is detected — e.g. there's no point checking our metagraph's
+ * global snapshot inclusion while the hypergraph itself is unreachable.
+ *
+ * A condition can also set `maxDataAgeSeconds`: snapshot entries older than
+ * that (Redis entries carry their age) are removed before it runs.
+ */
+
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type { Config, ConditionOverride } from '../config.js';
+import type { DetectionResult, HealthSnapshot } from '../types.js';
+import type { SnapshotHistoryStore } from '../services/snapshot-history.js';
+import { log } from '../logger.js';
+
+/** Detector re-runnable against any snapshot (post-restart verification uses it too) */
+export type ConditionDetectFn = (snapshot: HealthSnapshot) => DetectionResult | Promise<DetectionResult>;
+
+/** What a condition module declares; omitted fields take the defaults */
+export interface ConditionSpec {
+  name: string;
+  /** Lower runs first */
+  priority: number;
+  /** Run every N cycles (default 1) */
+  everyCycles?: number;
+  /** Default true */
+  enabled?: boolean;
+  /** Conditions that must not be detected for this one to run */
+  dependsOn?: string[];
+  /** false = detection only: restart scopes are reported as 'none' */
+  mayRestart: boolean;
+  /** Ignore layer entries older than this (default: no limit) */
+  maxDataAgeSeconds?: number;
+  detect: ConditionDetectFn;
+}
+
+/** A registered condition with config overrides applied */
+export type ConditionDefinition = Required<ConditionSpec>;
+
+/** Watchdog services a condition module may use in its detectors */
+export interface ConditionContext {
+  /** Snapshots of earlier cycles, for trend-based decisions (`recent(windowMs)`) */
+  history: SnapshotHistoryStore;
+}
+
+/** Contract for CONDITION_MODULES: a module exporting `createConditions` */
+export interface ConditionModule {
+  createConditions(config: Config, context: ConditionContext): ConditionSpec[] | Promise<ConditionSpec[]>;
+}
+
+/**
+ * Copy of the snapshot without layer entries older than `maxAgeSeconds`.
+ * Entries without an age (direct polls) are always kept.
+ *
+ * This is a PURE FUNCTION.
+ */
+export function dropOldLayers(snapshot: HealthSnapshot, maxAgeSeconds: number): HealthSnapshot {
+  if (!Number.isFinite(maxAgeSeconds)) return snapshot;
+  return {
+    ...snapshot,
+    nodes: snapshot.nodes.map(n => ({
+      ...n,
+      layers: n.layers.filter(l => (l.ageSeconds ?? 0) <= maxAgeSeconds),
+    })),
+  };
+}
+
+export class ConditionRegistry {
+  private defs = new Map<string, ConditionDefinition>();
+  private last = new Map<string, DetectionResult>();
+
+  constructor(private readonly overrides: Record<string, ConditionOverride> = {}) {}
+
+  /**
+   * Register a condition, applying any config override for its name.
+   */
+  register(spec: ConditionSpec): void {
+    if (this.defs.has(spec.name)) {
+      throw new Error(`Condition ${spec.name} is already registered`);
+    }
+    const override = this.overrides[spec.name] ?? {};
+    this.defs.set(spec.name, {
+      name: spec.name,
+      priority: override.priority ?? spec.priority,
+      everyCycles: Math.max(1, override.everyCycles ?? spec.everyCycles ?? 1),
+      enabled: override.enabled ?? spec.enabled ?? true,
+      dependsOn: override.dependsOn ?? spec.dependsOn ?? [],
+      mayRestart: override.mayRestart ?? spec.mayRestart,
+      maxDataAgeSeconds: override.maxDataAgeSeconds ?? spec.maxDataAgeSeconds ?? Infinity,
+      detect: spec.detect,
+    });
+  }
+
+  get(name: string): ConditionDefinition | undefined {
+    return this.defs.get(name);
+  }
+
+  /**
+   * All registered conditions in run order: dependencies first, then by
+   * priority. Throws on unknown or circular dependencies.
+   */
+  list(): ConditionDefinition[] {
+    const ordered: ConditionDefinition[] = [];
+    const placed = new Set<string>();
+    const remaining = [...this.defs.values()].sort((a, b) => a.priority - b.priority);
+
+    for (const def of remaining) {
+      const unknown = def.dependsOn.filter(d => !this.defs.has(d));
+      if (unknown.length > 0) {
+        throw new Error(`Condition ${def.name} depends on unknown condition(s): ${unknown.join(', ')}`);
+      }
+    }
+
+    while (remaining.length > 0) {
+      const i = remaining.findIndex(d => d.dependsOn.every(dep => placed.has(dep)));
+      if (i === -1) {
+        throw new Error(`Circular condition dependencies: ${remaining.map(d => d.name).join(', ')}`);
+      }
+      const [next] = remaining.splice(i, 1);
+      ordered.push(next);
+      placed.add(next.name);
+    }
+    return ordered;
+  }
+
+  /**
+   * Enabled conditions due on this cycle (interval tick; the first runs
+   * everything). `repeat`: another check within the same tick, which only
+   * runs conditions that are due every cycle.
+   */
+  due(cycle: number, repeat = false): ConditionDefinition[] {
+    return this.list().filter(d => d.enabled &&
+      (d.everyCycles === 1 || (!repeat && (cycle === 1 || cycle % d.everyCycles === 0))));
+  }
+
+  /**
+   * Dependency currently detected (its latest result), if any.
+   */
+  blockedBy(def: ConditionDefinition): string | null {
+    return def.dependsOn.find(dep => this.defs.get(dep)?.enabled && this.last.get(dep)?.detected) ?? null;
+  }
+
+  /**
+   * Run a condition's detector and remember the result for dependants.
+   * Detection-only conditions never ask for a restart.
+   */
+  async run(def: ConditionDefinition, snapshot: HealthSnapshot): Promise<DetectionResult> {
+    let result = await def.detect(dropOldLayers(snapshot, def.maxDataAgeSeconds));
+    if (!def.mayRestart && result.restartScope !== 'none') {
+      result = { ...result, restartScope: 'none' };
+    }
+    this.last.set(def.name, result);
+    return result;
+  }
+
+  /**
+   * Throw if a setting names conditions that aren't registered: a typo would
+   * otherwise silently match nothing. Call once every condition is registered.
+   */
+  checkNames(setting: string, names: string[]): void {
+    const unknown = [...new Set(names)].filter(name => !this.defs.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`${setting}: unknown condition(s) ${unknown.join(', ')} (registered: ${[...this.defs.keys()].join(', ')})`);
+    }
+  }
+
+  /** One line per condition, for the startup log. */
+  describe(): string[] {
+    return this.list().map(d =>
+      `${d.name} (priority ${d.priority}${d.everyCycles > 1 ? `, every ${d.everyCycles} cycles` : ''}` +
+      `${d.dependsOn.length > 0 ? `, after ${d.dependsOn.join(', ')}` : ''}` +
+      `${Number.isFinite(d.maxDataAgeSeconds) ? `, data under ${d.maxDataAgeSeconds}s` : ''}` +
+      `${d.mayRestart ? '' : ', detection only'}${d.enabled ? '' : ', disabled'})`,
+    );
+  }
+}
+
+/**
+ * Load custom conditions from CONDITION_MODULES (paths relative to the
+ * working directory). Each module must export `createConditions(config, context)`.
+ */
+export async function loadConditionModules(config: Config, context: ConditionContext): Promise<ConditionSpec[]> {
+  const specs: ConditionSpec[] = [];
+  for (const path of config.conditionModules) {
+    const mod = await import(pathToFileURL(resolve(path)).href) as Partial<ConditionModule>;
+    if (typeof mod.createConditions !== 'function') {
+      throw new Error(`Condition module ${path} does not export createConditions(config)`);
+    }
+    const created = await mod.createConditions(config, context);
+    log(`[Conditions] Loaded ${created.map(c => c.name).join(', ') || 'no conditions'} from ${path}`);
+    specs.push(...created);
+  }
+  return specs;
+}
@@ -0,0 +1,82 @@
+/**
+ * Snapshot Divergence Detection Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkLayerDivergence, detectSnapshotDivergenceFromSnapshot } from './snapshot-divergence.js';
+import type { Config } from '../config.js';
+import type { HealthSnapshot, Layer } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function makeConfig(nodeCount: number): Config {
+  return {
+    nodes: Array.from({ length: nodeCount }, (_, i) => ({ ip: `10.0.0.${i + 1}`, name: `node${i + 1}` })),
+  } as Config;
+}
+
+/** One [ordinal, hash] per node on a single layer */
+function makeSnapshot(layer: Layer, refs: Array<[number, string | undefined]>): HealthSnapshot {
+  return {
+    timestamp: new Date(),
+    stale: false,
+    source: 'redis',
+    nodes: refs.map(([ordinal, hash], i) => ({
+      ip: `10.0.0.${i + 1}`,
+      name: `node${i + 1}`,
+      layers: [{ layer, state: 'Ready', ordinal, reachable: true, clusterSize: refs.length, lastSnapshotHash: hash }],
+    })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('checkLayerDivergence()', () => {
+  it('returns null when nodes agree or share no ordinal', () => {
+    expect(checkLayerDivergence(makeSnapshot('ml0', [[10, 'a'], [10, 'a'], [10, 'a']]), 'ml0')).toBeNull();
+    expect(checkLayerDivergence(makeSnapshot('ml0', [[10, 'a'], [11, 'b'], [12, 'c']]), 'ml0')).toBeNull();
+  });
+
+  it('ignores nodes without a hash', () => {
+    expect(checkLayerDivergence(makeSnapshot('ml0', [[10, 'a'], [10, undefined], [10, 'a']]), 'ml0')).toBeNull();
+  });
+
+  it('compares only nodes at the shared ordinal', () => {
+    const divergence = checkLayerDivergence(makeSnapshot('ml0', [[10, 'a'], [10, 'b'], [10, 'a'], [11, 'x']]), 'ml0');
+    expect(divergence).toMatchObject({
+      ordinal: 10,
+      majorityHash: 'a',
+      compared: ['10.0.0.1', '10.0.0.2', '10.0.0.3'],
+      diverged: ['10.0.0.2'],
+    });
+  });
+});
+
+describe('detectSnapshotDivergenceFromSnapshot()', () => {
+  it('returns detected=false when hashes match', () => {
+    const result = detectSnapshotDivergenceFromSnapshot(makeConfig(3), makeSnapshot('ml0', [[10, 'a'], [10, 'a'], [9, 'z']]));
+    expect(result.detected).toBe(false);
+    expect(result.condition).toBe('SnapshotDivergence');
+  });
+
+  it('restarts a single diverged node individually', () => {
+    const result = detectSnapshotDivergenceFromSnapshot(makeConfig(3), makeSnapshot('ml0', [[10, 'a'], [10, 'b'], [10, 'a']]));
+
+    expect(result.detected).toBe(true);
+    expect(result.restartScope).toBe('individual-node');
+    expect(result.affectedNodes).toEqual(['10.0.0.2']);
+    expect(result.affectedLayers).toEqual(['ml0']);
+  });
+
+  it('restarts the layer when there is no majority hash', () => {
+    const result = detectSnapshotDivergenceFromSnapshot(makeConfig(4), makeSnapshot('gl0', [[10, 'a'], [10, 'b'], [10, 'a'], [10, 'b']]));
+
+    expect(result.restartScope).toBe('full-layer');
+    expect(result.affectedLayers).toEqual(['gl0']);
+    expect(result.details).toContain('chain split at ordinal 10');
+  });
+});
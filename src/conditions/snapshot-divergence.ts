@@ -0,0 +1,105 @@
+/**
+ * Snapshot Divergence Detection
+ *
+ * ForkedCluster compares who each node thinks is in the cluster; two
+ * partitions with identical peer lists can still build different chains.
+ * Nodes at the same ordinal must agree on the hash of the preceding snapshot
+ * (`lastSnapshotHash`) — a node that disagrees with the majority there has
+ * diverged.
+ *
+ * Restart scope depends on how many nodes diverged:
+ * - a strict majority agrees → individual-node restart of the diverged nodes
+ * - no strict majority (split chain) → full-layer restart
+ *
+ * This is a PURE FUNCTION — no I/O, just data analysis.
+ */
+
+import type { Config } from '../config.js';
+import type { DetectionResult, HealthSnapshot, Layer } from '../types.js';
+import { ALL_LAYERS } from '../types.js';
+import { log } from '../logger.js';
+
+/** Divergence found on one layer at a shared ordinal */
+export interface LayerDivergence {
+  layer: Layer;
+  ordinal: number;
+  /** Hash held by a strict majority of the compared nodes, if any */
+  majorityHash: string | null;
+  /** Nodes compared at `ordinal` */
+  compared: string[];
+  /** Nodes whose hash differs from the majority (all compared nodes on a split) */
+  diverged: string[];
+}
+
+/**
+ * Compare snapshot hashes on one layer at the ordinal most nodes share.
+ * Returns null if fewer than two nodes report a hash at a common ordinal,
+ * or if they all agree.
+ */
+export function checkLayerDivergence(snapshot: HealthSnapshot, layer: Layer): LayerDivergence | null {
+  const byOrdinal = new Map<number, Array<{ ip: string; hash: string }>>();
+
+  for (const node of snapshot.nodes) {
+    const lh = node.layers.find(l => l.layer === layer);
+    if (!lh || !lh.reachable || lh.ordinal < 0 || !lh.lastSnapshotHash) continue;
+    const group = byOrdinal.get(lh.ordinal) ?? [];
+    group.push({ ip: node.ip, hash: lh.lastSnapshotHash });
+    byOrdinal.set(lh.ordinal, group);
+  }
+
+  // Largest group wins; on a tie, the most recent ordinal
+  const shared = [...byOrdinal.entries()]
+    .filter(([, group]) => group.length >= 2)
+    .sort((a, b) => b[1].length - a[1].length || b[0] - a[0])[0];
+  if (!shared) return null;
+
+  const [ordinal, group] = shared;
+  const freq = new Map<string, number>();
+  for (const g of group) freq.set(g.hash, (freq.get(g.hash) ?? 0) + 1);
+  if (freq.size === 1) return null;
+
+  const [topHash, topCount] = [...freq.entries()].sort((a, b) => b[1] - a[1])[0];
+  const majorityHash = topCount * 2 > group.length ? topHash : null;
+
+  return {
+    layer,
+    ordinal,
+    majorityHash,
+    compared: group.map(g => g.ip),
+    diverged: group.filter(g => majorityHash === null || g.hash !== majorityHash).map(g => g.ip),
+  };
+}
+
+/**
+ * Detect snapshot chain divergence from HealthSnapshot data.
+ */
+export function detectSnapshotDivergenceFromSnapshot(
+  config: Config,
+  snapshot: HealthSnapshot,
+): DetectionResult {
+  log('[SnapshotDivergence] Comparing snapshot hashes at shared ordinals...');
+
+  for (const layer of ALL_LAYERS) {
+    const divergence = checkLayerDivergence(snapshot, layer);
+    if (!divergence) continue;
+
+    const name = layer.toUpperCase();
+    const split = divergence.majorityHash === null;
+    const details = split
+      ? `${name} chain split at ordinal ${divergence.ordinal} — no majority hash among ${divergence.compared.join(', ')}`
+      : `${name} diverged at ordinal ${divergence.ordinal} — nodes ${divergence.diverged.join(', ')} disagree with majority hash ${divergence.majorityHash}`;
+    log(`[SnapshotDivergence] ${details}`);
+
+    return {
+      detected: true,
+      condition: 'SnapshotDivergence',
+      details,
+      restartScope: split ? 'full-layer' : 'individual-node',
+      affectedNodes: divergence.diverged,
+      affectedLayers: [layer],
+    };
+  }
+
+  log('[SnapshotDivergence] No divergence detected');
+  return { detected: false, condition: 'SnapshotDivergence', details: '', restartScope: 'none' };
+}
@@ -1,13 +1,14 @@
 /**
  * Snapshot Stall Detection Tests
  *
- * Tests for ML0 snapshot stall detection logic.
+ * Tests for per-layer snapshot stall detection logic.
  * Tests both the pure function (snapshot-based) and legacy (direct HTTP) modes.
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import {
   StallTracker,
+  CLUSTER_NODE_ID,
   detectSnapshotsStopped,
   detectSnapshotsStoppedFromSnapshot,
   type OrdinalFetchFn,
@@ -26,19 +27,46 @@ function makeConfig(nodeCount: number = 3): Config {
       name: `node${i + 1}`,
     })),
     ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+    controller: 'ssh',
+    dockerSocketPath: '/var/run/docker.sock',
     sshKeyPath: '/test/key',
     sshUser: 'test',
     cliPorts: { gl0: 9001, ml0: 9201, cl1: 9301, dl1: 9401 },
     p2pPorts: { gl0: 9010, ml0: 9210, cl1: 9310, dl1: 9410 },
     snapshotStallMinutes: 4,
+    snapshotStalls: {
+      gl0: { minutes: 4, scope: 'full-layer' },
+      ml0: { minutes: 4, scope: 'full-metagraph' },
+      cl1: { minutes: 10, scope: 'full-layer' },
+      dl1: { minutes: 10, scope: 'full-layer' },
+    },
+    nodeLagThresholds: { gl0: 20, ml0: 20, cl1: 20, dl1: 20 },
+    nodeLagReference: 'median',
+    nodeLagSustainSeconds: 180,
+    statePolicy: { timeouts: { WaitingForDownload: 0, DownloadInProgress: 0, Leaving: 0, Offline: 0, Unreachable: 0 }, defaultSeconds: 600 },
     healthCheckIntervalSeconds: 60,
+    healthUpdates: { mode: 'poll', channel: 'monitor:health:updated', minIntervalSeconds: 10 },
     restartCooldownMinutes: 10,
     maxRestartsPerHour: 6,
+    conditions: {},
+    conditionModules: [],
+    restartBudgets: [],
+    confirmationRules: [],
+    recoveryCycles: 1,
+    escalation: { ladder: ['individual-node', 'full-layer', 'full-metagraph'], attemptsPerStep: 2 },
+    maintenanceWindows: [],
+    verifySettleSeconds: 0,
+    restartResumeMaxAgeMinutes: 30,
+    instanceId: 'test',
+    leaderElection: false,
+    leaderLeaseSeconds: 180,
     redisUrl: 'redis://localhost:6379',
     postgresUrl: '',
     healthDataStaleSeconds: 60,
+    snapshotHistoryRetentionHours: 24,
     daemon: false,
     once: false,
+    dryRun: false,
   };
 }
 
@@ -118,6 +146,23 @@ describe('StallTracker', () => {
     expect(tracker.lastOrdinal('n2', 'gl0')).toBe(200);
   });
 
+  it('observe keeps the highest ordinal and its stale clock when the ordinal goes backwards', () => {
+    tracker.observe('cluster', 'ml0', 100, 1_000);
+    expect(tracker.observe('cluster', 'ml0', 90, 5_000)).toBe(false);
+    expect(tracker.lastOrdinal('cluster', 'ml0')).toBe(100);
+    expect(tracker.staleSecs('cluster', 'ml0', 11_000)).toBe(10);
+    expect(tracker.observe('cluster', 'ml0', 100, 12_000)).toBe(false);
+    expect(tracker.observe('cluster', 'ml0', 101, 13_000)).toBe(true);
+  });
+
+  it('restores persisted entries', () => {
+    tracker.update('cluster', 'gl0', 7, 1_000);
+    const copy = new StallTracker();
+    copy.restore(tracker.entries());
+    expect(copy.lastOrdinal('cluster', 'gl0')).toBe(7);
+    expect(copy.staleSecs('cluster', 'gl0', 2_000)).toBe(1);
+  });
+
   it('staleSecs uses provided now parameter', () => {
     const t0 = 1000000;
     tracker.update('n1', 'ml0', 100, t0);
@@ -171,12 +216,12 @@ describe('detectSnapshotsStoppedFromSnapshot()', () => {
 
   it('returns detected=true when stalled past threshold', () => {
     const config = makeConfig();
-    config.snapshotStallMinutes = 0.001; // ~60ms threshold for test
+    config.snapshotStalls.ml0.minutes = 0.001; // ~60ms threshold for test
 
     // Create a tracker with old timestamp
     const tracker = new StallTracker();
     const oldTime = Date.now() - 5 * 60 * 1000; // 5 minutes ago
-    tracker.update('10.0.0.1', 'ml0', 100, oldTime);
+    tracker.update(CLUSTER_NODE_ID, 'ml0', 100, oldTime);
 
     const snapshot = makeSnapshot([
       { ip: '10.0.0.1', ml0Ordinal: 100 }, // Same ordinal
@@ -203,7 +248,7 @@ describe('detectSnapshotsStoppedFromSnapshot()', () => {
     expect(result.details).toBe('ML0 unreachable');
   });
 
-  it('uses first reachable node', () => {
+  it('tracks the highest ordinal across reachable nodes', () => {
     const config = makeConfig(3);
     const tracker = new StallTracker();
 
@@ -215,15 +260,15 @@ describe('detectSnapshotsStoppedFromSnapshot()', () => {
 
     const result = detectSnapshotsStoppedFromSnapshot(config, snapshot, tracker);
     expect(result.detected).toBe(false);
-    expect(tracker.lastOrdinal('10.0.0.3', 'ml0')).toBe(200);
+    expect(tracker.lastOrdinal(CLUSTER_NODE_ID, 'ml0')).toBe(200);
   });
 
   it('includes all nodes and layers on stall detection', () => {
     const config = makeConfig(3);
-    config.snapshotStallMinutes = 0.001;
+    config.snapshotStalls.ml0.minutes = 0.001;
 
     const tracker = new StallTracker();
-    tracker.update('10.0.0.1', 'ml0', 100, Date.now() - 10 * 60 * 1000);
+    tracker.update(CLUSTER_NODE_ID, 'ml0', 100, Date.now() - 10 * 60 * 1000);
 
     const snapshot = makeSnapshot([
       { ip: '10.0.0.1', ml0Ordinal: 100 },
@@ -236,6 +281,85 @@ describe('detectSnapshotsStoppedFromSnapshot()', () => {
     expect(result.affectedNodes).toEqual(['10.0.0.1', '10.0.0.2', '10.0.0.3']);
     expect(result.affectedLayers).toEqual(['ml0', 'cl1', 'dl1']);
   });
+  it('keeps the stall clock running when the leading node drops out', () => {
+    const config = makeConfig(3);
+    const tracker = new StallTracker();
+    const start = Date.now();
+
+    detectSnapshotsStoppedFromSnapshot(config, makeSnapshot([
+      { ip: '10.0.0.1', ml0Ordinal: 100 },
+      { ip: '10.0.0.2', ml0Ordinal: 98 },
+    ]), tracker, start);
+
+    const result = detectSnapshotsStoppedFromSnapshot(config, makeSnapshot([
+      { ip: '10.0.0.1', ml0Ordinal: -1, ml0Reachable: false },
+      { ip: '10.0.0.2', ml0Ordinal: 98 },
+    ]), tracker, start + 5 * 60 * 1000);
+
+    expect(result.detected).toBe(true);
+    expect(result.details).toContain('ML0 snapshots stalled');
+  });
+
+  it('keeps the stall clock running when a stalled leader drops out and comes back', () => {
+    const config = makeConfig(3);
+    const tracker = new StallTracker();
+    const start = Date.now();
+    const leaderUp = makeSnapshot([
+      { ip: '10.0.0.1', ml0Ordinal: 1000 },
+      { ip: '10.0.0.2', ml0Ordinal: 990 },
+    ]);
+    const leaderDown = makeSnapshot([
+      { ip: '10.0.0.1', ml0Ordinal: -1, ml0Reachable: false },
+      { ip: '10.0.0.2', ml0Ordinal: 990 },
+    ]);
+
+    detectSnapshotsStoppedFromSnapshot(config, leaderUp, tracker, start);
+    detectSnapshotsStoppedFromSnapshot(config, leaderDown, tracker, start + 60_000);
+    detectSnapshotsStoppedFromSnapshot(config, leaderUp, tracker, start + 2 * 60_000);
+    detectSnapshotsStoppedFromSnapshot(config, leaderDown, tracker, start + 3 * 60_000);
+    const result = detectSnapshotsStoppedFromSnapshot(config, leaderUp, tracker, start + 4 * 60_000);
+
+    expect(result.detected).toBe(true);
+    expect(result.details).toContain('stalled at ordinal 1000 for 4.0 minutes');
+  });
+
+  it('restarts an L1 layer at its own threshold and scope', () => {
+    const config = makeConfig(2);
+    const tracker = new StallTracker();
+    const start = Date.now();
+    const snapshot = (cl1Ordinal: number, ml0Ordinal: number): HealthSnapshot => ({
+      timestamp: new Date(),
+      stale: false,
+      source: 'redis',
+      nodes: ['10.0.0.1', '10.0.0.2'].map(ip => ({
+        ip,
+        name: ip,
+        layers: [
+          { layer: 'ml0', state: 'Ready', ordinal: ml0Ordinal, reachable: true, clusterSize: 2 },
+          { layer: 'cl1', state: 'Ready', ordinal: cl1Ordinal, reachable: true, clusterSize: 2 },
+        ],
+      })),
+    });
+
+    detectSnapshotsStoppedFromSnapshot(config, snapshot(50, 100), tracker, start);
+    // ML0 keeps advancing, CL1 is stuck for 5 minutes (under its 10m threshold)
+    expect(detectSnapshotsStoppedFromSnapshot(config, snapshot(50, 110), tracker, start + 5 * 60 * 1000).detected).toBe(false);
+
+    const result = detectSnapshotsStoppedFromSnapshot(config, snapshot(50, 120), tracker, start + 11 * 60 * 1000);
+    expect(result.detected).toBe(true);
+    expect(result.restartScope).toBe('full-layer');
+    expect(result.affectedLayers).toEqual(['cl1']);
+  });
+
+  it('skips layers whose threshold is 0', () => {
+    const config = makeConfig();
+    config.snapshotStalls.ml0.minutes = 0;
+    const tracker = new StallTracker();
+
+    const snapshot = makeSnapshot([{ ip: '10.0.0.1', ml0Ordinal: 100 }]);
+    detectSnapshotsStoppedFromSnapshot(config, snapshot, tracker);
+    expect(tracker.lastOrdinal(CLUSTER_NODE_ID, 'ml0')).toBeUndefined();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -1,14 +1,22 @@
 /**
  * Snapshot Stall Detection
  *
- * Tracks ML0 snapshot ordinals over time. If the ordinal hasn't advanced
- * for longer than the configured threshold, triggers a full metagraph restart.
+ * Tracks the highest ordinal reported by any reachable node on each layer
+ * (GL0, ML0, CL1, DL1). If it hasn't advanced for longer than the layer's
+ * threshold, triggers a restart at the layer's configured scope (a full
+ * metagraph restart for ML0 by default). Using the cluster-wide highest
+ * ordinal means the stall clock doesn't reset when a different node happens
+ * to answer, and doesn't stop when the leading node drops out.
+ *
+ * Tracker state can be persisted (see StallStateStore) so a watchdog restart
+ * doesn't reset the stall clock either.
  *
  * Pattern from: Constellation SnapshotsStopped condition
  */
 
-import type { Config } from '../config.js';
-import type { DetectionResult, HealthSnapshot } from '../types.js';
+import type { Config, StallPolicy } from '../config.js';
+import type { DetectionResult, HealthSnapshot, Layer } from '../types.js';
+import { ALL_LAYERS, METAGRAPH_LAYERS } from '../types.js';
 import { log } from '../logger.js';
 
 /** Fetch function type for dependency injection (used by legacy direct mode) */
@@ -20,6 +28,9 @@ export interface OrdinalState {
   timestamp: number;
 }
 
+/** Tracker node id for the cluster-wide highest ordinal of a layer */
+export const CLUSTER_NODE_ID = 'cluster';
+
 /**
  * Stall tracker class for testability.
  * Tracks ordinals and calculates stale time.
@@ -44,6 +55,18 @@ export class StallTracker {
     return false;
   }
 
+  /**
+   * Like update(), but keeps the highest ordinal seen: only an ordinal above
+   * it is progress. A leading node that drops out and comes back at the same
+   * ordinal doesn't restart the stale clock. Returns true if ordinal advanced.
+   */
+  observe(nodeId: string, layer: string, ordinal: number, timestamp = Date.now()): boolean {
+    const prev = this.state.get(this.key(nodeId, layer));
+    if (prev && ordinal <= prev.ordinal) return false;
+
+    return this.update(nodeId, layer, ordinal, timestamp);
+  }
+
   /** Get seconds since last ordinal change. Returns null if never tracked. */
   staleSecs(nodeId: string, layer: string, now = Date.now()): number | null {
     const s = this.state.get(this.key(nodeId, layer));
@@ -56,6 +79,16 @@ export class StallTracker {
     return this.state.get(this.key(nodeId, layer))?.ordinal;
   }
 
+  /** All tracked state, keyed by `<nodeId>:<layer>` (for persistence). */
+  entries(): Array<[string, OrdinalState]> {
+    return [...this.state.entries()];
+  }
+
+  /** Replace tracked state with previously persisted entries. */
+  restore(entries: Array<[string, OrdinalState]>): void {
+    this.state = new Map(entries);
+  }
+
   /** Clear all state. */
   reset(): void {
     this.state.clear();
@@ -65,8 +98,19 @@ export class StallTracker {
 // Global tracker instance (survives across check cycles)
 const globalTracker = new StallTracker();
 
+/** A layer whose highest ordinal stopped advancing */
+interface LayerStall {
+  layer: Layer;
+  ordinal: number;
+  staleMinutes: number;
+  policy: StallPolicy;
+}
+
 /**
- * Detect snapshot stall from HealthSnapshot data.
+ * Detect snapshot stalls from HealthSnapshot data.
+ *
+ * Layers are checked GL0 → DL1 and the first stalled one is returned, since
+ * a stall lower down usually stalls the layers above it too.
  *
  * This is a PURE FUNCTION — no I/O, just data analysis with tracker state.
  */
@@ -74,57 +118,67 @@ export function detectSnapshotsStoppedFromSnapshot(
   config: Config,
   snapshot: HealthSnapshot,
   tracker: StallTracker = globalTracker,
+  now = Date.now(),
 ): DetectionResult {
-  log('[SnapshotStall] Checking ML0 snapshot progress...');
+  log('[SnapshotStall] Checking snapshot progress per layer...');
 
-  // Find first reachable ML0 node
-  let currentOrdinal = -1;
-  let reachableNode: string | null = null;
+  const stalls: LayerStall[] = [];
+  const unreachable: Layer[] = [];
 
-  for (const node of snapshot.nodes) {
-    const ml0 = node.layers.find(l => l.layer === 'ml0' && l.reachable);
-    if (ml0 && ml0.ordinal >= 0) {
-      currentOrdinal = ml0.ordinal;
-      reachableNode = node.ip;
-      break;
+  for (const layer of ALL_LAYERS) {
+    const policy = config.snapshotStalls[layer];
+    if (policy.minutes <= 0) continue;
+
+    const reports = snapshot.nodes.flatMap(n => n.layers.filter(l => l.layer === layer));
+    if (reports.length === 0) continue; // Layer not reported at all
+
+    const ordinals = reports.filter(l => l.reachable && l.ordinal >= 0).map(l => l.ordinal);
+    if (ordinals.length === 0) {
+      // Can't reach any node — this is an unhealthy-nodes problem, not a stall
+      unreachable.push(layer);
+      continue;
     }
-  }
 
-  if (currentOrdinal < 0 || !reachableNode) {
-    // Can't reach any ML0 — this is an unhealthy-nodes problem, not a stall
-    log('[SnapshotStall] Cannot reach any ML0 node');
-    return { detected: false, condition: 'SnapshotsStopped', details: 'ML0 unreachable', restartScope: 'none' };
-  }
+    const name = layer.toUpperCase();
+    const highest = Math.max(...ordinals);
+    const prevOrdinal = tracker.lastOrdinal(CLUSTER_NODE_ID, layer);
+    const advanced = tracker.observe(CLUSTER_NODE_ID, layer, highest, now);
 
-  const prevOrdinal = tracker.lastOrdinal(reachableNode, 'ml0');
-  const advanced = tracker.update(reachableNode, 'ml0', currentOrdinal);
+    if (advanced || prevOrdinal === undefined) {
+      log(`[SnapshotStall] ${name} ordinal ${prevOrdinal ?? 'N/A'} → ${highest} (healthy)`);
+      continue;
+    }
 
-  if (advanced || prevOrdinal === undefined) {
-    // Ordinal advanced — healthy
-    log(`[SnapshotStall] ML0 ordinal ${prevOrdinal ?? 'N/A'} → ${currentOrdinal} (healthy)`);
-    return { detected: false, condition: 'SnapshotsStopped', details: '', restartScope: 'none' };
+    const staleMinutes = (tracker.staleSecs(CLUSTER_NODE_ID, layer, now) ?? 0) / 60;
+    if (staleMinutes >= policy.minutes) {
+      stalls.push({ layer, ordinal: highest, staleMinutes, policy });
+    } else {
+      log(`[SnapshotStall] ${name} ordinal=${highest} unchanged for ${staleMinutes.toFixed(1)}m (threshold: ${policy.minutes}m)`);
+    }
   }
 
-  // Ordinal unchanged — how long?
-  const staleSecs = tracker.staleSecs(reachableNode, 'ml0') ?? 0;
-  const staleMinutes = staleSecs / 60;
-  const thresholdMinutes = config.snapshotStallMinutes ?? 4;
+  if (unreachable.length > 0) {
+    log(`[SnapshotStall] Cannot reach any ${unreachable.map(l => l.toUpperCase()).join(', ')} node`);
+  }
 
-  if (staleMinutes >= thresholdMinutes) {
-    const msg = `ML0 snapshots stalled at ordinal ${currentOrdinal} for ${staleMinutes.toFixed(1)} minutes`;
-    log(`[SnapshotStall] ${msg}`);
-    return {
-      detected: true,
-      condition: 'SnapshotsStopped',
-      details: msg,
-      restartScope: 'full-metagraph',
-      affectedLayers: ['ml0', 'cl1', 'dl1'],
-      affectedNodes: config.nodes.map(n => n.ip),
-    };
+  if (stalls.length === 0) {
+    const details = unreachable.length > 0 ? `${unreachable.map(l => l.toUpperCase()).join(', ')} unreachable` : '';
+    return { detected: false, condition: 'SnapshotsStopped', details, restartScope: 'none' };
   }
 
-  log(`[SnapshotStall] ML0 ordinal=${currentOrdinal} unchanged for ${staleMinutes.toFixed(1)}m (threshold: ${thresholdMinutes}m)`);
-  return { detected: false, condition: 'SnapshotsStopped', details: '', restartScope: 'none' };
+  const [stall, ...others] = stalls;
+  const msg = `${stall.layer.toUpperCase()} snapshots stalled at ordinal ${stall.ordinal} for ${stall.staleMinutes.toFixed(1)} minutes`
+    + (others.length > 0 ? ` (also stalled: ${others.map(o => o.layer.toUpperCase()).join(', ')})` : '');
+  log(`[SnapshotStall] ${msg}`);
+
+  return {
+    detected: true,
+    condition: 'SnapshotsStopped',
+    details: msg,
+    restartScope: stall.policy.scope,
+    affectedLayers: stall.policy.scope === 'full-metagraph' ? [...METAGRAPH_LAYERS] : [stall.layer],
+    affectedNodes: config.nodes.map(n => n.ip),
+  };
 }
 
 // =============================================================================
@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { detectUnhealthyNodesFromSnapshot } from './unhealthy-nodes.js';
+import { detectUnhealthyNodesFromSnapshot, StateTracker } from './unhealthy-nodes.js';
 import type { Config } from '../config.js';
 import type { HealthSnapshot, LayerHealth, Layer } from '../types.js';
 
@@ -20,19 +20,46 @@ function makeConfig(nodeCount: number = 3): Config {
       name: `node${i + 1}`,
     })),
     ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+    controller: 'ssh',
+    dockerSocketPath: '/var/run/docker.sock',
     sshKeyPath: '/test/key',
     sshUser: 'test',
     cliPorts: { gl0: 9001, ml0: 9201, cl1: 9301, dl1: 9401 },
     p2pPorts: { gl0: 9010, ml0: 9210, cl1: 9310, dl1: 9410 },
     snapshotStallMinutes: 4,
+    snapshotStalls: {
+      gl0: { minutes: 4, scope: 'full-layer' },
+      ml0: { minutes: 4, scope: 'full-metagraph' },
+      cl1: { minutes: 10, scope: 'full-layer' },
+      dl1: { minutes: 10, scope: 'full-layer' },
+    },
+    nodeLagThresholds: { gl0: 20, ml0: 20, cl1: 20, dl1: 20 },
+    nodeLagReference: 'median',
+    nodeLagSustainSeconds: 180,
+    statePolicy: { timeouts: { WaitingForDownload: 0, DownloadInProgress: 0, Leaving: 0, Offline: 0, Unreachable: 0 }, defaultSeconds: 600 },
     healthCheckIntervalSeconds: 60,
+    healthUpdates: { mode: 'poll', channel: 'monitor:health:updated', minIntervalSeconds: 10 },
     restartCooldownMinutes: 10,
     maxRestartsPerHour: 6,
+    conditions: {},
+    conditionModules: [],
+    restartBudgets: [],
+    confirmationRules: [],
+    recoveryCycles: 1,
+    escalation: { ladder: ['individual-node', 'full-layer', 'full-metagraph'], attemptsPerStep: 2 },
+    maintenanceWindows: [],
+    verifySettleSeconds: 0,
+    restartResumeMaxAgeMinutes: 30,
+    instanceId: 'test',
+    leaderElection: false,
+    leaderLeaseSeconds: 180,
     redisUrl: 'redis://localhost:6379',
     postgresUrl: '',
     healthDataStaleSeconds: 60,
+    snapshotHistoryRetentionHours: 24,
     daemon: false,
     once: false,
+    dryRun: false,
   };
 }
 
@@ -292,3 +319,79 @@ describe('detectUnhealthyNodesFromSnapshot()', () => {
     expect(result.affectedLayers).toContain('dl1');
   });
 });
+
+// ---------------------------------------------------------------------------
+// State timeouts
+// ---------------------------------------------------------------------------
+
+describe('detectUnhealthyNodesFromSnapshot() state timeouts', () => {
+  const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+  function withMl0State(state: string): HealthSnapshot {
+    return makeSnapshot([
+      { ip: '10.0.0.1', name: 'node1', layers: healthyLayers() },
+      { ip: '10.0.0.2', name: 'node2', layers: healthyLayers() },
+      {
+        ip: '10.0.0.3',
+        name: 'node3',
+        layers: healthyLayers().map(l => (l.layer === 'ml0' ? { ...l, state } : l)),
+      },
+    ]);
+  }
+
+  it('tolerates a transitional state until its timeout', () => {
+    const config = makeConfig(3);
+    const tracker = new StateTracker();
+
+    expect(detectUnhealthyNodesFromSnapshot(config, withMl0State('Observing'), tracker, NOW).detected).toBe(false);
+    expect(detectUnhealthyNodesFromSnapshot(config, withMl0State('Observing'), tracker, NOW + 300_000).detected).toBe(false);
+
+    const result = detectUnhealthyNodesFromSnapshot(config, withMl0State('Observing'), tracker, NOW + 600_000);
+    expect(result.detected).toBe(true);
+    expect(result.affectedNodes).toEqual(['10.0.0.3']);
+    expect(result.affectedLayers).toEqual(['ml0']);
+  });
+
+  it('restarts the clock when the state changes', () => {
+    const config = makeConfig(3);
+    const tracker = new StateTracker();
+
+    detectUnhealthyNodesFromSnapshot(config, withMl0State('SessionStarted'), tracker, NOW);
+    const result = detectUnhealthyNodesFromSnapshot(config, withMl0State('Observing'), tracker, NOW + 600_000);
+    expect(result.detected).toBe(false);
+  });
+
+  it('uses per-state timeouts from the policy', () => {
+    const config = makeConfig(3);
+    config.statePolicy = { timeouts: { ReadyToJoin: 60 }, defaultSeconds: 3600 };
+    const tracker = new StateTracker();
+
+    detectUnhealthyNodesFromSnapshot(config, withMl0State('ReadyToJoin'), tracker, NOW);
+    expect(detectUnhealthyNodesFromSnapshot(config, withMl0State('ReadyToJoin'), tracker, NOW + 60_000).detected).toBe(true);
+
+    // Leaving is no longer in the policy, so it gets the 1h default
+    expect(detectUnhealthyNodesFromSnapshot(config, withMl0State('Leaving'), new StateTracker(), NOW).detected).toBe(false);
+  });
+
+  it('applies the Unreachable timeout to unreachable nodes', () => {
+    const config = makeConfig(3);
+    config.statePolicy = { timeouts: { Unreachable: 120 }, defaultSeconds: 600 };
+    const tracker = new StateTracker();
+    const unreachable = makeSnapshot([
+      { ip: '10.0.0.1', name: 'node1', layers: healthyLayers() },
+      { ip: '10.0.0.2', name: 'node2', layers: healthyLayers() },
+      {
+        ip: '10.0.0.3',
+        name: 'node3',
+        layers: healthyLayers().map(l => (l.layer === 'ml0' ? { ...l, state: 'Ready', reachable: false } : l)),
+      },
+    ]);
+
+    expect(detectUnhealthyNodesFromSnapshot(config, unreachable, tracker, NOW).detected).toBe(false);
+    expect(detectUnhealthyNodesFromSnapshot(config, unreachable, tracker, NOW + 60_000).detected).toBe(false);
+
+    const result = detectUnhealthyNodesFromSnapshot(config, unreachable, tracker, NOW + 120_000);
+    expect(result.detected).toBe(true);
+    expect(result.affectedNodes).toEqual(['10.0.0.3']);
+  });
+});
@@ -3,26 +3,72 @@
  *
  * Checks each node per layer for:
  * 1. Not reachable (HTTP timeout)
- * 2. Not in Ready state
- * 3. Stuck in bad state (WaitingForDownload, Leaving, Offline)
+ * 2. Stuck in a non-Ready state for longer than that state's timeout
+ *    (config.statePolicy — e.g. Leaving/Offline at once, Observing after 10m)
+ *
+ * How long each node+layer has been in its current state is tracked across
+ * check cycles (like StallTracker).
  *
  * Pattern from: Constellation UnhealthyNodes condition
  */
 
-import type { Config } from '../config.js';
-import type { Layer, DetectionResult, HealthSnapshot, STUCK_STATES } from '../types.js';
+import type { Config, StatePolicy } from '../config.js';
+import type { Layer, DetectionResult, HealthSnapshot } from '../types.js';
 import { log } from '../logger.js';
 
-const STUCK_STATE_SET = new Set(['WaitingForDownload', 'Leaving', 'Offline', 'DownloadInProgress', 'Unreachable']);
+/** State a node+layer is in and since when */
+interface StateEntry {
+  state: string;
+  since: number;
+}
+
+/**
+ * State duration tracker class for testability.
+ * Tracks how long each node+layer has been in its current state.
+ */
+export class StateTracker {
+  private state = new Map<string, StateEntry>();
+
+  private key(nodeIp: string, layer: string): string {
+    return `${nodeIp}:${layer}`;
+  }
+
+  /** Record the current state. Returns seconds spent in it so far. */
+  observe(nodeIp: string, layer: string, state: string, now = Date.now()): number {
+    const k = this.key(nodeIp, layer);
+    const prev = this.state.get(k);
+    if (!prev || prev.state !== state) {
+      this.state.set(k, { state, since: now });
+      return 0;
+    }
+    return (now - prev.since) / 1000;
+  }
+
+  /** Clear all state. */
+  reset(): void {
+    this.state.clear();
+  }
+}
+
+// Global tracker instance (survives across check cycles)
+const globalTracker = new StateTracker();
+
+/** Timeout for a state; Ready never times out. */
+export function stateTimeout(policy: StatePolicy, state: string): number {
+  if (state === 'Ready') return Infinity;
+  return policy.timeouts[state] ?? policy.defaultSeconds;
+}
 
 /**
  * Detect unhealthy nodes from HealthSnapshot data.
  *
- * This is a PURE FUNCTION — no I/O, just data analysis.
+ * This is a PURE FUNCTION — no I/O, just data analysis with tracker state.
  */
 export function detectUnhealthyNodesFromSnapshot(
   config: Config,
   snapshot: HealthSnapshot,
+  tracker: StateTracker = globalTracker,
+  now = Date.now(),
 ): DetectionResult {
   log('[UnhealthyNodes] Checking node health across all layers...');
 
@@ -34,12 +80,17 @@ export function detectUnhealthyNodesFromSnapshot(
 
     for (const node of snapshot.nodes) {
       const layerHealth = node.layers.find(l => l.layer === layer);
-      
-      if (!layerHealth || !layerHealth.reachable || STUCK_STATE_SET.has(layerHealth.state)) {
+      const state = layerHealth?.reachable ? layerHealth.state : 'Unreachable';
+      const reachable = layerHealth?.reachable ?? false;
+      const secs = tracker.observe(node.ip, layer, state, now);
+      const timeout = stateTimeout(config.statePolicy, state);
+
+      // Unreachable is a state like any other: STATE_TIMEOUTS.Unreachable applies
+      if (secs >= timeout) {
         unhealthy.push(node.ip);
-        const state = layerHealth?.state ?? 'Unreachable';
-        const reachable = layerHealth?.reachable ?? false;
-        log(`[UnhealthyNodes] ${layer.toUpperCase()} ${node.ip}: state=${state} reachable=${reachable}`);
+        log(`[UnhealthyNodes] ${layer.toUpperCase()} ${node.ip}: state=${state} reachable=${reachable} for ${secs.toFixed(0)}s (timeout: ${timeout}s)`);
+      } else if (state !== 'Ready') {
+        log(`[UnhealthyNodes] ${layer.toUpperCase()} ${node.ip}: ${state} for ${secs.toFixed(0)}s (timeout: ${timeout}s)`);
       }
     }
 
@@ -130,8 +181,9 @@ export async function detectUnhealthyNodes(config: Config): Promise<DetectionRes
   for (const layer of ['gl0', 'ml0', 'cl1', 'dl1'] as Layer[]) {
     const healths = await checkLayerHealth(config, layer);
 
+    // No state history here — only states that are unhealthy at once count
     const unhealthy = healths.filter(h =>
-      !h.reachable || STUCK_STATE_SET.has(h.state) || h.state === 'Unreachable'
+      stateTimeout(config.statePolicy, h.reachable ? h.state : 'Unreachable') <= 0
     );
 
     if (unhealthy.length > 0) {
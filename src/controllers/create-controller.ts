@@ -0,0 +1,20 @@
+/**
+ * Node controller factory — picks the backend from config.
+ */
+
+import type { Config } from '../config.js';
+import type { NodeController } from './node-controller.js';
+import { SshDockerController } from './ssh-docker.js';
+import { DockerEngineController } from './docker-engine.js';
+import { KubernetesController } from './kubernetes.js';
+
+export function createNodeController(config: Config): NodeController {
+  switch (config.controller) {
+    case 'docker':
+      return new DockerEngineController(config);
+    case 'kubernetes':
+      return new KubernetesController(config);
+    case 'ssh':
+      return new SshDockerController(config);
+  }
+}
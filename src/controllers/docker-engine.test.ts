@@ -0,0 +1,121 @@
+/**
+ * Docker Engine Controller Tests
+ *
+ * Runs the controller against a stand-in Docker Engine API served on a
+ * temporary unix socket.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DockerEngineController } from './docker-engine.js';
+import type { Config } from '../config.js';
+import type { NodeTarget } from './node-controller.js';
+
+// ---------------------------------------------------------------------------
+// Fake Docker Engine
+// ---------------------------------------------------------------------------
+
+interface FakeEngine {
+  running: Set<string>;
+  requests: string[];
+  execCmds: string[][];
+  execExitCode: number;
+}
+
+function startFakeEngine(socketPath: string, engine: FakeEngine): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const url = req.url ?? '';
+      engine.requests.push(`${req.method} ${url}`);
+
+      let m = url.match(/^\/containers\/([^/]+)\/(stop|start|json|exec)/);
+      if (m) {
+        const [, name, action] = m;
+        if (name === 'missing') { res.writeHead(404).end('{"message":"No such container"}'); return; }
+
+        if (action === 'stop') {
+          const was = engine.running.delete(name);
+          res.writeHead(was ? 204 : 304).end();
+        } else if (action === 'start') {
+          const was = engine.running.has(name);
+          engine.running.add(name);
+          res.writeHead(was ? 304 : 204).end();
+        } else if (action === 'json') {
+          const running = engine.running.has(name);
+          res.writeHead(200).end(JSON.stringify({ State: { Status: running ? 'running' : 'exited', Running: running } }));
+        } else {
+          engine.execCmds.push((JSON.parse(body) as { Cmd: string[] }).Cmd);
+          res.writeHead(201).end(JSON.stringify({ Id: 'exec1' }));
+        }
+        return;
+      }
+
+      if (url === '/exec/exec1/start') { res.writeHead(200).end('ok\n'); return; }
+      if (url === '/exec/exec1/json') { res.writeHead(200).end(JSON.stringify({ ExitCode: engine.execExitCode })); return; }
+
+      res.writeHead(404).end();
+    });
+  });
+
+  return new Promise(resolve => server.listen(socketPath, () => resolve(server)));
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('DockerEngineController', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'watchdog-docker-'));
+  const socketPath = join(dir, 'docker.sock');
+  const engine: FakeEngine = { running: new Set(['ml0-0']), requests: [], execCmds: [], execExitCode: 0 };
+  const config = { cliPorts: { gl0: 9002, ml0: 9202, cl1: 9302, dl1: 9402 } } as Config;
+  const controller = new DockerEngineController(config, socketPath);
+  const target: NodeTarget = { nodeIp: '10.0.0.1', layer: 'ml0', container: 'ml0-0' };
+  let server: http.Server;
+
+  beforeAll(async () => { server = await startFakeEngine(socketPath, engine); });
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stops and starts a container', async () => {
+    await controller.stop(target);
+    expect(await controller.inspect(target)).toEqual({ exists: true, running: false, state: 'exited' });
+
+    await controller.start(target);
+    expect(await controller.inspect(target)).toEqual({ exists: true, running: true, state: 'running' });
+  });
+
+  it('treats stopping an already stopped or missing container as success', async () => {
+    await controller.stop({ ...target, container: 'dl1-2' });
+    await controller.stop({ ...target, container: 'missing' });
+  });
+
+  it('reports missing containers', async () => {
+    expect(await controller.inspect({ ...target, container: 'missing' })).toMatchObject({ exists: false });
+  });
+
+  it('joins via curl to the CLI port inside the container', async () => {
+    await controller.join(target, { id: 'peer-1', ip: '10.0.0.2', p2pPort: 9201 });
+
+    const cmd = engine.execCmds[engine.execCmds.length - 1];
+    expect(cmd.slice(0, 5)).toEqual(['curl', '-sf', '-X', 'POST', 'http://127.0.0.1:9202/cluster/join']);
+    expect(JSON.parse(cmd[cmd.length - 1])).toEqual({ id: 'peer-1', ip: '10.0.0.2', p2pPort: 9201 });
+  });
+
+  it('fails exec on a non-zero exit code', async () => {
+    engine.execExitCode = 7;
+    await expect(controller.exec(target, ['false'])).rejects.toThrow('code 7');
+    engine.execExitCode = 0;
+  });
+
+  it('fails start for an unknown container', async () => {
+    await expect(controller.start({ ...target, container: 'missing' })).rejects.toThrow('404');
+  });
+});
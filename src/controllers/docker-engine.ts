@@ -0,0 +1,108 @@
+/**
+ * Docker Engine Node Controller
+ *
+ * Talks directly to a local Docker Engine API over its unix socket. Meant
+ * for the single-host docker-compose devnet and CI, where every node's
+ * containers run on the watchdog's host and no SSH keys are available.
+ */
+
+import http from 'http';
+import type { Config } from '../config.js';
+import { joinCommand, type NodeController, type NodeTarget, type JoinPeer, type TargetStatus } from './node-controller.js';
+import { log } from '../logger.js';
+
+const REQUEST_TIMEOUT = 60_000;
+
+interface EngineResponse {
+  status: number;
+  body: string;
+}
+
+export class DockerEngineController implements NodeController {
+  readonly name = 'docker';
+
+  constructor(
+    private readonly config: Config,
+    private readonly socketPath: string = config.dockerSocketPath,
+  ) {}
+
+  async stop(target: NodeTarget): Promise<void> {
+    log(`[Docker] Stopping ${target.container}`);
+    // 304 = already stopped, 404 = no such container — both fine for a kill
+    await this.request('POST', `/containers/${target.container}/stop?t=15`, undefined, [204, 304, 404]);
+  }
+
+  async start(target: NodeTarget): Promise<void> {
+    log(`[Docker] Starting ${target.container}`);
+    await this.request('POST', `/containers/${target.container}/start`, undefined, [204, 304]);
+  }
+
+  async exec(target: NodeTarget, command: string[]): Promise<string> {
+    const created = await this.request('POST', `/containers/${target.container}/exec`, {
+      AttachStdout: true,
+      AttachStderr: true,
+      Tty: true, // raw (non-multiplexed) output stream
+      Cmd: command,
+    }, [201]);
+    const { Id } = JSON.parse(created.body) as { Id: string };
+
+    const output = await this.request('POST', `/exec/${Id}/start`, { Detach: false, Tty: true }, [200]);
+    const inspect = await this.request('GET', `/exec/${Id}/json`, undefined, [200]);
+    const { ExitCode } = JSON.parse(inspect.body) as { ExitCode: number | null };
+
+    if (ExitCode !== 0) {
+      throw new Error(`docker exec ${target.container} failed (code ${ExitCode}): ${output.body.trim()}`);
+    }
+    return output.body.trim();
+  }
+
+  async inspect(target: NodeTarget): Promise<TargetStatus> {
+    const res = await this.request('GET', `/containers/${target.container}/json`, undefined, [200, 404]);
+    if (res.status === 404) return { exists: false, running: false, state: 'missing' };
+
+    const { State } = JSON.parse(res.body) as { State: { Status: string; Running: boolean } };
+    return { exists: true, running: State.Running, state: State.Status };
+  }
+
+  async join(target: NodeTarget, peer: JoinPeer): Promise<void> {
+    log(`[Docker] Joining ${target.container} to cluster (genesis=${peer.ip})`);
+    await this.exec(target, joinCommand(this.config.cliPorts[target.layer], peer));
+  }
+
+  private request(
+    method: string,
+    path: string,
+    body: unknown,
+    okStatuses: number[],
+  ): Promise<EngineResponse> {
+    return new Promise((resolve, reject) => {
+      const payload = body === undefined ? undefined : JSON.stringify(body);
+      const req = http.request({
+        socketPath: this.socketPath,
+        path,
+        method,
+        headers: payload
+          ? { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) }
+          : {},
+        timeout: REQUEST_TIMEOUT,
+      }, res => {
+        let data = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => { data += chunk; });
+        res.on('end', () => {
+          const status = res.statusCode ?? 0;
+          if (!okStatuses.includes(status)) {
+            reject(new Error(`Docker ${method} ${path} failed (${status}): ${data.trim()}`));
+            return;
+          }
+          resolve({ status, body: data });
+        });
+      });
+
+      req.on('timeout', () => req.destroy(new Error(`Docker ${method} ${path} timed out`)));
+      req.on('error', err => reject(new Error(`Docker socket ${this.socketPath}: ${err.message}`)));
+      if (payload) req.write(payload);
+      req.end();
+    });
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Kubernetes Controller Tests
+ *
+ * Runs the controller against a stand-in Kubernetes API server on
+ * localhost: pod GET/DELETE, the start gate ConfigMap, and pod exec over the
+ * websocket protocol.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import { createHash } from 'crypto';
+import type { AddressInfo } from 'net';
+import { KubernetesController } from './kubernetes.js';
+import type { Config } from '../config.js';
+import type { NodeTarget } from './node-controller.js';
+
+// ---------------------------------------------------------------------------
+// Fake API server
+// ---------------------------------------------------------------------------
+
+interface FakeCluster {
+  /** pod name → phase */
+  pods: Map<string, string>;
+  requests: string[];
+  execCmds: string[][];
+  execFailure?: string;
+  /** Frames to send instead of stdout "ok" and the status */
+  execFrames?: Buffer[];
+  /** Start gate ConfigMap data (null = not created yet) */
+  gates: Map<string, string> | null;
+}
+
+function frame(channel: number, text: string): Buffer {
+  const payload = Buffer.concat([Buffer.from([channel]), Buffer.from(text)]);
+  return Buffer.concat([Buffer.from([0x82, payload.length]), payload]);
+}
+
+/** Unmasked frame with raw first byte (FIN bit + opcode) and payload */
+function rawFrame(first: number, payload: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([first, payload.length]), payload]);
+}
+
+function startFakeApiServer(cluster: FakeCluster): Promise<http.Server> {
+  const podPath = /^\/api\/v1\/namespaces\/metagraph\/pods\/([^/?]+)(\/exec)?/;
+  const configMaps = '/api/v1/namespaces/metagraph/configmaps';
+
+  /** Gate changes: a released pod's init container finishes */
+  const applyGates = (data: Record<string, string | null>) => {
+    for (const [pod, value] of Object.entries(data)) {
+      if (value !== null) {
+        cluster.gates!.set(pod, value);
+      } else if (cluster.gates!.delete(pod) && cluster.pods.get(pod) === 'Pending') {
+        cluster.pods.set(pod, 'Running');
+      }
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = req.url ?? '';
+    cluster.requests.push(`${req.method} ${url}`);
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      if (req.method === 'POST' && url === configMaps) {
+        cluster.gates = new Map();
+        applyGates(JSON.parse(body).data);
+        res.writeHead(201).end(body);
+        return;
+      }
+      if (req.method === 'PATCH' && url === `${configMaps}/watchdog-start-gate`) {
+        if (req.headers['content-type'] !== 'application/merge-patch+json') { res.writeHead(415).end(); return; }
+        if (!cluster.gates) { res.writeHead(404).end('{"kind":"Status","reason":"NotFound"}'); return; }
+        applyGates(JSON.parse(body).data);
+        res.writeHead(200).end('{}');
+        return;
+      }
+      handlePod(req, res, url);
+    });
+  });
+
+  const handlePod = (req: http.IncomingMessage, res: http.ServerResponse, url: string) => {
+    const m = url.match(podPath);
+    if (!m) { res.writeHead(404).end(); return; }
+    const name = m[1];
+
+    if (req.method === 'DELETE') {
+      if (!cluster.pods.has(name)) { res.writeHead(404).end('{"kind":"Status","reason":"NotFound"}'); return; }
+      // The StatefulSet controller recreates the pod straight away; its
+      // init container waits while the start gate is held
+      cluster.pods.set(name, cluster.gates?.has(name) ? 'Pending' : 'Running');
+      res.writeHead(200).end('{}');
+      return;
+    }
+
+    const phase = cluster.pods.get(name);
+    if (!phase) { res.writeHead(404).end('{"kind":"Status","reason":"NotFound"}'); return; }
+    res.writeHead(200).end(JSON.stringify({ metadata: { name }, status: { phase } }));
+  };
+
+  server.on('upgrade', (req: http.IncomingMessage, socket) => {
+    cluster.requests.push(`${req.method} ${req.url}`);
+    const url = new URL(req.url ?? '', 'http://localhost');
+    cluster.execCmds.push(url.searchParams.getAll('command'));
+
+    const accept = createHash('sha1')
+      .update(`${req.headers['sec-websocket-key']}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+      .digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      'Sec-WebSocket-Protocol: v4.channel.k8s.io',
+      '', '',
+    ].join('\r\n'));
+
+    const status = cluster.execFailure
+      ? { status: 'Failure', message: cluster.execFailure }
+      : { status: 'Success' };
+    for (const f of cluster.execFrames ?? [frame(1, 'ok\n'), frame(3, JSON.stringify(status))]) socket.write(f);
+    socket.end(Buffer.from([0x88, 0x00]));
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('KubernetesController', () => {
+  const cluster: FakeCluster = {
+    pods: new Map([['otto-ml0-0', 'Running'], ['otto-ml0-1', 'Running'], ['otto-dl1-2', 'Pending']]),
+    requests: [],
+    execCmds: [],
+    gates: null,
+  };
+  const target: NodeTarget = { nodeIp: '10.0.0.1', layer: 'ml0', container: 'ml0-0' };
+  let server: http.Server;
+  let controller: KubernetesController;
+
+  beforeAll(async () => {
+    server = await startFakeApiServer(cluster);
+    const { port } = server.address() as AddressInfo;
+    const config = {
+      cliPorts: { gl0: 9002, ml0: 9202, cl1: 9302, dl1: 9402 },
+      kubernetes: {
+        apiUrl: `http://127.0.0.1:${port}`,
+        namespace: 'metagraph',
+        tokenPath: '/nonexistent/token',
+        podPrefix: 'otto-',
+        podStartTimeoutSeconds: 1,
+        startGate: 'watchdog-start-gate',
+        container: 'node-{layer}',
+      },
+    } as Config;
+    controller = new KubernetesController(config);
+  });
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('maps layer and node index to a StatefulSet pod', async () => {
+    expect(await controller.inspect(target)).toEqual({ exists: true, running: true, state: 'Running' });
+    expect(cluster.requests).toContain('GET /api/v1/namespaces/metagraph/pods/otto-ml0-0');
+  });
+
+  it('restarts by deleting the pod and waiting for it to come back', async () => {
+    await controller.stop(target);
+    await controller.start(target);
+
+    expect(cluster.requests).toContain('DELETE /api/v1/namespaces/metagraph/pods/otto-ml0-0');
+    expect(cluster.requests).toContain('POST /api/v1/namespaces/metagraph/configmaps');
+    expect(cluster.gates?.size).toBe(0);
+  });
+
+  it('keeps stopped pods from starting until start releases them, in order', async () => {
+    const validator: NodeTarget = { nodeIp: '10.0.0.2', layer: 'ml0', container: 'ml0-1' };
+    await controller.stop(validator);
+    await controller.stop(target);
+    expect((await controller.inspect(target)).running).toBe(false);
+    expect((await controller.inspect(validator)).running).toBe(false);
+
+    // Genesis first: the validator stays held
+    await controller.start(target);
+    expect((await controller.inspect(target)).running).toBe(true);
+    expect(await controller.inspect(validator)).toMatchObject({ running: false, state: 'Pending' });
+
+    await controller.start(validator);
+    expect((await controller.inspect(validator)).running).toBe(true);
+  });
+
+  it('treats deleting a missing pod as success', async () => {
+    await controller.stop({ ...target, container: 'cl1-1' });
+  });
+
+  it('reports missing and not-yet-running pods', async () => {
+    expect(await controller.inspect({ ...target, container: 'cl1-1' })).toMatchObject({ exists: false });
+    expect(await controller.inspect({ ...target, layer: 'dl1', container: 'dl1-2' }))
+      .toEqual({ exists: true, running: false, state: 'Pending' });
+  });
+
+  it('fails start when the pod never becomes Running', async () => {
+    await expect(controller.start({ ...target, layer: 'dl1', container: 'dl1-2' })).rejects.toThrow('not Running');
+  });
+
+  it('joins via curl exec in the configured layer container', async () => {
+    await controller.join(target, { id: 'peer-1', ip: '10.0.0.2', p2pPort: 9201 });
+
+    const cmd = cluster.execCmds[cluster.execCmds.length - 1];
+    expect(cmd.slice(0, 5)).toEqual(['curl', '-sf', '-X', 'POST', 'http://127.0.0.1:9202/cluster/join']);
+    expect(JSON.parse(cmd[cmd.length - 1])).toEqual({ id: 'peer-1', ip: '10.0.0.2', p2pPort: 9201 });
+    expect(cluster.requests.some(r => r.includes('/pods/otto-ml0-0/exec?container=node-ml0'))).toBe(true);
+  });
+
+  it('returns exec stdout and fails on a Failure status', async () => {
+    expect(await controller.exec(target, ['echo', 'ok'])).toBe('ok');
+
+    cluster.execFailure = 'command terminated with non-zero exit code';
+    await expect(controller.exec(target, ['false'])).rejects.toThrow('non-zero exit code');
+    cluster.execFailure = undefined;
+  });
+
+  it('reassembles fragmented exec messages', async () => {
+    const stdout = Buffer.concat([Buffer.from([1]), Buffer.from('hello world')]);
+    cluster.execFrames = [
+      rawFrame(0x02, stdout.subarray(0, 6)), // binary, not final
+      rawFrame(0x80, stdout.subarray(6)), // final continuation
+      frame(3, JSON.stringify({ status: 'Success' })),
+    ];
+
+    expect(await controller.exec(target, ['echo', 'hello world'])).toBe('hello world');
+    cluster.execFrames = undefined;
+  });
+
+  it('rejects a malformed exec status instead of crashing', async () => {
+    cluster.execFrames = [frame(1, 'ok\n'), frame(3, '{"status": "Succ')];
+
+    await expect(controller.exec(target, ['echo', 'ok'])).rejects.toThrow('malformed status');
+    cluster.execFrames = undefined;
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Kubernetes Node Controller
+ *
+ * Maps each layer to a StatefulSet and each node index to its ordinal, so
+ * the pod for ML0 on node 1 is `<podPrefix>ml0-1` — the same name the docker
+ * backends use for containers.
+ *
+ * - stop: hold the pod's start gate, then delete the pod (the StatefulSet
+ *   controller recreates it straight away; its init container waits while
+ *   the gate is held)
+ * - start: release the gate and wait until the pod is Running
+ * - exec/join: pod exec over the v4.channel.k8s.io websocket protocol
+ *
+ * Without the gate the recreated pod would start right after stop, and the
+ * orchestrator's start order (genesis first, then validators) would have no
+ * effect. Gates live in one ConfigMap (K8S_START_GATE), keyed by pod name.
+ *
+ * Talks to the API server with plain HTTP(S) and the in-cluster service
+ * account token; no client library needed.
+ */
+
+import http from 'http';
+import https from 'https';
+import { randomBytes } from 'crypto';
+import { readFileSync, existsSync } from 'fs';
+import type { Duplex } from 'stream';
+import type { Config, KubernetesConfig } from '../config.js';
+import { joinCommand, type NodeController, type NodeTarget, type JoinPeer, type TargetStatus } from './node-controller.js';
+import { log } from '../logger.js';
+
+const REQUEST_TIMEOUT = 30_000;
+/** Longest an exec (e.g. a join) may run once the websocket is open */
+const EXEC_TIMEOUT = 120_000;
+const POD_POLL_INTERVAL = 2_000;
+
+/** Exec channel ids (v4.channel.k8s.io) */
+const STDOUT = 1;
+const STDERR = 2;
+const STATUS = 3;
+
+/** Start gate value while a pod is held */
+const HELD = 'held';
+
+interface PodSummary {
+  metadata?: { deletionTimestamp?: string };
+  status?: { phase?: string };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class KubernetesController implements NodeController {
+  readonly name = 'kubernetes';
+  private readonly k8s: KubernetesConfig;
+
+  constructor(private readonly config: Config) {
+    if (!config.kubernetes) {
+      throw new Error('Kubernetes controller selected but no Kubernetes config loaded');
+    }
+    this.k8s = config.kubernetes;
+    if (!this.k8s.startGate) {
+      log('[K8s] No start gate (K8S_START_GATE empty): stopped pods restart immediately, start order is not enforced');
+    }
+  }
+
+  private podName(target: NodeTarget): string {
+    return `${this.k8s.podPrefix}${target.container}`;
+  }
+
+  private podPath(target: NodeTarget): string {
+    return `/api/v1/namespaces/${this.k8s.namespace}/pods/${this.podName(target)}`;
+  }
+
+  private gatePath(): string {
+    return `/api/v1/namespaces/${this.k8s.namespace}/configmaps/${this.k8s.startGate}`;
+  }
+
+  /** Hold (value) or release (null) a pod's start gate */
+  private async setGate(pod: string, value: string | null): Promise<void> {
+    const res = await this.request('PATCH', this.gatePath(), { data: { [pod]: value } }, [200, 404]);
+    if (res.status === 404 && value !== null) {
+      await this.request('POST', `/api/v1/namespaces/${this.k8s.namespace}/configmaps`, {
+        metadata: { name: this.k8s.startGate },
+        data: { [pod]: value },
+      }, [201]);
+    }
+  }
+
+  async stop(target: NodeTarget): Promise<void> {
+    const pod = this.podName(target);
+    if (this.k8s.startGate) await this.setGate(pod, HELD);
+    log(`[K8s] Deleting pod ${pod}`);
+    // 404 = already gone, fine for a kill
+    await this.request('DELETE', this.podPath(target), { gracePeriodSeconds: 15 }, [200, 202, 404]);
+  }
+
+  async start(target: NodeTarget): Promise<void> {
+    const pod = this.podName(target);
+    if (this.k8s.startGate) {
+      log(`[K8s] Releasing start gate for pod ${pod}`);
+      await this.setGate(pod, null);
+    }
+    log(`[K8s] Waiting for pod ${pod} to be Running`);
+
+    const deadline = Date.now() + this.k8s.podStartTimeoutSeconds * 1000;
+    while (Date.now() < deadline) {
+      const status = await this.inspect(target);
+      if (status.running) return;
+      await sleep(POD_POLL_INTERVAL);
+    }
+    throw new Error(`Pod ${pod} not Running after ${this.k8s.podStartTimeoutSeconds}s`);
+  }
+
+  async inspect(target: NodeTarget): Promise<TargetStatus> {
+    const res = await this.request('GET', this.podPath(target), undefined, [200, 404]);
+    if (res.status === 404) return { exists: false, running: false, state: 'missing' };
+
+    const pod = JSON.parse(res.body) as PodSummary;
+    if (pod.metadata?.deletionTimestamp) return { exists: true, running: false, state: 'Terminating' };
+    const phase = pod.status?.phase ?? 'Unknown';
+    return { exists: true, running: phase === 'Running', state: phase };
+  }
+
+  async exec(target: NodeTarget, command: string[]): Promise<string> {
+    const container = this.k8s.container.replaceAll('{layer}', target.layer);
+    const params = new URLSearchParams({ container, stdout: 'true', stderr: 'true' });
+    for (const arg of command) params.append('command', arg);
+
+    const { stdout, stderr, status } = await this.execStream(`${this.podPath(target)}/exec?${params}`);
+    if (status && status.status !== 'Success') {
+      throw new Error(`exec in ${this.podName(target)} failed: ${status.message ?? 'unknown error'} ${stderr}`.trim());
+    }
+    return stdout.trim();
+  }
+
+  async join(target: NodeTarget, peer: JoinPeer): Promise<void> {
+    log(`[K8s] Joining ${this.podName(target)} to cluster (genesis=${peer.ip})`);
+    await this.exec(target, joinCommand(this.config.cliPorts[target.layer], peer));
+  }
+
+  // ---------------------------------------------------------------------------
+  // API server transport
+  // ---------------------------------------------------------------------------
+
+  private requestOptions(path: string, method: string, headers: Record<string, string | number>): http.RequestOptions {
+    const url = new URL(path, this.k8s.apiUrl);
+    const token = existsSync(this.k8s.tokenPath) ? readFileSync(this.k8s.tokenPath, 'utf8').trim() : undefined;
+    return {
+      protocol: url.protocol,
+      hostname: url.hostname,
+      port: url.port,
+      path: url.pathname + url.search,
+      method,
+      headers: token ? { ...headers, Authorization: `Bearer ${token}` } : headers,
+      timeout: REQUEST_TIMEOUT,
+      ...(url.protocol === 'https:' && this.k8s.caPath && existsSync(this.k8s.caPath)
+        ? { ca: readFileSync(this.k8s.caPath) }
+        : {}),
+    };
+  }
+
+  private transport(): typeof http | typeof https {
+    return this.k8s.apiUrl.startsWith('https:') ? https : http;
+  }
+
+  private request(
+    method: string,
+    path: string,
+    body: unknown,
+    okStatuses: number[],
+  ): Promise<{ status: number; body: string }> {
+    return new Promise((resolve, reject) => {
+      const payload = body === undefined ? undefined : JSON.stringify(body);
+      // PATCH bodies are JSON merge patches (null deletes a key)
+      const contentType = method === 'PATCH' ? 'application/merge-patch+json' : 'application/json';
+      const headers: Record<string, string | number> = payload
+        ? { 'Content-Type': contentType, 'Content-Length': Buffer.byteLength(payload) }
+        : {};
+
+      const req = this.transport().request(this.requestOptions(path, method, headers), res => {
+        let data = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => { data += chunk; });
+        res.on('end', () => {
+          const status = res.statusCode ?? 0;
+          if (!okStatuses.includes(status)) {
+            reject(new Error(`K8s ${method} ${path} failed (${status}): ${data.trim()}`));
+            return;
+          }
+          resolve({ status, body: data });
+        });
+      });
+
+      req.on('timeout', () => req.destroy(new Error(`K8s ${method} ${path} timed out`)));
+      req.on('error', err => reject(new Error(`K8s API ${this.k8s.apiUrl}: ${err.message}`)));
+      if (payload) req.write(payload);
+      req.end();
+    });
+  }
+
+  /**
+   * Open an exec websocket and collect stdout/stderr and the final status.
+   * We never send stdin, so only server→client (unmasked) frames are parsed.
+   * Fragmented messages are reassembled; a malformed status frame or an exec
+   * running past EXEC_TIMEOUT rejects.
+   */
+  private execStream(path: string): Promise<{
+    stdout: string;
+    stderr: string;
+    status?: { status?: string; message?: string };
+  }> {
+    return new Promise((resolve, reject) => {
+      const req = this.transport().request(this.requestOptions(path, 'GET', {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Version': 13,
+        'Sec-WebSocket-Key': randomBytes(16).toString('base64'),
+        'Sec-WebSocket-Protocol': 'v4.channel.k8s.io',
+      }));
+
+      req.on('response', res => {
+        reject(new Error(`K8s exec ${path} was not upgraded (${res.statusCode})`));
+        res.resume();
+      });
+      req.on('timeout', () => req.destroy(new Error(`K8s exec ${path} timed out`)));
+      req.on('error', err => reject(new Error(`K8s API ${this.k8s.apiUrl}: ${err.message}`)));
+
+      req.on('upgrade', (_res, socket: Duplex, head: Buffer) => {
+        const out = { stdout: '', stderr: '', status: undefined as { status?: string; message?: string } | undefined };
+        let buf = head;
+        /** Frames of a fragmented message so far (null: none in progress) */
+        let fragments: Buffer[] | null = null;
+
+        const timer = setTimeout(() => fail(new Error(`K8s exec ${path} timed out after ${EXEC_TIMEOUT / 1000}s`)), EXEC_TIMEOUT);
+        const fail = (err: Error) => {
+          clearTimeout(timer);
+          socket.destroy();
+          reject(err);
+        };
+
+        const onMessage = (payload: Buffer) => {
+          if (payload.length === 0) return;
+          const text = payload.subarray(1).toString('utf8');
+          if (payload[0] === STDOUT) out.stdout += text;
+          else if (payload[0] === STDERR) out.stderr += text;
+          else if (payload[0] === STATUS && text) {
+            try {
+              out.status = JSON.parse(text);
+            } catch {
+              throw new Error(`K8s exec ${path} sent a malformed status: ${text}`);
+            }
+          }
+        };
+
+        const drain = (): boolean => {
+          while (buf.length >= 2) {
+            const opcode = buf[0] & 0x0f;
+            let len = buf[1] & 0x7f;
+            let offset = 2;
+            if (len === 126) {
+              if (buf.length < 4) return true;
+              len = buf.readUInt16BE(2);
+              offset = 4;
+            } else if (len === 127) {
+              if (buf.length < 10) return true;
+              len = Number(buf.readBigUInt64BE(2));
+              offset = 10;
+            }
+            if (buf.length < offset + len) return true;
+
+            const fin = (buf[0] & 0x80) !== 0;
+            const payload = buf.subarray(offset, offset + len);
+            buf = buf.subarray(offset + len);
+            if (opcode === 0x8) return false; // close
+            if (opcode === 0x1 || opcode === 0x2 || opcode === 0x0) {
+              if (opcode === 0x0 && !fragments) throw new Error(`K8s exec ${path} sent a continuation frame outside a message`);
+              if (opcode !== 0x0 && fragments) throw new Error(`K8s exec ${path} started a message inside a fragmented one`);
+              if (!fin) {
+                fragments = [...(fragments ?? []), payload];
+              } else {
+                onMessage(fragments ? Buffer.concat([...fragments, payload]) : payload);
+                fragments = null;
+              }
+            }
+          }
+          return true;
+        };
+
+        const finish = () => {
+          clearTimeout(timer);
+          socket.destroy();
+          resolve(out);
+        };
+
+        const receive = () => {
+          try {
+            if (!drain()) finish();
+          } catch (err) {
+            fail(err as Error);
+          }
+        };
+
+        socket.on('data', (chunk: Buffer) => {
+          buf = Buffer.concat([buf, chunk]);
+          receive();
+        });
+        socket.on('end', finish);
+        socket.on('error', err => fail(err));
+        receive();
+      });
+
+      req.end();
+    });
+  }
+}
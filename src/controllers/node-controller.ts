@@ -0,0 +1,59 @@
+/**
+ * Node Controller
+ *
+ * Backend-agnostic interface the restart strategies use to act on a layer
+ * process (container) of one node. Implementations:
+ * - ssh: docker CLI over SSH on each remote node (production default)
+ * - docker: local Docker Engine socket (single-host devnet, CI)
+ * - kubernetes: StatefulSet pods via the Kubernetes API
+ */
+
+import type { Config } from '../config.js';
+import type { Layer } from '../types.js';
+
+/** The layer process a controller acts on */
+export interface NodeTarget {
+  nodeIp: string;
+  layer: Layer;
+  container: string;
+}
+
+/** Peer a node joins to via its CLI port */
+export interface JoinPeer {
+  id: string;
+  ip: string;
+  p2pPort: number;
+}
+
+/** Container state as reported by the backend */
+export interface TargetStatus {
+  exists: boolean;
+  running: boolean;
+  state: string;
+}
+
+export interface NodeController {
+  readonly name: string;
+  /** Stop the layer process (graceful, then forced). Must not fail if already stopped. */
+  stop(target: NodeTarget): Promise<void>;
+  /** Start the layer process. */
+  start(target: NodeTarget): Promise<void>;
+  /** Run a command inside the layer's container; returns stdout. */
+  exec(target: NodeTarget, command: string[]): Promise<string>;
+  /** Report the container state. */
+  inspect(target: NodeTarget): Promise<TargetStatus>;
+  /** POST /cluster/join on the node's CLI port. */
+  join(target: NodeTarget, peer: JoinPeer): Promise<void>;
+}
+
+/**
+ * Build the curl command that calls /cluster/join from inside the container.
+ * Shared by backends that join via exec.
+ */
+export function joinCommand(cliPort: number, peer: JoinPeer): string[] {
+  return [
+    'curl', '-sf', '-X', 'POST', `http://127.0.0.1:${cliPort}/cluster/join`,
+    '-H', 'Content-Type: application/json',
+    '-d', JSON.stringify({ id: peer.id, ip: peer.ip, p2pPort: peer.p2pPort }),
+  ];
+}
@@ -0,0 +1,49 @@
+/**
+ * SSH + Docker CLI Node Controller
+ *
+ * Runs docker stop/start/exec/inspect over SSH on each remote node.
+ * This is the production backend for the Hetzner fleet.
+ */
+
+import type { Config } from '../config.js';
+import { sshExec, dockerControl, dockerExec, killLayerProcess } from '../services/ssh.js';
+import { joinCommand, type NodeController, type NodeTarget, type JoinPeer, type TargetStatus } from './node-controller.js';
+import { log } from '../logger.js';
+
+/** Quote a single argument for a POSIX shell */
+function shellQuote(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+export class SshDockerController implements NodeController {
+  readonly name = 'ssh';
+
+  constructor(private readonly config: Config) {}
+
+  async stop(target: NodeTarget): Promise<void> {
+    await killLayerProcess(target.nodeIp, target.container, this.config);
+  }
+
+  async start(target: NodeTarget): Promise<void> {
+    await dockerControl(target.nodeIp, 'start', target.container, this.config);
+  }
+
+  async exec(target: NodeTarget, command: string[]): Promise<string> {
+    return dockerExec(target.nodeIp, target.container, command.map(shellQuote).join(' '), this.config);
+  }
+
+  async inspect(target: NodeTarget): Promise<TargetStatus> {
+    const result = await sshExec(
+      target.nodeIp,
+      `docker inspect -f '{{.State.Status}}' ${target.container} 2>/dev/null`,
+      this.config,
+    );
+    if (result.code !== 0) return { exists: false, running: false, state: 'missing' };
+    return { exists: true, running: result.stdout === 'running', state: result.stdout };
+  }
+
+  async join(target: NodeTarget, peer: JoinPeer): Promise<void> {
+    log(`[SSH] Joining ${target.nodeIp} ${target.layer} to cluster (genesis=${peer.ip})`);
+    await this.exec(target, joinCommand(this.config.cliPorts[target.layer], peer));
+  }
+}
@@ -8,6 +8,10 @@
  *   npx tsx src/index.ts            # Single check
  *   npx tsx src/index.ts --daemon   # Continuous monitoring
  *   npx tsx src/index.ts --once     # Single check (alias)
+ *   npx tsx src/index.ts --dry-run  # Log restart plans without executing
+ *
+ * Several replicas can run with LEADER_ELECTION=true; only the replica
+ * holding the Redis leader lease executes restarts.
  *
  * Data Flow:
  *   Services Monitor → Redis → Watchdog (this) → SSH Restart
@@ -18,88 +22,265 @@
 
 import { loadConfig, type Config } from './config.js';
 import { HealthReader } from './services/health-reader.js';
-import { detectForkedClusterFromSnapshot } from './conditions/forked-cluster.js';
-import { detectSnapshotsStoppedFromSnapshot, StallTracker } from './conditions/snapshots-stopped.js';
-import { detectUnhealthyNodesFromSnapshot } from './conditions/unhealthy-nodes.js';
-import { detectHypergraphHealth } from './conditions/hypergraph-health.js';
-import { executeRestart } from './restart/orchestrator.js';
+import { HealthUpdateTrigger, cycleTick } from './services/health-updates.js';
+import { ConditionRegistry, loadConditionModules, type ConditionDefinition } from './conditions/registry.js';
+import { builtinConditions, createTrackers } from './conditions/builtin.js';
+import { ConfirmationTracker } from './conditions/confirmation.js';
+import { executeRestart, planRestart, handleInterruptedRestart, interruptedRestartAction } from './restart/orchestrator.js';
 import { EventPublisher } from './services/events.js';
+import { RestartHistoryStore } from './services/restart-history.js';
+import { RestartJournalStore } from './services/restart-journal.js';
+import { SilenceStore } from './services/silence-store.js';
+import { StallStateStore } from './services/stall-state.js';
+import { SnapshotHistoryStore } from './services/snapshot-history.js';
+import type { RedisFallback } from './services/redis.js';
+import { verifyRestart } from './restart/verification.js';
+import { buildRemediationPlan, describeRemediationPlan, type RemediationPlan } from './restart/remediation.js';
+import { EscalationTracker } from './restart/escalation.js';
+import { LeaderElection, type LeaderStatus } from './services/leader-election.js';
 import { log } from './logger.js';
-import type { DetectionResult, HealthSnapshot } from './types.js';
+import type { DetectionResult } from './types.js';
+
+// Interval ticks for cycle-counted settings (everyCycles, confirmation);
+// push updates can run several checks per tick
+const startedAt = Date.now();
+let lastTick = 0;
+
+// Leader status from the previous renewal, to detect leadership changes
+let lastLeader: LeaderStatus | null = null;
+
+/** Long-lived services shared by every check cycle */
+interface Watchdog {
+  config: Config;
+  healthReader: HealthReader;
+  eventPublisher: EventPublisher;
+  restartHistory: RestartHistoryStore;
+  restartJournal: RestartJournalStore;
+  confirmations: ConfirmationTracker;
+  escalation: EscalationTracker;
+  leader: LeaderElection;
+  silences: SilenceStore;
+  stallState: StallStateStore;
+  snapshotHistory: SnapshotHistoryStore;
+  conditions: ConditionRegistry;
+}
+
+/** Fallback state of every Redis-backed store with an in-memory fallback */
+function storeFallbacks(wd: Watchdog): RedisFallback[] {
+  return [wd.restartHistory, wd.restartJournal, wd.silences, wd.stallState, wd.snapshotHistory].map(s => s.fallback);
+}
+
+/**
+ * Resume (or abandon) a restart left unfinished by a previous process or a
+ * previous leader. Only called while leader.
+ */
+async function resumeInterruptedRestart(wd: Watchdog): Promise<void> {
+  const { config, eventPublisher, restartJournal, restartHistory } = wd;
+  const interrupted = await restartJournal.loadUnfinished();
+  if (!interrupted) return;
 
-// Global stall tracker (survives across check cycles)
-const stallTracker = new StallTracker();
+  await eventPublisher.publishRestartInterrupted(interrupted, interruptedRestartAction(config, interrupted));
+  const outcome = await handleInterruptedRestart(config, interrupted, restartJournal, restartHistory, {
+    fence: wd.leader.fence(),
+    silences: await wd.silences.active(),
+  });
+  if (outcome?.suppressed) {
+    await eventPublisher.publishRestartSuppressed(interrupted.detection, outcome.suppressed);
+  } else if (outcome) {
+    const { event } = outcome;
+    await eventPublisher.publishRestart(interrupted.detection, event.scope, event.success, event.error, event.rollback);
+  }
+}
+
+/**
+ * Renew the leader lease; on becoming leader, pick up any restart the
+ * previous leader left unfinished.
+ */
+async function renewLeadership(wd: Watchdog): Promise<LeaderStatus> {
+  const status = await wd.leader.renew();
+  const changed = lastLeader !== null && lastLeader.isLeader !== status.isLeader;
+  lastLeader = status;
+
+  if (changed) {
+    await wd.eventPublisher.publishLeaderChange(status);
+    if (status.isLeader) await resumeInterruptedRestart(wd);
+  }
+  return status;
+}
 
-// Track cycle count for hypergraph check interval multiplier
-let cycleCount = 0;
+/** Confirmed detection the leader may restart for, after escalation */
+interface Actionable {
+  condition: ConditionDefinition;
+  planned: DetectionResult;
+}
+
+/**
+ * Perform the cycle's single merged restart, verify it by re-running every
+ * contributing condition, and record the outcome on each one's incident.
+ */
+async function remediate(wd: Watchdog, remediation: RemediationPlan, actionable: Actionable[]): Promise<void> {
+  const { config, healthReader, eventPublisher, restartHistory, restartJournal, escalation, conditions } = wd;
+  const planned = remediation.result;
+  const contributing = actionable.filter(a => remediation.contributing.includes(a.planned));
+
+  const silences = await wd.silences.active();
+  const outcome = config.dryRun
+    ? await planRestart(config, planned, restartHistory, { silences })
+    : await executeRestart(config, planned, restartHistory, restartJournal, { fence: wd.leader.fence(), silences });
+  if (!outcome) return;
+
+  // Silenced targets: detection is still published, restart skipped
+  if (outcome.suppressed) {
+    await eventPublisher.publishRestartSuppressed(planned, outcome.suppressed);
+    if (!outcome.suppressed.partial) return;
+  }
+
+  if (outcome.blocked) {
+    await eventPublisher.publishRestartBlocked(planned, outcome.blocked);
+    return;
+  }
+
+  if (config.dryRun && outcome.plan) {
+    await eventPublisher.publishRestartPlan(planned, outcome.plan);
+    log('[Monitor] Dry run: restart planned');
+    return;
+  }
+
+  // Publish restart event to Postgres
+  const { event } = outcome;
+  // What actually ran: the plan may have escalated, and silenced targets were dropped
+  const ranScope = outcome.plan?.scope ?? planned.restartScope;
+  const restarted: DetectionResult = { ...planned, restartScope: ranScope, affectedNodes: event.nodes, affectedLayers: event.layers };
+  await eventPublisher.publishRestart(restarted, restarted.restartScope, event.success, event.error, event.rollback);
+
+  // --- Verify the restart cleared every contributing condition ---
+  const after = new Map<string, DetectionResult>();
+  const verification = await verifyRestart(
+    config,
+    restarted,
+    async (snap) => {
+      for (const { condition } of contributing) {
+        after.set(condition.name, await conditions.run(condition, snap));
+      }
+      return buildRemediationPlan([...after.values()])?.result
+        ?? { detected: false, condition: planned.condition, details: '', restartScope: 'none' };
+    },
+    () => healthReader.getHealthSnapshot(),
+  );
+  await eventPublisher.publishVerification(verification);
+
+  for (const { condition, planned: detection } of contributing) {
+    // A failed re-check leaves `after` empty: nothing counts as fixed
+    const fixed = event.success && (verification.status === 'verified' || after.get(condition.name)?.detected === false);
+    // Silenced nodes still show the condition, so a partial restart can't
+    // be judged a failure
+    if (fixed || !outcome.suppressed) {
+      const change = escalation.recordOutcome(detection.condition, ranScope, fixed);
+      if (change) await eventPublisher.publishEscalation(detection, change);
+    }
+  }
+}
 
-async function runHealthCheck(
-  config: Config,
-  healthReader: HealthReader,
-  eventPublisher: EventPublisher,
-): Promise<void> {
+async function runHealthCheck(wd: Watchdog): Promise<void> {
+  const { healthReader, eventPublisher, confirmations, escalation, conditions, snapshotHistory } = wd;
   log('==================== HEALTH CHECK ====================');
-  cycleCount++;
+  const tick = cycleTick(startedAt, wd.config.healthCheckIntervalSeconds * 1000, Date.now());
+  const repeat = tick === lastTick;
+  lastTick = tick;
+
+  const leader = await renewLeadership(wd);
 
   // --- Phase 1: Read health data from Redis (or fallback to direct) ---
   const snapshot = await healthReader.getHealthSnapshot();
   log(`[Monitor] Health data source: ${snapshot.source} (stale: ${snapshot.stale})`);
+  // Recorded before evaluation so detectors' recent history includes this cycle;
+  // only the leader persists it, so the shared history has one copy per cycle
+  await snapshotHistory.record(snapshot, Date.now(), leader.isLeader);
 
-  // --- Phase 2: Check conditions using the snapshot data ---
-  type ConditionEntry = {
-    name: string;
-    detect: () => DetectionResult | Promise<DetectionResult>;
-  };
-
-  const conditions: ConditionEntry[] = [
-    { name: 'ForkedCluster', detect: () => detectForkedClusterFromSnapshot(config, snapshot) },
-    { name: 'SnapshotsStopped', detect: () => detectSnapshotsStoppedFromSnapshot(config, snapshot, stallTracker) },
-    { name: 'UnhealthyNodes', detect: () => detectUnhealthyNodesFromSnapshot(config, snapshot) },
-  ];
+  const onFallback = storeFallbacks(wd).filter(f => f.active).map(f => f.store);
+  if (onFallback.length > 0) {
+    log(`[Monitor] Running on in-memory fallback (Redis unavailable): ${onFallback.join(', ')}`);
+  }
 
-  // Add hypergraph condition if enabled, respecting check interval multiplier
-  if (config.hypergraph?.enabled) {
-    const multiplier = config.hypergraph.checkIntervalMultiplier;
-    if (cycleCount === 1 || cycleCount % multiplier === 0) {
-      conditions.push({
-        name: 'HypergraphHealth',
-        detect: () => detectHypergraphHealth(config, snapshot),
-      });
-    } else {
-      log(`[Monitor] Skipping hypergraph check (cycle ${cycleCount}, runs every ${multiplier})`);
+  // --- Phase 2: Evaluate every due condition ---
+  // Detectors take the snapshot as a parameter so post-restart verification
+  // can re-run them against fresh data.
+  const actionable: Actionable[] = [];
+  for (const condition of conditions.due(tick, repeat)) {
+    const blocker = conditions.blockedBy(condition);
+    if (blocker) {
+      log(`[Monitor] Skipping ${condition.name} (depends on ${blocker}, which is detected)`);
+      continue;
     }
-  }
 
-  for (const condition of conditions) {
     try {
-      const result = await condition.detect();
+      const result = await conditions.run(condition, snapshot);
+      const confirmation = confirmations.observe(result, tick);
 
-      if (result.detected) {
-        log(`[Monitor] Condition detected: ${condition.name} — ${result.details}`);
-
-        if (result.restartScope === 'none') {
-          // Detection-only conditions (e.g., hypergraph) — log but don't restart
-          log(`[Monitor] ${condition.name}: detection only (restartScope: none), no action taken`);
-          await eventPublisher.publishRestart(result, result.restartScope, false);
-          continue;
+      if (!result.detected) {
+        if (confirmation.state === 'recovering') {
+          log(`[Monitor] ${condition.name}: clear ${confirmation.cleanCycles}/${confirmation.recoveryCycles} cycles, incident still open`);
+        } else if (confirmation.state === 'resolved') {
+          log(`[Monitor] ${condition.name}: incident closed after ${confirmation.cleanCycles} clean cycle(s)`);
+          escalation.resolve(result.condition);
+          await eventPublisher.publishIncidentResolved(confirmation);
         }
+        continue;
+      }
 
-        const restarted = await executeRestart(config, result);
+      log(`[Monitor] Condition detected: ${condition.name} — ${result.details}`);
 
-        // Publish restart event to Postgres
-        await eventPublisher.publishRestart(result, result.restartScope, restarted);
+      // Hysteresis: a single blip is not acted on
+      if (confirmation.state === 'pending') {
+        log(`[Monitor] ${condition.name}: pending confirmation (${confirmation.hits}/${confirmation.required} of last ${confirmation.window} cycles)`);
+        await eventPublisher.publishConfirmationPending(result, confirmation);
+        continue;
+      }
 
-        if (restarted) {
-          log('[Monitor] Restart performed, skipping remaining checks');
-          return;
-        }
-        // If restart was skipped (cooldown/rate limit), continue checking
+      if (result.restartScope === 'none') {
+        // Detection-only conditions (e.g., hypergraph) — log but don't restart
+        log(`[Monitor] ${condition.name}: detection only (restartScope: none), no action taken`);
+        await eventPublisher.publishRestart(result, result.restartScope, false);
+        continue;
       }
+
+      // Followers keep detecting and publishing; only the leader restarts
+      if (!leader.isLeader) {
+        log(`[Monitor] ${condition.name}: follower, leaving restart to leader ${leader.leaderId ?? '(unknown)'}`);
+        await eventPublisher.publishDetection(result, leader);
+        continue;
+      }
+
+      // Step up the escalation ladder if earlier restarts did not fix it
+      const decision = escalation.decide(result);
+      if (decision.action === 'halt') {
+        if (decision.justHalted) await eventPublisher.publishRestartHalted(result, decision.incident);
+        log(`[Monitor] ${condition.name}: restarts halted for this incident, human intervention required`);
+        continue;
+      }
+      actionable.push({ condition, planned: decision.result });
     } catch (err) {
       log(`[Monitor] Error checking ${condition.name}: ${err}`);
     }
   }
 
+  // --- Phase 3: Merge everything that needs a restart into one ---
+  const remediation = buildRemediationPlan(actionable.map(a => a.planned));
+  if (remediation) {
+    log(`[Monitor] Remediation: ${describeRemediationPlan(remediation)}`);
+    try {
+      await remediate(wd, remediation, actionable);
+    } catch (err) {
+      log(`[Monitor] Error remediating ${remediation.result.condition}: ${err}`);
+    }
+    return;
+  }
+
+  const pending = confirmations.pending();
+  if (pending.length > 0) {
+    log(`[Monitor] No confirmed conditions (awaiting confirmation or recovery: ${pending.join(', ')})`);
+    return;
+  }
   log('[Monitor] Metagraph is healthy ✓');
 }
 
@@ -107,44 +288,117 @@ async function main(): Promise<void> {
   const config = loadConfig();
   const healthReader = new HealthReader(config);
   const eventPublisher = new EventPublisher(config);
+  const restartHistory = new RestartHistoryStore(config);
+  const restartJournal = new RestartJournalStore(config);
+  const confirmations = new ConfirmationTracker(config.confirmationRules, config.recoveryCycles);
+  const escalation = new EscalationTracker(config.escalation);
+  const leader = new LeaderElection(config);
+  const silences = new SilenceStore(config);
+  const stallState = new StallStateStore(config);
+  const snapshotHistory = new SnapshotHistoryStore(config);
+
+  const trackers = createTrackers();
+  const conditions = new ConditionRegistry(config.conditions);
+  for (const spec of [...builtinConditions(config, trackers, stallState), ...await loadConditionModules(config, { history: snapshotHistory })]) {
+    conditions.register(spec);
+  }
+  // Condition names in settings can only be checked once modules are loaded
+  const named = <T extends { condition?: string }>(entries: T[]) => entries.flatMap(e => (e.condition ? [e.condition] : []));
+  conditions.checkNames('CONDITIONS', Object.keys(config.conditions));
+  conditions.checkNames('CONFIRMATION_RULES', named(config.confirmationRules));
+  conditions.checkNames('RESTART_BUDGETS', named(config.restartBudgets));
+  conditions.checkNames('MAINTENANCE_WINDOWS', named(config.maintenanceWindows));
+
+  // Health payloads failing schema validation are reported (direct checks take over)
+  healthReader.onInvalidPayload(rejection => void eventPublisher.publishHealthDataInvalid(rejection));
+
+  const wd: Watchdog = {
+    config, healthReader, eventPublisher, restartHistory, restartJournal, confirmations, escalation, leader, silences, stallState, snapshotHistory, conditions,
+  };
+
+  // Stores serving from memory during a Redis outage are reported
+  storeFallbacks(wd).forEach(f => f.onChange(change => void eventPublisher.publishStoreFallback(change)));
 
-  log('OttoChain Watchdog starting');
+  log(`OttoChain Watchdog starting (instance ${leader.instanceId})`);
   log(`Nodes: ${config.nodes.map(n => `${n.name}(${n.ip})`).join(', ')}`);
-  log(`Mode: ${config.daemon ? 'daemon' : 'single check'}`);
+  log(`Mode: ${config.daemon ? 'daemon' : 'single check'}${config.dryRun ? ' (dry run — restarts are planned, not executed)' : ''}`);
   log(`Interval: ${config.healthCheckIntervalSeconds}s`);
+  if (config.healthUpdates.mode !== 'poll') {
+    log(`Health updates: ${config.healthUpdates.mode} (at most one cycle per ${config.healthUpdates.minIntervalSeconds}s)`);
+  }
   log(`Health data stale threshold: ${config.healthDataStaleSeconds}s`);
+  log(`Escalation ladder: ${config.escalation.ladder.join(' → ')} (${config.escalation.attemptsPerStep} attempt(s) per step)`);
+  if (config.maintenanceWindows.length > 0) {
+    log(`Maintenance windows: ${config.maintenanceWindows.map(w => `${w.name} (${w.start} UTC, ${w.durationMinutes}m)`).join(', ')}`);
+  }
   if (config.hypergraph?.enabled) {
     log(`Hypergraph monitoring: enabled (L0: ${config.hypergraph.l0Urls.join(', ')}, multiplier: ${config.hypergraph.checkIntervalMultiplier}x)`);
   }
+  log(`Conditions: ${conditions.describe().join(', ')}`);
+
+  // Restore restart history so cooldown/rate limits survive watchdog restarts
+  await restartHistory.load();
+
+  // Restore stall tracking so a watchdog restart doesn't reset the stall clock
+  await stallState.load(trackers.stall);
 
-  // Publish lifecycle event
-  await eventPublisher.publishLifecycle(true);
+  // Restore recent snapshots so trend-based detectors have history to work with
+  await snapshotHistory.load();
+
+  // Publish lifecycle event (with the current leader)
+  const status = await renewLeadership(wd);
+  await eventPublisher.publishLifecycle(true, status);
+
+  // Resume (or abandon) a restart interrupted by a previous watchdog process
+  if (status.isLeader) await resumeInterruptedRestart(wd);
 
   if (config.daemon) {
     // Handle graceful shutdown
     const shutdown = async () => {
       log('[Watchdog] Shutting down...');
-      await eventPublisher.publishLifecycle(false);
+      await eventPublisher.publishLifecycle(false, lastLeader ?? undefined);
+      await leader.close();
       await healthReader.close();
       await eventPublisher.close();
+      await restartHistory.close();
+      await restartJournal.close();
+      await silences.close();
+      await stallState.close();
+      await snapshotHistory.close();
       process.exit(0);
     };
     process.on('SIGINT', shutdown);
     process.on('SIGTERM', shutdown);
 
+    // Push updates start a cycle early; the interval still runs as a fallback
+    const trigger = new HealthUpdateTrigger(
+      config.healthCheckIntervalSeconds * 1000,
+      config.healthUpdates.minIntervalSeconds * 1000,
+    );
+    await healthReader.subscribe(() => trigger.notify());
+
     // eslint-disable-next-line no-constant-condition
     while (true) {
+      trigger.started();
       try {
-        await runHealthCheck(config, healthReader, eventPublisher);
+        await runHealthCheck(wd);
       } catch (err) {
         log(`[Watchdog] Unexpected error: ${err}`);
       }
-      await new Promise(resolve => setTimeout(resolve, config.healthCheckIntervalSeconds * 1000));
+      if (await trigger.wait() === 'update') {
+        log('[Watchdog] New health data published, starting check cycle early');
+      }
     }
   } else {
-    await runHealthCheck(config, healthReader, eventPublisher);
+    await runHealthCheck(wd);
+    await leader.close();
     await healthReader.close();
     await eventPublisher.close();
+    await restartHistory.close();
+    await restartJournal.close();
+    await silences.close();
+    await stallState.close();
+    await snapshotHistory.close();
   }
 }
 
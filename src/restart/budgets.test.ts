@@ -0,0 +1,116 @@
+/**
+ * Restart Budget Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { budgetCovers, budgetLookbackMinutes, checkRestartBudgets } from './budgets.js';
+import { defaultRestartBudgets, type RestartBudget } from '../config.js';
+import type { DetectionResult, Layer, RestartEvent, RestartScope } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+const NOW = 1_000_000_000_000;
+
+function makeDetection(scope: RestartScope, layers: Layer[], condition = 'UnhealthyNodes'): DetectionResult {
+  return { detected: true, condition, details: 'test', restartScope: scope, affectedLayers: layers };
+}
+
+function makeEvent(minutesAgo: number, scope: RestartScope, layers: Layer[], condition = 'UnhealthyNodes'): RestartEvent {
+  return {
+    timestamp: new Date(NOW - minutesAgo * 60_000).toISOString(),
+    scope,
+    condition,
+    layers,
+    nodes: [],
+    success: true,
+  };
+}
+
+const budgets: RestartBudget[] = [
+  { name: 'metagraph', scope: 'full-metagraph', maxRestarts: 1, windowMinutes: 120, cooldownMinutes: 30 },
+  { name: 'dl1-rejoins', scope: 'individual-node', layer: 'dl1', maxRestarts: 6, windowMinutes: 60, cooldownMinutes: 2 },
+];
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('budgetCovers()', () => {
+  it('matches everything when no filters are set', () => {
+    const b: RestartBudget = { name: 'all', maxRestarts: 1, windowMinutes: 60, cooldownMinutes: 0 };
+    expect(budgetCovers(b, 'full-layer', 'ForkedCluster', ['cl1'])).toBe(true);
+  });
+
+  it('requires scope, condition and layer to match when set', () => {
+    const b: RestartBudget = {
+      name: 'x', scope: 'individual-node', layer: 'dl1', condition: 'ForkedCluster',
+      maxRestarts: 1, windowMinutes: 60, cooldownMinutes: 0,
+    };
+    expect(budgetCovers(b, 'individual-node', 'ForkedCluster', ['dl1'])).toBe(true);
+    expect(budgetCovers(b, 'full-layer', 'ForkedCluster', ['dl1'])).toBe(false);
+    expect(budgetCovers(b, 'individual-node', 'UnhealthyNodes', ['dl1'])).toBe(false);
+    expect(budgetCovers(b, 'individual-node', 'ForkedCluster', ['cl1'])).toBe(false);
+  });
+});
+
+describe('checkRestartBudgets()', () => {
+  it('allows a restart with no history', () => {
+    expect(checkRestartBudgets(budgets, makeDetection('full-metagraph', ['ml0']), [], NOW)).toBeNull();
+  });
+
+  it('does not let DL1 rejoins block a full-metagraph restart', () => {
+    const history = [makeEvent(1, 'individual-node', ['dl1'])];
+    const blocked = checkRestartBudgets(budgets, makeDetection('full-metagraph', ['ml0', 'cl1', 'dl1']), history, NOW);
+    expect(blocked).toBeNull();
+  });
+
+  it('reports the budget that is exhausted', () => {
+    const history = [makeEvent(90, 'full-metagraph', ['ml0', 'cl1', 'dl1'])];
+    const blocked = checkRestartBudgets(budgets, makeDetection('full-metagraph', ['ml0']), history, NOW);
+    expect(blocked?.budget).toBe('metagraph');
+    expect(blocked?.reason).toContain('exhausted');
+  });
+
+  it('reports the budget whose cooldown is active', () => {
+    const history = [makeEvent(1, 'individual-node', ['dl1'])];
+    const blocked = checkRestartBudgets(budgets, makeDetection('individual-node', ['dl1']), history, NOW);
+    expect(blocked?.budget).toBe('dl1-rejoins');
+    expect(blocked?.reason).toContain('Cooldown active');
+  });
+
+  it('allows a restart once the cooldown has passed', () => {
+    const history = [makeEvent(5, 'individual-node', ['dl1'])];
+    expect(checkRestartBudgets(budgets, makeDetection('individual-node', ['dl1']), history, NOW)).toBeNull();
+  });
+
+  it('ignores restarts not covered by any budget', () => {
+    const history = [makeEvent(1, 'individual-node', ['cl1'])];
+    expect(checkRestartBudgets(budgets, makeDetection('individual-node', ['cl1']), history, NOW)).toBeNull();
+  });
+});
+
+describe('defaultRestartBudgets()', () => {
+  it('applies the global rate limit across all scopes', () => {
+    const defaults = defaultRestartBudgets(2, 10);
+    const history = [
+      makeEvent(50, 'individual-node', ['dl1']),
+      makeEvent(40, 'full-layer', ['cl1']),
+    ];
+    const blocked = checkRestartBudgets(defaults, makeDetection('full-metagraph', ['ml0']), history, NOW);
+    expect(blocked?.budget).toBe('global');
+  });
+
+  it('keeps cooldowns separate per scope', () => {
+    const defaults = defaultRestartBudgets(6, 10);
+    const history = [makeEvent(1, 'individual-node', ['dl1'])];
+    expect(checkRestartBudgets(defaults, makeDetection('full-metagraph', ['ml0']), history, NOW)).toBeNull();
+    expect(checkRestartBudgets(defaults, makeDetection('individual-node', ['cl1']), history, NOW)?.budget)
+      .toBe('individual-node');
+  });
+
+  it('computes the history lookback from the longest window or cooldown', () => {
+    expect(budgetLookbackMinutes(budgets)).toBe(120);
+  });
+});
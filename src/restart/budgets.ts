@@ -0,0 +1,81 @@
+/**
+ * Restart Budgets
+ *
+ * Decides whether a restart is allowed given the configured budgets and
+ * recent restart history. Each budget covers a class of restarts (by scope,
+ * layer and condition) and only counts past restarts of that class.
+ *
+ * This is a PURE MODULE — history is passed in, nothing is read or written.
+ */
+
+import type { RestartBudget } from '../config.js';
+import type { DetectionResult, Layer, RestartEvent, RestartScope } from '../types.js';
+
+/** Budget that blocked a restart, and why */
+export interface BudgetBlock {
+  budget: string;
+  reason: string;
+}
+
+/** Does the budget cover a restart with this scope/condition/layers? */
+export function budgetCovers(
+  budget: RestartBudget,
+  scope: RestartScope,
+  condition: string,
+  layers: Layer[],
+): boolean {
+  if (budget.scope && budget.scope !== scope) return false;
+  if (budget.condition && budget.condition !== condition) return false;
+  if (budget.layer && !layers.includes(budget.layer)) return false;
+  return true;
+}
+
+/**
+ * How far back history must reach to evaluate all budgets (minutes).
+ */
+export function budgetLookbackMinutes(budgets: RestartBudget[]): number {
+  return Math.max(0, ...budgets.map(b => Math.max(b.windowMinutes, b.cooldownMinutes)));
+}
+
+/**
+ * Check all budgets covering the detection against restart history.
+ * Returns the first budget (in config order) that blocks, or null.
+ */
+export function checkRestartBudgets(
+  budgets: RestartBudget[],
+  result: DetectionResult,
+  history: RestartEvent[],
+  now = Date.now(),
+): BudgetBlock | null {
+  const layers = result.affectedLayers ?? [];
+
+  for (const budget of budgets) {
+    if (!budgetCovers(budget, result.restartScope, result.condition, layers)) continue;
+
+    const covered = history.filter(e => budgetCovers(budget, e.scope, e.condition, e.layers));
+
+    // Rate limit
+    const windowStart = now - budget.windowMinutes * 60_000;
+    const inWindow = covered.filter(e => Date.parse(e.timestamp) > windowStart).length;
+    if (inWindow >= budget.maxRestarts) {
+      return {
+        budget: budget.name,
+        reason: `Restart budget "${budget.name}" exhausted (${inWindow} restarts in ${budget.windowMinutes}m, max ${budget.maxRestarts}). Manual intervention may be required.`,
+      };
+    }
+
+    // Cooldown
+    const last = covered[covered.length - 1];
+    if (last && budget.cooldownMinutes > 0) {
+      const sinceLastMs = now - Date.parse(last.timestamp);
+      if (sinceLastMs < budget.cooldownMinutes * 60_000) {
+        return {
+          budget: budget.name,
+          reason: `Cooldown active for budget "${budget.name}" (${(sinceLastMs / 60_000).toFixed(1)}m since last restart, cooldown ${budget.cooldownMinutes}m)`,
+        };
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,143 @@
+/**
+ * Escalation Ladder Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EscalationTracker } from './escalation.js';
+import type { EscalationPolicy } from '../config.js';
+import type { DetectionResult, RestartScope } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+const policy: EscalationPolicy = {
+  ladder: ['individual-node', 'full-layer', 'full-metagraph'],
+  attemptsPerStep: 2,
+};
+
+function makeDetection(scope: RestartScope, condition = 'UnhealthyNodes'): DetectionResult {
+  return {
+    detected: true,
+    condition,
+    details: 'test',
+    restartScope: scope,
+    affectedNodes: ['10.0.0.2'],
+    affectedLayers: ['dl1'],
+  };
+}
+
+/** Decide + record a failed attempt; returns the scope that was attempted */
+function failOnce(tracker: EscalationTracker, detection: DetectionResult): RestartScope | 'halt' {
+  const decision = tracker.decide(detection);
+  if (decision.action === 'halt') return 'halt';
+  tracker.recordOutcome(detection.condition, decision.result.restartScope, false);
+  return decision.result.restartScope;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('EscalationTracker', () => {
+  it('uses the detected scope for a new incident', () => {
+    const tracker = new EscalationTracker(policy);
+    const decision = tracker.decide(makeDetection('individual-node'));
+
+    expect(decision.action).toBe('restart');
+    if (decision.action === 'restart') {
+      expect(decision.result.restartScope).toBe('individual-node');
+      expect(decision.result.affectedNodes).toEqual(['10.0.0.2']);
+    }
+  });
+
+  it('steps up the ladder after repeated failures, then halts', () => {
+    const tracker = new EscalationTracker(policy);
+    const detection = makeDetection('individual-node');
+
+    const attempted = Array.from({ length: 7 }, () => failOnce(tracker, detection));
+    expect(attempted).toEqual([
+      'individual-node', 'individual-node',
+      'full-layer', 'full-layer',
+      'full-metagraph', 'full-metagraph',
+      'halt',
+    ]);
+  });
+
+  it('reports escalation and halt transitions', () => {
+    const tracker = new EscalationTracker({ ladder: ['individual-node', 'full-layer'], attemptsPerStep: 1 });
+    const detection = makeDetection('individual-node');
+
+    tracker.decide(detection);
+    expect(tracker.recordOutcome('UnhealthyNodes', 'individual-node', false))
+      .toMatchObject({ from: 'individual-node', to: 'full-layer' });
+
+    tracker.decide(detection);
+    const halted = tracker.recordOutcome('UnhealthyNodes', 'full-layer', false);
+    expect(halted?.from).toBe('full-layer');
+    expect(halted?.to).toBeUndefined();
+    expect(halted?.incident.attempts).toEqual(['individual-node', 'full-layer']);
+
+    const decision = tracker.decide(detection);
+    expect(decision).toMatchObject({ action: 'halt', justHalted: false });
+  });
+
+  it('closes the incident when a restart fixes it', () => {
+    const tracker = new EscalationTracker(policy);
+    const detection = makeDetection('individual-node');
+
+    failOnce(tracker, detection);
+    failOnce(tracker, detection);
+    tracker.decide(detection);
+    tracker.recordOutcome('UnhealthyNodes', 'full-layer', true);
+
+    expect(tracker.open()).toEqual([]);
+    expect(failOnce(tracker, detection)).toBe('individual-node');
+  });
+
+  it('resets the ladder once the condition clears', () => {
+    const tracker = new EscalationTracker(policy);
+    const detection = makeDetection('individual-node');
+
+    failOnce(tracker, detection);
+    failOnce(tracker, detection);
+    expect(tracker.resolve('UnhealthyNodes')?.attempts).toHaveLength(2);
+    expect(failOnce(tracker, detection)).toBe('individual-node');
+  });
+
+  it('jumps to a broader rung when the detector asks for one', () => {
+    const tracker = new EscalationTracker(policy);
+
+    failOnce(tracker, makeDetection('individual-node'));
+    expect(failOnce(tracker, makeDetection('full-metagraph'))).toBe('full-metagraph');
+    // Does not fall back once the condition narrows again
+    expect(failOnce(tracker, makeDetection('individual-node'))).toBe('full-metagraph');
+  });
+
+  it('counts an attempt whose plan escalated against the rung that ran', () => {
+    const tracker = new EscalationTracker(policy);
+    const detection = makeDetection('individual-node');
+
+    tracker.decide(detection);
+    // No healthy reference node: the orchestrator ran a full-layer restart
+    expect(tracker.recordOutcome(detection.condition, 'full-layer', false)).toBeNull();
+    expect(tracker.decide(detection)).toMatchObject({ action: 'restart', result: { restartScope: 'full-layer' } });
+    expect(tracker.recordOutcome(detection.condition, 'full-layer', false)).toMatchObject({ from: 'full-layer', to: 'full-metagraph' });
+  });
+
+  it('halts immediately when the detected scope is beyond the ladder', () => {
+    const tracker = new EscalationTracker({ ladder: ['individual-node', 'full-layer'], attemptsPerStep: 2 });
+
+    expect(tracker.decide(makeDetection('full-metagraph'))).toMatchObject({ action: 'halt', justHalted: true });
+  });
+
+  it('tracks incidents per condition', () => {
+    const tracker = new EscalationTracker(policy);
+
+    failOnce(tracker, makeDetection('individual-node', 'UnhealthyNodes'));
+    failOnce(tracker, makeDetection('individual-node', 'UnhealthyNodes'));
+
+    expect(failOnce(tracker, makeDetection('individual-node', 'ForkedCluster'))).toBe('individual-node');
+    expect(failOnce(tracker, makeDetection('individual-node', 'UnhealthyNodes'))).toBe('full-layer');
+  });
+});
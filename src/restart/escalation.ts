@@ -0,0 +1,157 @@
+/**
+ * Escalation Ladder
+ *
+ * Tracks each ongoing incident (one per condition, open until the condition
+ * clears) and steps the restart scope up a configurable ladder when restarts
+ * fail to fix it:
+ *
+ *   individual-node → full-layer → full-metagraph → halt (human required)
+ *
+ * A restart attempt fails when it errors or post-restart verification finds
+ * the condition still present. After `attemptsPerStep` failed attempts at one
+ * rung the incident moves to the next; past the last rung it halts and no
+ * further restarts are made for that condition until it clears.
+ *
+ * State is in-memory and survives across check cycles (like StallTracker).
+ */
+
+import type { EscalationPolicy } from '../config.js';
+import type { DetectionResult, RestartScope } from '../types.js';
+import { log } from '../logger.js';
+
+const SCOPE_RANK: Record<RestartScope, number> = {
+  'none': 0,
+  'individual-node': 1,
+  'full-layer': 2,
+  'full-metagraph': 3,
+};
+
+export interface Incident {
+  condition: string;
+  openedAt: string;
+  /** Index into the ladder of the current rung */
+  step: number;
+  /** Failed attempts at the current rung */
+  failedAttempts: number;
+  /** Scopes attempted so far, oldest first */
+  attempts: RestartScope[];
+  halted: boolean;
+}
+
+export type EscalationDecision =
+  | { action: 'restart'; result: DetectionResult; incident: Incident }
+  /** `justHalted` is true only on the call that halted the incident */
+  | { action: 'halt'; incident: Incident; justHalted: boolean };
+
+/** State change after recording a failed attempt */
+export interface EscalationChange {
+  incident: Incident;
+  from: RestartScope;
+  /** New rung, or undefined if the incident halted */
+  to?: RestartScope;
+}
+
+export class EscalationTracker {
+  private incidents = new Map<string, Incident>();
+
+  constructor(private readonly policy: EscalationPolicy) {}
+
+  /** First rung at least as broad as the detected scope */
+  private stepFor(scope: RestartScope): number {
+    const idx = this.policy.ladder.findIndex(s => SCOPE_RANK[s] >= SCOPE_RANK[scope]);
+    return idx === -1 ? this.policy.ladder.length : idx;
+  }
+
+  /**
+   * Decide how to act on a restartable detection. Opens an incident if none
+   * is open, and raises the restart scope to the incident's current rung.
+   */
+  decide(result: DetectionResult, now = Date.now()): EscalationDecision {
+    let incident = this.incidents.get(result.condition);
+    if (!incident) {
+      incident = {
+        condition: result.condition,
+        openedAt: new Date(now).toISOString(),
+        step: 0,
+        failedAttempts: 0,
+        attempts: [],
+        halted: false,
+      };
+      this.incidents.set(result.condition, incident);
+    }
+
+    // The detector may itself ask for a broader scope than the current rung
+    const detectedStep = this.stepFor(result.restartScope);
+    if (detectedStep > incident.step) {
+      incident.step = detectedStep;
+      incident.failedAttempts = 0;
+    }
+    if (incident.halted) return { action: 'halt', incident, justHalted: false };
+    if (incident.step >= this.policy.ladder.length) {
+      // Detector asks for a broader scope than the ladder allows
+      incident.halted = true;
+      log(`[Escalation] ${result.condition}: ${result.restartScope} is beyond the escalation ladder — halting restarts, human intervention required`);
+      return { action: 'halt', incident, justHalted: true };
+    }
+
+    const scope = this.policy.ladder[incident.step];
+    if (scope !== result.restartScope) {
+      log(`[Escalation] ${result.condition}: escalated from ${result.restartScope} to ${scope} after ${incident.attempts.length} failed attempt(s)`);
+    }
+    return { action: 'restart', result: { ...result, restartScope: scope }, incident };
+  }
+
+  /**
+   * Record the outcome of a restart attempt at `scope`, the scope of the plan
+   * that ran. A fixed incident is closed; a failed one may step up the ladder
+   * or halt. Returns the change if the incident escalated or halted.
+   */
+  recordOutcome(condition: string, scope: RestartScope, fixed: boolean): EscalationChange | null {
+    const incident = this.incidents.get(condition);
+    if (!incident) return null;
+
+    if (fixed) {
+      this.incidents.delete(condition);
+      return null;
+    }
+
+    // The plan escalated past the current rung: the attempt counts at its rung
+    const ranStep = this.stepFor(scope);
+    if (ranStep > incident.step && ranStep < this.policy.ladder.length) {
+      incident.step = ranStep;
+      incident.failedAttempts = 0;
+    }
+
+    incident.attempts.push(scope);
+    incident.failedAttempts++;
+    if (incident.failedAttempts < this.policy.attemptsPerStep) return null;
+
+    const from = this.policy.ladder[incident.step];
+    incident.step++;
+    incident.failedAttempts = 0;
+    if (incident.step >= this.policy.ladder.length) {
+      incident.halted = true;
+      log(`[Escalation] ${condition}: ${from} failed ${this.policy.attemptsPerStep}x at the top of the ladder — halting restarts, human intervention required`);
+      return { incident, from };
+    }
+
+    const to = this.policy.ladder[incident.step];
+    log(`[Escalation] ${condition}: ${from} failed ${this.policy.attemptsPerStep}x — next attempt will be ${to}`);
+    return { incident, from, to };
+  }
+
+  /** Close the incident for a condition that is no longer detected. */
+  resolve(condition: string): Incident | undefined {
+    const incident = this.incidents.get(condition);
+    if (incident) {
+      this.incidents.delete(condition);
+      log(`[Escalation] ${condition}: incident resolved (${incident.attempts.length} failed attempt(s))`);
+    }
+    return incident;
+  }
+
+  /** Currently open incidents. */
+  open(): Incident[] {
+    return [...this.incidents.values()];
+  }
+}
@@ -0,0 +1,494 @@
+/**
+ * Restart Orchestrator Tests
+ *
+ * Tests for restart plan building. Plans are built without touching SSH,
+ * so they can be checked step by step.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildRestartPlan,
+  formatRestartPlan,
+  handleInterruptedRestart,
+  interruptedRestartAction,
+  planRestart,
+  planTargets,
+  type NodeInfoFetchFn,
+  type PlanDeps,
+} from './orchestrator.js';
+import { buildRemediationPlan } from './remediation.js';
+import { RestartHistoryStore } from '../services/restart-history.js';
+import { RestartJournalStore } from '../services/restart-journal.js';
+import type { Config } from '../config.js';
+import type { DetectionResult, NodeInfo, RestartPlan, Silence } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function makeConfig(nodeCount: number = 3): Config {
+  return {
+    nodes: Array.from({ length: nodeCount }, (_, i) => ({
+      ip: `10.0.0.${i + 1}`,
+      name: `node${i + 1}`,
+    })),
+    ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+    controller: 'ssh',
+    dockerSocketPath: '/var/run/docker.sock',
+    sshKeyPath: '/test/key',
+    sshUser: 'test',
+    cliPorts: { gl0: 9001, ml0: 9201, cl1: 9301, dl1: 9401 },
+    p2pPorts: { gl0: 9010, ml0: 9210, cl1: 9310, dl1: 9410 },
+    snapshotStallMinutes: 4,
+    snapshotStalls: {
+      gl0: { minutes: 4, scope: 'full-layer' },
+      ml0: { minutes: 4, scope: 'full-metagraph' },
+      cl1: { minutes: 10, scope: 'full-layer' },
+      dl1: { minutes: 10, scope: 'full-layer' },
+    },
+    nodeLagThresholds: { gl0: 20, ml0: 20, cl1: 20, dl1: 20 },
+    nodeLagReference: 'median',
+    nodeLagSustainSeconds: 180,
+    statePolicy: { timeouts: { WaitingForDownload: 0, DownloadInProgress: 0, Leaving: 0, Offline: 0, Unreachable: 0 }, defaultSeconds: 600 },
+    healthCheckIntervalSeconds: 60,
+    healthUpdates: { mode: 'poll', channel: 'monitor:health:updated', minIntervalSeconds: 10 },
+    restartCooldownMinutes: 10,
+    maxRestartsPerHour: 6,
+    conditions: {},
+    conditionModules: [],
+    restartBudgets: [],
+    confirmationRules: [],
+    recoveryCycles: 1,
+    escalation: { ladder: ['individual-node', 'full-layer', 'full-metagraph'], attemptsPerStep: 2 },
+    maintenanceWindows: [],
+    verifySettleSeconds: 0,
+    restartResumeMaxAgeMinutes: 30,
+    instanceId: 'test',
+    leaderElection: false,
+    leaderLeaseSeconds: 180,
+    redisUrl: 'redis://localhost:6379',
+    postgresUrl: '',
+    healthDataStaleSeconds: 60,
+    snapshotHistoryRetentionHours: 24,
+    daemon: false,
+    once: false,
+    dryRun: false,
+  };
+}
+
+function makeDetection(overrides: Partial<DetectionResult>): DetectionResult {
+  return {
+    detected: true,
+    condition: 'UnhealthyNodes',
+    details: 'test',
+    restartScope: 'individual-node',
+    ...overrides,
+  };
+}
+
+const readyInfo: NodeInfoFetchFn = async (ip, port): Promise<NodeInfo> => ({
+  state: 'Ready',
+  id: `peer-${ip}`,
+  host: ip,
+  publicPort: port,
+  p2pPort: port + 1,
+});
+
+const deps: PlanDeps = {
+  fetchInfo: readyInfo,
+  fetchSnapshot: async () => ({ ordinal: 100, lastSnapshotHash: 'hash-99' }),
+};
+
+function actions(plan: RestartPlan): string[] {
+  return plan.phases.flatMap(p => p.steps.map(s => `${s.action}:${s.container}@${s.nodeIp}`));
+}
+
+// ---------------------------------------------------------------------------
+// buildRestartPlan tests
+// ---------------------------------------------------------------------------
+
+describe('buildRestartPlan()', () => {
+  it('plans kill → start → join → wait-ready for an individual node', async () => {
+    const config = makeConfig();
+    const detection = makeDetection({ affectedNodes: ['10.0.0.2'], affectedLayers: ['dl1'] });
+
+    const plan = await buildRestartPlan(config, detection, deps);
+
+    expect(plan.scope).toBe('individual-node');
+    expect(actions(plan)).toEqual([
+      'kill:dl1-1@10.0.0.2',
+      'start:dl1-1@10.0.0.2',
+      'join:dl1-1@10.0.0.2',
+      'wait-ready:dl1-1@10.0.0.2',
+    ]);
+    const join = plan.phases[2].steps[0];
+    expect(join.referenceIp).toBe('10.0.0.1');
+  });
+
+  it('escalates individual restart to full layer when reference is unreachable', async () => {
+    const config = makeConfig();
+    const detection = makeDetection({ affectedNodes: ['10.0.0.2'], affectedLayers: ['cl1'] });
+
+    const plan = await buildRestartPlan(config, detection, { ...deps, fetchInfo: async () => null });
+
+    expect(plan.scope).toBe('full-layer');
+    expect(plan.phases[0].steps.map(s => s.action)).toEqual(['kill', 'kill', 'kill']);
+    expect(plan.phases[1].steps[0]).toMatchObject({ action: 'start', container: 'cl1-0' });
+  });
+
+  it('escalates individual restart when every node is affected', async () => {
+    const config = makeConfig();
+    const detection = makeDetection({
+      affectedNodes: ['10.0.0.1', '10.0.0.2', '10.0.0.3'],
+      affectedLayers: ['dl1'],
+    });
+
+    const plan = await buildRestartPlan(config, detection, deps);
+    expect(plan.phases[0].description).toBe('Kill DL1 on all nodes');
+  });
+
+  it('restarts only the node + layer pairs of a merged detection', async () => {
+    const config = makeConfig(2);
+    const merged = buildRemediationPlan([
+      makeDetection({ condition: 'UnhealthyNodes', affectedNodes: ['10.0.0.1'], affectedLayers: ['dl1'] }),
+      makeDetection({ condition: 'NodeLagging', affectedNodes: ['10.0.0.2'], affectedLayers: ['ml0'] }),
+    ])!;
+
+    const plan = await buildRestartPlan(config, merged.result, deps);
+
+    // Each layer still has a healthy reference: the other node
+    expect(plan.scope).toBe('individual-node');
+    expect(actions(plan).filter(a => a.startsWith('kill'))).toEqual(['kill:dl1-0@10.0.0.1', 'kill:ml0-1@10.0.0.2']);
+    const joins = plan.phases.flatMap(p => p.steps).filter(s => s.action === 'join');
+    expect(joins.map(s => `${s.layer}@${s.nodeIp}→${s.referenceIp}`)).toEqual(['dl1@10.0.0.1→10.0.0.2', 'ml0@10.0.0.2→10.0.0.1']);
+  });
+
+  it('keeps restarting the other merged layers when one escalates to full layer', async () => {
+    const config = makeConfig(3);
+    const merged = buildRemediationPlan([
+      makeDetection({ condition: 'UnhealthyNodes', affectedNodes: ['10.0.0.2'], affectedLayers: ['cl1'] }),
+      makeDetection({ condition: 'NodeLagging', affectedNodes: ['10.0.0.3'], affectedLayers: ['dl1'] }),
+    ])!;
+
+    // CL1's reference node is unreachable, DL1's answers
+    const plan = await buildRestartPlan(config, merged.result, {
+      ...deps,
+      fetchInfo: async (ip, port) => (port === config.ports.cl1 ? null : readyInfo(ip, port)),
+    });
+
+    expect(plan.scope).toBe('full-layer');
+    expect(actions(plan).filter(a => a.startsWith('kill'))).toEqual([
+      'kill:cl1-0@10.0.0.1', 'kill:cl1-1@10.0.0.2', 'kill:cl1-2@10.0.0.3',
+      'kill:dl1-2@10.0.0.3',
+    ]);
+  });
+
+  it('plans genesis first then joins validators for a full layer', async () => {
+    const config = makeConfig();
+    const detection = makeDetection({ restartScope: 'full-layer', affectedLayers: ['cl1'] });
+
+    const plan = await buildRestartPlan(config, detection, deps);
+
+    const genesisWait = plan.phases[2].steps[0];
+    expect(genesisWait).toMatchObject({ action: 'wait-ready', nodeIp: '10.0.0.1', required: true });
+
+    const joins = plan.phases.flatMap(p => p.steps).filter(s => s.action === 'join');
+    expect(joins.map(s => s.nodeIp)).toEqual(['10.0.0.2', '10.0.0.3']);
+    expect(joins.every(s => s.referenceIp === '10.0.0.1')).toBe(true);
+  });
+
+  it('escalates a full ML0 layer restart to full metagraph', async () => {
+    const config = makeConfig();
+    const detection = makeDetection({ restartScope: 'full-layer', affectedLayers: ['ml0'] });
+
+    const plan = await buildRestartPlan(config, detection, deps);
+    expect(plan.scope).toBe('full-metagraph');
+    expect(plan.phases[0].description).toBe('Kill DL1 on all nodes');
+  });
+
+  it('kills in reverse dependency order and restarts L1s in parallel for full metagraph', async () => {
+    const config = makeConfig();
+    const detection = makeDetection({ restartScope: 'full-metagraph', condition: 'SnapshotsStopped' });
+
+    const plan = await buildRestartPlan(config, detection, deps);
+
+    expect(plan.phases.slice(0, 3).map(p => p.steps[0].layer)).toEqual(['dl1', 'cl1', 'ml0']);
+    expect(plan.phases.slice(0, 3).every(p => p.bestEffort)).toBe(true);
+
+    const l1Phases = plan.phases.filter(p => p.steps.some(s => s.layer === 'cl1') && p.steps.some(s => s.layer === 'dl1'));
+    expect(l1Phases.length).toBeGreaterThan(1);
+    expect(l1Phases.every(p => p.bestEffort)).toBe(true);
+  });
+
+  it('starts ML0 genesis on the node with the highest ordinal', async () => {
+    const config = makeConfig();
+    const detection = makeDetection({ restartScope: 'full-metagraph', condition: 'SnapshotsStopped' });
+    const ordinals: Record<string, number> = { '10.0.0.1': 90, '10.0.0.2': 120, '10.0.0.3': 110 };
+
+    const plan = await buildRestartPlan(config, detection, {
+      ...deps,
+      fetchSnapshot: async (ip) => ({ ordinal: ordinals[ip], lastSnapshotHash: `h-${ip}` }),
+    });
+
+    expect(plan.rollback?.nodeIp).toBe('10.0.0.2');
+    const ml0Start = plan.phases.find(p => p.steps[0].action === 'start' && p.steps[0].layer === 'ml0');
+    expect(ml0Start?.steps[0].nodeIp).toBe('10.0.0.2');
+
+    const ml0Joins = plan.phases.flatMap(p => p.steps).filter(s => s.action === 'join' && s.layer === 'ml0');
+    expect(ml0Joins.map(s => s.nodeIp)).toEqual(['10.0.0.1', '10.0.0.3']);
+    expect(ml0Joins.every(s => s.referenceIp === '10.0.0.2')).toBe(true);
+  });
+
+  it('does not pick a rollback node for individual restarts', async () => {
+    const config = makeConfig();
+    const detection = makeDetection({ affectedNodes: ['10.0.0.2'], affectedLayers: ['dl1'] });
+
+    const plan = await buildRestartPlan(config, detection, deps);
+    expect(plan.rollback).toBeUndefined();
+  });
+
+  it('returns an empty plan for scope none', async () => {
+    const config = makeConfig();
+    const plan = await buildRestartPlan(config, makeDetection({ restartScope: 'none' }), deps);
+    expect(plan.phases).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Restart budgets and history
+// ---------------------------------------------------------------------------
+
+describe('budgets for escalated plans', () => {
+  const ml0Layer = makeDetection({ condition: 'ForkedCluster', restartScope: 'full-layer', affectedLayers: ['ml0'] });
+
+  it('records the scope and layers the plan escalated to', async () => {
+    const history = new RestartHistoryStore(null);
+
+    const outcome = await planRestart(makeConfig(), ml0Layer, history, {}, deps);
+
+    expect(outcome?.plan?.scope).toBe('full-metagraph');
+    expect(outcome?.event).toMatchObject({ scope: 'full-metagraph', layers: ['dl1', 'cl1', 'ml0'] });
+    expect((await history.list())[0].scope).toBe('full-metagraph');
+  });
+
+  it('applies the full-metagraph budget to an escalated full-layer restart', async () => {
+    const config = {
+      ...makeConfig(),
+      restartBudgets: [{ name: 'metagraph', scope: 'full-metagraph' as const, maxRestarts: 1, windowMinutes: 120, cooldownMinutes: 0 }],
+    };
+    const history = new RestartHistoryStore(null);
+    await history.record({
+      timestamp: new Date().toISOString(),
+      scope: 'full-metagraph',
+      condition: 'SnapshotsStopped',
+      layers: ['dl1', 'cl1', 'ml0'],
+      nodes: [],
+      success: true,
+    });
+
+    const outcome = await planRestart(config, ml0Layer, history, {}, deps);
+
+    expect(outcome?.blocked?.budget).toBe('metagraph');
+    expect(await history.list()).toHaveLength(1);
+  });
+
+  it('counts an individual restart escalated to full layer against every node', async () => {
+    const detection = makeDetection({ affectedNodes: ['10.0.0.2'], affectedLayers: ['cl1'] });
+    const outcome = await planRestart(makeConfig(), detection, new RestartHistoryStore(null), {}, {
+      ...deps,
+      fetchInfo: async () => null,
+    });
+
+    expect(outcome?.event).toMatchObject({
+      scope: 'full-layer',
+      layers: ['cl1'],
+      nodes: ['10.0.0.1', '10.0.0.2', '10.0.0.3'],
+    });
+  });
+
+  it('does not count dry-run plans against live budgets', async () => {
+    const budgets = [{ name: 'metagraph', scope: 'full-metagraph' as const, maxRestarts: 1, windowMinutes: 120, cooldownMinutes: 0 }];
+    const history = new RestartHistoryStore(null);
+    await history.record({
+      timestamp: new Date().toISOString(),
+      scope: 'full-metagraph',
+      condition: 'SnapshotsStopped',
+      layers: ['dl1', 'cl1', 'ml0'],
+      nodes: [],
+      success: true,
+      dryRun: true,
+    });
+
+    const live = await planRestart({ ...makeConfig(), restartBudgets: budgets }, ml0Layer, history, {}, deps);
+    expect(live?.blocked).toBeUndefined();
+
+    const dryRun = await planRestart({ ...makeConfig(), dryRun: true, restartBudgets: budgets }, ml0Layer, history, {}, deps);
+    expect(dryRun?.blocked?.budget).toBe('metagraph');
+  });
+});
+
+describe('unconfigured nodes', () => {
+  it('skips affected nodes that are not in NODE_IPS', async () => {
+    const detection = makeDetection({ affectedNodes: ['10.0.0.2', '10.9.9.9'], affectedLayers: ['cl1'] });
+
+    const plan = await buildRestartPlan(makeConfig(), detection, deps);
+
+    expect(planTargets(plan).nodes).toEqual(['10.0.0.2']);
+  });
+
+  it('fails the restart when no affected node is configured', async () => {
+    const detection = makeDetection({ affectedNodes: ['10.9.9.9'], affectedLayers: ['cl1'] });
+    const history = new RestartHistoryStore(null);
+
+    await expect(buildRestartPlan(makeConfig(), detection, deps)).rejects.toThrow(/10\.9\.9\.9.*NODE_IPS/);
+    const outcome = await planRestart(makeConfig(), detection, history, {}, deps);
+    expect(outcome?.event.error).toMatch(/NODE_IPS/);
+    expect(outcome?.plan).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatRestartPlan tests
+// ---------------------------------------------------------------------------
+
+describe('formatRestartPlan()', () => {
+  it('renders numbered phases with their steps', async () => {
+    const config = makeConfig();
+    const detection = makeDetection({ affectedNodes: ['10.0.0.3'], affectedLayers: ['dl1'] });
+    const plan = await buildRestartPlan(config, detection, deps);
+
+    const text = formatRestartPlan(plan);
+    expect(text).toContain('Restart plan: individual-node for UnhealthyNodes (4 phases)');
+    expect(text).toContain('1. Kill dl1-2 on 10.0.0.3 (settle 3s)');
+    expect(text).toContain('join dl1-2 on 10.0.0.3 → 10.0.0.1');
+    expect(text).toContain('wait-ready dl1-2 on 10.0.0.3 (90s)');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Interrupted restart tests
+// ---------------------------------------------------------------------------
+
+describe('interrupted restarts', () => {
+  async function journalWith(nextPhase: number, updatedMinutesAgo = 1) {
+    const config = makeConfig();
+    const detection = makeDetection({ restartScope: 'full-layer', affectedLayers: ['cl1'] });
+    const plan = await buildRestartPlan(config, detection, deps);
+    const journal = new RestartJournalStore(null);
+    const entry = await journal.begin('run-1', detection, plan);
+    await journal.update(entry, { nextPhase });
+    entry.updatedAt = new Date(Date.now() - updatedMinutesAgo * 60_000).toISOString();
+    return { config, journal, entry };
+  }
+
+  it('resumes recent runs', async () => {
+    const { config, entry } = await journalWith(2);
+    expect(interruptedRestartAction(config, entry)).toBe('resume');
+  });
+
+  it('abandons runs older than the resume window', async () => {
+    const { config, entry } = await journalWith(2, 45);
+    expect(interruptedRestartAction(config, entry)).toBe('abandon');
+  });
+
+  it('only reports in dry-run mode', async () => {
+    const { config, entry } = await journalWith(2);
+    config.dryRun = true;
+    expect(interruptedRestartAction(config, entry)).toBe('report-only');
+  });
+
+  it('marks abandoned runs so they are not picked up again', async () => {
+    const { config, journal, entry } = await journalWith(2, 45);
+    const outcome = await handleInterruptedRestart(config, entry, journal, new RestartHistoryStore(null));
+
+    expect(outcome).toBeNull();
+    expect(await journal.loadUnfinished()).toBeNull();
+  });
+
+  it('resumes from the recorded phase and records the restart', async () => {
+    const { config, journal, entry } = await journalWith(0);
+    entry.nextPhase = entry.plan.phases.length; // every phase already done
+    const history = new RestartHistoryStore(null);
+
+    const outcome = await handleInterruptedRestart(config, entry, journal, history);
+
+    expect(outcome?.event.success).toBe(true);
+    expect(await journal.loadUnfinished()).toBeNull();
+    expect(await history.list()).toHaveLength(1);
+  });
+
+  it('records the scope and targets of the resumed plan, not the detection', async () => {
+    const config = makeConfig();
+    const detection = makeDetection({ condition: 'ForkedCluster', restartScope: 'full-layer', affectedLayers: ['ml0'] });
+    const plan = await buildRestartPlan(config, detection, deps);
+    const journal = new RestartJournalStore(null);
+    const entry = await journal.begin('run-2', detection, plan);
+    entry.nextPhase = plan.phases.length;
+    const history = new RestartHistoryStore(null);
+
+    await handleInterruptedRestart(config, entry, journal, history);
+
+    expect((await history.list())[0]).toMatchObject({ scope: 'full-metagraph', layers: ['dl1', 'cl1', 'ml0'] });
+  });
+});
+
+describe('silenced restarts', () => {
+  const silence: Silence = {
+    id: 'upgrade',
+    startsAt: new Date(Date.now() - 60_000).toISOString(),
+    endsAt: new Date(Date.now() + 60 * 60_000).toISOString(),
+    reason: 'v2 rollout',
+  };
+
+  it('suppresses the restart without recording history', async () => {
+    const history = new RestartHistoryStore(null);
+    const detection = makeDetection({ restartScope: 'full-metagraph' });
+
+    const outcome = await planRestart(makeConfig(), detection, history, { silences: [silence] });
+
+    expect(outcome?.plan).toBeUndefined();
+    expect(outcome?.suppressed).toMatchObject({ partial: false, silences: [silence] });
+    expect(await history.list()).toEqual([]);
+  });
+
+  const node2Silence: Silence = { ...silence, id: 'node2', node: 'node2' };
+  const twoNodes = makeDetection({ affectedNodes: ['10.0.0.1', '10.0.0.2'], affectedLayers: ['dl1'] });
+
+  it('does not use a silenced node as the join reference', async () => {
+    const outcome = await planRestart(makeConfig(), twoNodes, new RestartHistoryStore(null), {
+      silences: [node2Silence],
+    }, deps);
+
+    expect(outcome?.suppressed?.partial).toBe(true);
+    expect(outcome?.event.nodes).toEqual(['10.0.0.1']);
+    const joins = outcome!.plan!.phases.flatMap(p => p.steps).filter(s => s.action === 'join');
+    expect(joins.map(s => s.referenceIp)).toEqual(['10.0.0.3']);
+  });
+
+  it('suppresses a plan that escalates onto a silenced node', async () => {
+    const history = new RestartHistoryStore(null);
+    // The only unsilenced reference is down: planning escalates to the whole layer
+    const outcome = await planRestart(makeConfig(), twoNodes, history, { silences: [node2Silence] }, {
+      ...deps,
+      fetchInfo: async () => null,
+    });
+
+    expect(outcome?.plan).toBeUndefined();
+    expect(outcome?.suppressed).toMatchObject({ partial: false, targets: [{ nodeIp: '10.0.0.2', layer: 'dl1' }] });
+    expect(await history.list()).toEqual([]);
+  });
+
+  it('does not resume an interrupted run covered by a silence', async () => {
+    const config = makeConfig();
+    const journal = new RestartJournalStore(null);
+    const detection = makeDetection({ restartScope: 'full-metagraph' });
+    const entry = await journal.begin('run-2', detection, { scope: 'full-metagraph', condition: 'Test', phases: [] });
+
+    const outcome = await handleInterruptedRestart(config, entry, journal, new RestartHistoryStore(null), {
+      silences: [silence],
+    });
+
+    expect(outcome?.suppressed).toBeDefined();
+    expect(await journal.loadUnfinished()).toBeNull();
+  });
+});
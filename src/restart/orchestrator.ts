@@ -6,26 +6,58 @@
  * - full-layer: kill all nodes in layer, restart with genesis + join
  * - full-metagraph: kill everything, pick rollback node, restart ML0→L1s
  *
- * Tracks restart history to prevent restart loops.
+ * Each strategy first builds an explicit RestartPlan (ordered phases of
+ * kill / start / wait-ready / join steps), which is then either executed or,
+ * in dry-run mode, only logged.
+ *
+ * Steps act on nodes through a NodeController backend (SSH + docker CLI by
+ * default, or a local Docker Engine socket), chosen by config.
+ *
+ * Every executed plan is journaled phase by phase (RestartJournalStore), so a
+ * run interrupted by a watchdog crash can be resumed on startup.
+ *
+ * With leader election, the leader's lease is re-checked before each phase
+ * (LeaderFence); a replica that lost its lease stops mid-plan and leaves the
+ * run in the journal for the new leader to resume.
+ *
+ * Active silences and maintenance windows are applied first: silenced
+ * targets are skipped and the suppression is reported in the outcome.
+ *
+ * Restarts are gated by configurable budgets (per scope, layer and condition)
+ * evaluated against restart history persisted via RestartHistoryStore, so
+ * limits hold across watchdog restarts and replicas.
  *
  * NOTE: Alerting is handled by Prometheus/Alertmanager. This module only
  * performs restarts and logs events to Postgres.
  */
 
+import { randomUUID } from 'crypto';
 import type { Config } from '../config.js';
-import type { DetectionResult, Layer, RestartEvent } from '../types.js';
-import { killLayerProcess, dockerControl, sshExec } from '../services/ssh.js';
+import type {
+  DetectionResult,
+  Layer,
+  NodeInfo,
+  RestartEvent,
+  RestartPhase,
+  RestartPlan,
+  RestartScope,
+  RestartStep,
+  RollbackChoice,
+  Silence,
+} from '../types.js';
+import { METAGRAPH_LAYERS } from '../types.js';
 import { getNodeInfo } from '../services/node-api.js';
+import { createNodeController } from '../controllers/create-controller.js';
+import type { NodeController } from '../controllers/node-controller.js';
+import type { RestartHistoryStore } from '../services/restart-history.js';
+import type { RestartJournalStore, RestartJournalEntry } from '../services/restart-journal.js';
+import type { LeaderFence } from '../services/leader-election.js';
+import { checkRestartBudgets, budgetLookbackMinutes, type BudgetBlock } from './budgets.js';
+import { selectRollbackNode, defaultSnapshotRefFetch, type SnapshotRefFetchFn } from './rollback.js';
+import { applySilences, isSilenced, planSuppression, type Suppression } from './silences.js';
+import { individualTargets } from './remediation.js';
 import { log } from '../logger.js';
 
-// In-memory restart history
-const restartHistory: RestartEvent[] = [];
-
-function recentRestartCount(minutes: number): number {
-  const cutoff = Date.now() - minutes * 60_000;
-  return restartHistory.filter(r => new Date(r.timestamp).getTime() > cutoff).length;
-}
-
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -53,251 +85,683 @@ async function waitForReady(
   return false;
 }
 
-/**
- * Join a node to the cluster via the CLI port.
- */
-async function joinCluster(
-  nodeIp: string,
-  genesisId: string,
-  genesisIp: string,
-  layer: Layer,
-  config: Config,
-): Promise<void> {
-  const cliPort = config.cliPorts[layer];
-  const p2pPort = config.p2pPorts[layer];
-  const container = containerName(layer, config.nodes.findIndex(n => n.ip === nodeIp));
-
-  log(`[Restart] Joining ${nodeIp} ${layer} to cluster (genesis=${genesisIp})`);
-  await sshExec(nodeIp, [
-    `docker exec ${container} curl -sf -X POST http://127.0.0.1:${cliPort}/cluster/join`,
-    `-H 'Content-Type: application/json'`,
-    `-d '{"id":"${genesisId}","ip":"${genesisIp}","p2pPort":${p2pPort}}'`,
-  ].join(' '), config);
-}
-
 // ============================================================================
-// Restart strategies
+// Plan building
 // ============================================================================
 
+/** Node info fetch type for dependency injection in tests */
+export type NodeInfoFetchFn = (ip: string, port: number) => Promise<NodeInfo | null>;
+
+/** Read-only lookups used while planning (injectable for tests) */
+export interface PlanDeps {
+  fetchInfo?: NodeInfoFetchFn;
+  fetchSnapshot?: SnapshotRefFetchFn;
+}
+
+/** State threaded through the planners while building one plan */
+interface PlanContext {
+  config: Config;
+  fetchInfo: NodeInfoFetchFn;
+  fetchSnapshot: SnapshotRefFetchFn;
+  rollback?: RollbackChoice;
+  /** Broadest scope planned so far (planners escalate when they must) */
+  scope: RestartScope;
+  /** Active silences: silenced nodes are never used as join references */
+  silences: Silence[];
+}
+
+const SCOPE_RANK: RestartScope[] = ['none', 'individual-node', 'full-layer', 'full-metagraph'];
+
+/** Record that the plan reaches (at least) `scope`. */
+function escalate(ctx: PlanContext, scope: RestartScope): void {
+  if (SCOPE_RANK.indexOf(scope) > SCOPE_RANK.indexOf(ctx.scope)) ctx.scope = scope;
+}
+
+function step(
+  config: Config,
+  action: RestartStep['action'],
+  layer: Layer,
+  nodeIndex: number,
+  extra: Partial<RestartStep> = {},
+): RestartStep {
+  const node = config.nodes[nodeIndex];
+  if (!node) throw new Error(`No configured node at index ${nodeIndex} for ${layer} ${action}`);
+  return {
+    action,
+    layer,
+    nodeIp: node.ip,
+    container: containerName(layer, nodeIndex),
+    ...extra,
+  };
+}
+
 /**
- * Restart individual unhealthy nodes by killing + rejoining.
+ * Plan restart of individual unhealthy nodes by killing + rejoining.
+ * Each layer restarts only the nodes targeted on that layer.
  */
-async function restartIndividualNodes(
-  config: Config,
+async function planIndividualNodes(
+  ctx: PlanContext,
   result: DetectionResult,
-): Promise<void> {
-  const affectedNodes = result.affectedNodes ?? [];
-  const layers = result.affectedLayers ?? [];
+): Promise<RestartPhase[]> {
+  const { config } = ctx;
+  // Nodes outside NODE_IPS (e.g. payload-only peers in a hybrid snapshot)
+  // have no container the watchdog can restart
+  const targets = individualTargets(result).filter(t => {
+    const known = config.nodes.some(n => n.ip === t.nodeIp);
+    if (!known) log(`[Restart] Skipping ${t.layer} on ${t.nodeIp}: not a configured node (NODE_IPS)`);
+    return known;
+  });
+  if (targets.length === 0) {
+    throw new Error(`None of the affected nodes (${result.affectedNodes?.join(', ') || 'none'}) are configured in NODE_IPS`);
+  }
+  const layers = [...new Set(targets.map(t => t.layer))];
+  const phases: RestartPhase[] = [];
 
   for (const layer of layers) {
-    // Find a healthy reference node
-    const healthyNode = config.nodes.find(n => !affectedNodes.includes(n.ip));
+    // An earlier layer escalated to a full metagraph restart, which covers this one
+    if (ctx.scope === 'full-metagraph' && METAGRAPH_LAYERS.includes(layer)) continue;
+
+    const affectedNodes = targets.filter(t => t.layer === layer).map(t => t.nodeIp);
+    // Find a healthy reference node (a silenced one may be under maintenance)
+    const healthyNode = config.nodes.find(n =>
+      !affectedNodes.includes(n.ip) &&
+      !isSilenced(config, ctx.silences, result.condition, { nodeIp: n.ip, layer }));
     if (!healthyNode) {
       log(`[Restart] No healthy reference node for ${layer} — escalating to full-layer`);
-      await restartFullLayer(config, layer);
-      return;
+      phases.push(...await planFullLayer(ctx, layer));
+      continue;
     }
 
-    const port = config.ports[layer];
-    const refInfo = await getNodeInfo(healthyNode.ip, port);
+    const refInfo = await ctx.fetchInfo(healthyNode.ip, config.ports[layer]);
     if (!refInfo) {
       log(`[Restart] Reference node ${healthyNode.ip} unreachable — escalating`);
-      await restartFullLayer(config, layer);
-      return;
+      phases.push(...await planFullLayer(ctx, layer));
+      continue;
     }
 
     for (const nodeIp of affectedNodes) {
       const nodeIdx = config.nodes.findIndex(n => n.ip === nodeIp);
       const container = containerName(layer, nodeIdx);
 
-      log(`[Restart] Restarting ${container} on ${nodeIp}`);
-      await killLayerProcess(nodeIp, container, config);
-      await sleep(3_000);
-      await dockerControl(nodeIp, 'start', container, config);
-      await sleep(10_000);
-      await joinCluster(nodeIp, refInfo.id, healthyNode.ip, layer, config);
-      await waitForReady(nodeIp, port, 90_000);
+      phases.push(
+        { description: `Kill ${container} on ${nodeIp}`, steps: [step(config, 'kill', layer, nodeIdx)], settleMs: 3_000 },
+        { description: `Start ${container} on ${nodeIp}`, steps: [step(config, 'start', layer, nodeIdx)], settleMs: 10_000 },
+        {
+          description: `Join ${container} to ${healthyNode.ip}`,
+          steps: [step(config, 'join', layer, nodeIdx, { referenceIp: healthyNode.ip })],
+          settleMs: 0,
+        },
+        {
+          description: `Wait for ${container} to become Ready`,
+          steps: [step(config, 'wait-ready', layer, nodeIdx, { timeoutMs: 90_000 })],
+          settleMs: 0,
+        },
+      );
     }
   }
+
+  return phases;
 }
 
 /**
- * Restart an entire layer: kill all → start genesis → join validators.
+ * Plan genesis start + validator joins for one layer, with the given
+ * node index as genesis.
  */
-async function restartFullLayer(
-  config: Config,
-  layer: Layer,
-): Promise<void> {
-  log(`[Restart] Full ${layer.toUpperCase()} layer restart`);
+function planLayerStart(config: Config, layer: Layer, genesisIdx: number): RestartPhase[] {
+  const name = layer.toUpperCase();
+  const genesis = config.nodes[genesisIdx];
+  const phases: RestartPhase[] = [
+    { description: `Start ${name} genesis on ${genesis.ip}`, steps: [step(config, 'start', layer, genesisIdx)], settleMs: 0 },
+    {
+      description: `Wait for ${name} genesis to become Ready`,
+      steps: [step(config, 'wait-ready', layer, genesisIdx, { timeoutMs: 120_000, required: true })],
+      settleMs: 0,
+    },
+  ];
+
+  // Start and join validators
+  config.nodes.forEach((node, i) => {
+    if (i === genesisIdx) return;
+    phases.push(
+      { description: `Start ${name} validator on ${node.ip}`, steps: [step(config, 'start', layer, i)], settleMs: 10_000 },
+      {
+        description: `Join ${name} validator ${node.ip} to ${genesis.ip}`,
+        steps: [step(config, 'join', layer, i, { referenceIp: genesis.ip })],
+        settleMs: 0,
+      },
+    );
+  });
 
-  const port = config.ports[layer];
+  // Wait for all to be Ready
+  phases.push({
+    description: `Wait for ${name} cluster to become Ready`,
+    steps: config.nodes.map((_, i) => step(config, 'wait-ready', layer, i, { timeoutMs: 120_000 })),
+    settleMs: 0,
+  });
 
+  return phases;
+}
+
+/**
+ * Plan an entire layer restart: kill all → start genesis → join validators.
+ */
+async function planFullLayer(ctx: PlanContext, layer: Layer): Promise<RestartPhase[]> {
   // If ML0 is down, need full metagraph restart (L1s depend on ML0)
   if (layer === 'ml0') {
     log('[Restart] ML0 down → escalating to full metagraph restart');
-    await restartFullMetagraph(config);
-    return;
+    return planFullMetagraph(ctx);
   }
+  escalate(ctx, 'full-layer');
+
+  return [
+    {
+      description: `Kill ${layer.toUpperCase()} on all nodes`,
+      steps: ctx.config.nodes.map((_, i) => step(ctx.config, 'kill', layer, i)),
+      settleMs: 5_000,
+    },
+    // Start genesis node (index 0)
+    ...planLayerStart(ctx.config, layer, 0),
+  ];
+}
 
-  // Kill all nodes for this layer
-  await Promise.all(config.nodes.map((n, i) =>
-    killLayerProcess(n.ip, containerName(layer, i), config)
-  ));
-  await sleep(5_000);
+/**
+ * Run two phase lists side by side, pairing phases by position.
+ * Used to restart CL1 and DL1 in parallel once ML0 is back. Merged phases
+ * are best-effort, but their required steps still abort the plan.
+ */
+function zipPhases(a: RestartPhase[], b: RestartPhase[]): RestartPhase[] {
+  const merged: RestartPhase[] = [];
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const parts = [a[i], b[i]].filter((p): p is RestartPhase => p !== undefined);
+    merged.push({
+      description: parts.map(p => p.description).join(' | '),
+      steps: parts.flatMap(p => p.steps),
+      settleMs: Math.max(...parts.map(p => p.settleMs)),
+      bestEffort: true,
+    });
+  }
+  return merged;
+}
 
-  // Start genesis node (index 0)
-  const genesis = config.nodes[0];
-  const genesisContainer = containerName(layer, 0);
-  await dockerControl(genesis.ip, 'start', genesisContainer, config);
+/**
+ * Plan a full metagraph restart: kill everything → start ML0 → start L1s.
+ *
+ * ML0 genesis runs on the "rollback node" — the node with the highest ML0
+ * ordinal whose last snapshot hash agrees with its peers. Ordinals are read
+ * before the kill phase, while the nodes still report them.
+ */
+async function planFullMetagraph(ctx: PlanContext): Promise<RestartPhase[]> {
+  const { config } = ctx;
+  escalate(ctx, 'full-metagraph');
+  ctx.rollback ??= await selectRollbackNode(config, ctx.fetchSnapshot);
+  const phases: RestartPhase[] = [];
 
-  if (!await waitForReady(genesis.ip, port)) {
-    throw new Error(`${layer} genesis on ${genesis.ip} did not become Ready`);
-  }
+  // Kill all layers in reverse dependency order
+  const killOrder: Layer[] = ['dl1', 'cl1', 'ml0'];
+  killOrder.forEach((layer, idx) => {
+    phases.push({
+      description: `Kill ${layer.toUpperCase()} on all nodes`,
+      steps: config.nodes.map((_, i) => step(config, 'kill', layer, i)),
+      settleMs: idx === killOrder.length - 1 ? 5_000 : 0,
+      bestEffort: true,
+    });
+  });
+
+  // Start ML0 (rollback node as genesis, then validators)
+  phases.push(...planLayerStart(config, 'ml0', ctx.rollback.nodeIndex));
 
-  const genesisInfo = await getNodeInfo(genesis.ip, port);
-  if (!genesisInfo) throw new Error(`Cannot get genesis info for ${layer}`);
+  // Start CL1 and DL1 in parallel
+  phases.push(...zipPhases(await planFullLayer(ctx, 'cl1'), await planFullLayer(ctx, 'dl1')));
 
-  // Start and join validators
-  for (let i = 1; i < config.nodes.length; i++) {
-    const node = config.nodes[i];
-    const container = containerName(layer, i);
-    await dockerControl(node.ip, 'start', container, config);
-    await sleep(10_000);
-    await joinCluster(node.ip, genesisInfo.id, genesis.ip, layer, config);
-  }
+  return phases;
+}
 
-  // Wait for all to be Ready
-  for (const node of config.nodes) {
-    await waitForReady(node.ip, port, 120_000);
+/**
+ * Build the ordered restart plan for a detection result.
+ *
+ * The plan's scope is what will actually run: planners escalate (no healthy
+ * reference → full layer, ML0 → full metagraph), so it can be broader than
+ * the detection's. `silences` only steer the choice of join reference;
+ * callers check the built plan against them (planSuppression).
+ *
+ * Only performs read-only HTTP calls (reference node lookup, rollback node
+ * ordinals), so it is safe to call in dry-run mode.
+ */
+export async function buildRestartPlan(
+  config: Config,
+  result: DetectionResult,
+  deps: PlanDeps = {},
+  silences: Silence[] = [],
+): Promise<RestartPlan> {
+  const ctx: PlanContext = {
+    config,
+    fetchInfo: deps.fetchInfo ?? getNodeInfo,
+    fetchSnapshot: deps.fetchSnapshot ?? defaultSnapshotRefFetch,
+    scope: result.restartScope,
+    silences,
+  };
+  let phases: RestartPhase[] = [];
+
+  switch (result.restartScope) {
+    case 'individual-node':
+      phases = await planIndividualNodes(ctx, result);
+      break;
+    case 'full-layer':
+      for (const layer of result.affectedLayers ?? []) {
+        phases.push(...await planFullLayer(ctx, layer));
+      }
+      break;
+    case 'full-metagraph':
+      phases = await planFullMetagraph(ctx);
+      break;
   }
 
-  log(`[Restart] ${layer.toUpperCase()} layer restart complete`);
+  if (ctx.scope !== result.restartScope) {
+    log(`[Restart] ${result.restartScope} restart for ${result.condition} escalated to ${ctx.scope} while planning`);
+  }
+  return { scope: ctx.scope, condition: result.condition, phases, rollback: ctx.rollback };
 }
 
 /**
- * Full metagraph restart: kill everything → start ML0 → start L1s.
+ * Layers and nodes a plan actually restarts (its kill and start steps).
  *
- * Picks the "rollback node" — the node most likely to have the latest state.
- * For now, uses node 0 (genesis). A future improvement could check which node
- * has the highest ordinal.
+ * This is a PURE FUNCTION.
  */
-async function restartFullMetagraph(config: Config): Promise<void> {
-  log('[Restart] === Full Metagraph Restart ===');
-
-  const layers: Layer[] = ['dl1', 'cl1', 'ml0'];
+export function planTargets(plan: RestartPlan): { layers: Layer[]; nodes: string[] } {
+  const steps = plan.phases.flatMap(p => p.steps).filter(s => s.action === 'kill' || s.action === 'start');
+  return {
+    layers: [...new Set(steps.map(s => s.layer))],
+    nodes: [...new Set(steps.map(s => s.nodeIp))],
+  };
+}
 
-  // Kill all layers in reverse dependency order
-  for (const layer of layers) {
-    await Promise.all(config.nodes.map((n, i) =>
-      killLayerProcess(n.ip, containerName(layer, i), config).catch(() => {})
-    ));
+function describeStep(s: RestartStep): string {
+  switch (s.action) {
+    case 'kill':
+    case 'start':
+      return `${s.action} ${s.container} on ${s.nodeIp}`;
+    case 'join':
+      return `join ${s.container} on ${s.nodeIp} → ${s.referenceIp}`;
+    case 'wait-ready':
+      return `wait-ready ${s.container} on ${s.nodeIp} (${(s.timeoutMs ?? 120_000) / 1000}s${s.required ? ', required' : ''})`;
   }
-  await sleep(5_000);
+}
 
-  // Start ML0 (genesis first, then validators)
-  log('[Restart] Starting ML0...');
-  await dockerControl(config.nodes[0].ip, 'start', containerName('ml0', 0), config);
-  if (!await waitForReady(config.nodes[0].ip, config.ports.ml0)) {
-    throw new Error('ML0 genesis did not become Ready');
+/**
+ * Render a restart plan as human-readable lines for logs.
+ */
+export function formatRestartPlan(plan: RestartPlan): string {
+  const lines = [`Restart plan: ${plan.scope} for ${plan.condition} (${plan.phases.length} phases)`];
+  if (plan.rollback) {
+    lines.push(`  Rollback node: ${plan.rollback.nodeIp} — ${plan.rollback.reason}`);
   }
+  plan.phases.forEach((phase, i) => {
+    const flags = [
+      phase.settleMs > 0 ? `settle ${phase.settleMs / 1000}s` : '',
+      phase.bestEffort ? 'best-effort' : '',
+    ].filter(Boolean).join(', ');
+    lines.push(`  ${i + 1}. ${phase.description}${flags ? ` (${flags})` : ''}`);
+    for (const s of phase.steps) {
+      lines.push(`       - ${describeStep(s)}`);
+    }
+  });
+  return lines.join('\n');
+}
 
-  const ml0Info = await getNodeInfo(config.nodes[0].ip, config.ports.ml0);
-  if (!ml0Info) throw new Error('Cannot get ML0 genesis info');
+// ============================================================================
+// Plan execution
+// ============================================================================
 
-  for (let i = 1; i < config.nodes.length; i++) {
-    await dockerControl(config.nodes[i].ip, 'start', containerName('ml0', i), config);
-    await sleep(10_000);
-    await joinCluster(config.nodes[i].ip, ml0Info.id, config.nodes[0].ip, 'ml0', config);
+async function executeStep(config: Config, controller: NodeController, s: RestartStep): Promise<void> {
+  const port = config.ports[s.layer];
+
+  switch (s.action) {
+    case 'kill':
+      await controller.stop(s);
+      break;
+    case 'start':
+      await controller.start(s);
+      break;
+    case 'wait-ready':
+      if (!await waitForReady(s.nodeIp, port, s.timeoutMs) && s.required) {
+        throw new Error(`${s.layer} on ${s.nodeIp} did not become Ready`);
+      }
+      break;
+    case 'join': {
+      const refIp = s.referenceIp ?? '';
+      const refInfo = await getNodeInfo(refIp, port);
+      if (!refInfo) throw new Error(`Cannot get ${s.layer} reference info from ${refIp}`);
+      await controller.join(s, { id: refInfo.id, ip: refIp, p2pPort: config.p2pPorts[s.layer] });
+      break;
+    }
   }
+}
+
+/**
+ * Execute a journaled plan from `entry.nextPhase`, recording progress after
+ * every phase. When resuming, the interrupted phase is re-run best-effort
+ * since some of its steps may already have completed.
+ *
+ * Returns false if the fence check failed (leadership lost) before a phase.
+ */
+async function executePlan(
+  config: Config,
+  entry: RestartJournalEntry,
+  journal: RestartJournalStore,
+  resumed = false,
+  fence?: LeaderFence,
+): Promise<boolean> {
+  const { plan } = entry;
+  const firstPhase = entry.nextPhase;
+  const controller = createNodeController(config);
+
+  for (let i = firstPhase; i < plan.phases.length; i++) {
+    const phase = plan.phases[i];
+    const bestEffort = phase.bestEffort || (resumed && i === firstPhase);
+
+    if (fence && !await fence.check()) return false;
+
+    log(`[Restart] [${i + 1}/${plan.phases.length}] ${phase.description}`);
+    const results = await Promise.allSettled(phase.steps.map(s => executeStep(config, controller, s)));
 
-  // Wait for ML0 cluster
-  for (const node of config.nodes) {
-    await waitForReady(node.ip, config.ports.ml0, 120_000);
+    for (const [j, r] of results.entries()) {
+      if (r.status === 'fulfilled') continue;
+      // A required step (e.g. a genesis wait-ready) aborts even a best-effort phase
+      if (!bestEffort || phase.steps[j].required) throw r.reason;
+      log(`[Restart] ${phase.description} failed (continuing): ${r.reason}`);
+    }
+
+    if (phase.settleMs > 0) await sleep(phase.settleMs);
+    await journal.update(entry, { nextPhase: i + 1 });
   }
-  log('[Restart] ML0 cluster ready');
+  return true;
+}
 
-  // Start CL1 and DL1 in parallel
-  const l1Layers: Layer[] = ['cl1', 'dl1'];
-  await Promise.all(l1Layers.map(layer => restartFullLayer(config, layer).catch(err => {
-    log(`[Restart] ${layer} restart failed: ${err}`);
-  })));
+/**
+ * Execute a plan under a new journal run and record the outcome in the event.
+ */
+async function runJournaled(
+  config: Config,
+  entry: RestartJournalEntry,
+  journal: RestartJournalStore,
+  event: RestartEvent,
+  resumed: boolean,
+  fence?: LeaderFence,
+): Promise<void> {
+  if (fence?.token != null) event.fencingToken = fence.token;
+  try {
+    if (!await executePlan(config, entry, journal, resumed, fence)) {
+      // Leave the run 'running' in the journal so the new leader resumes it
+      event.error = `Leadership lost before phase ${entry.nextPhase + 1}/${entry.plan.phases.length}, stopping`;
+      log(`[Restart] ${event.error} (run ${entry.runId})`);
+      return;
+    }
+    await journal.update(entry, { status: 'completed' });
 
-  log('[Restart] === Full Metagraph Restart Complete ===');
+    event.success = true;
+    log(`[Restart] Restart complete (${entry.plan.scope}, run ${entry.runId})`);
+  } catch (err) {
+    event.error = err instanceof Error ? err.message : String(err);
+    await journal.update(entry, { status: 'failed', error: event.error });
+    log(`[Restart] Failed: ${event.error}`);
+  }
 }
 
 // ============================================================================
 // Main entry point
 // ============================================================================
 
+/** Optional checks applied around a restart */
+export interface RestartGuards {
+  /** Leader lease re-checked before every phase */
+  fence?: LeaderFence;
+  /** Silences in effect (stored silences + open maintenance windows) */
+  silences?: Silence[];
+}
+
+/** Result of executeRestart / planRestart */
+export interface RestartOutcome {
+  /** Restart event (recorded in history unless blocked or fully suppressed) */
+  event: RestartEvent;
+  plan?: RestartPlan;
+  /** Set when a restart budget prevented the restart */
+  blocked?: BudgetBlock;
+  /** Set when silences skipped some (partial) or all targets */
+  suppressed?: Suppression;
+}
+
 /**
- * Execute restart based on detection result.
- * Returns true if a restart was performed.
+ * Apply silences; returns the (possibly narrowed) detection to restart,
+ * or null if every target is silenced.
  */
-export async function executeRestart(
+function checkSilences(
   config: Config,
   result: DetectionResult,
-): Promise<boolean> {
-  if (!result.detected || result.restartScope === 'none') return false;
-
-  // Rate limit
-  const recentCount = recentRestartCount(60);
-  if (recentCount >= config.maxRestartsPerHour) {
-    const msg = `Restart loop detected (${recentCount} restarts in 1h). Manual intervention required.`;
-    log(`[Restart] ${msg}`);
-    // NOTE: Alertmanager handles alerting via Prometheus metrics
-    return false;
-  }
-
-  // Cooldown check
-  const lastRestart = restartHistory[restartHistory.length - 1];
-  if (lastRestart) {
-    const sinceLastMs = Date.now() - new Date(lastRestart.timestamp).getTime();
-    if (sinceLastMs < config.restartCooldownMinutes * 60_000) {
-      log(`[Restart] Cooldown active (${(sinceLastMs / 60_000).toFixed(1)}m since last restart)`);
-      return false;
-    }
+  silences: Silence[] = [],
+): { result: DetectionResult | null; suppressed?: Suppression } {
+  const decision = applySilences(config, silences, result);
+  const suppressed = decision.suppression ?? undefined;
+  if (suppressed) {
+    const ids = suppressed.silences.map(s => s.id).join(', ');
+    const targets = suppressed.targets.map(t => `${t.layer}@${t.nodeIp}`).join(', ');
+    log(`[Restart] ${suppressed.partial ? 'Skipping silenced targets' : 'Restart suppressed'} (${targets}) by silence ${ids}`);
   }
+  return { result: decision.result, suppressed };
+}
 
-  log(`[Restart] Initiating ${result.restartScope} restart for ${result.condition}: ${result.details}`);
+/**
+ * Check a built plan against silences: planning may have escalated onto
+ * targets the detection's silence check had dropped. Never narrowed.
+ */
+function checkPlanSilences(config: Config, plan: RestartPlan, silences: Silence[] = []): Suppression | undefined {
+  const suppressed = planSuppression(config, silences, plan);
+  if (!suppressed) return undefined;
+  const ids = suppressed.silences.map(s => s.id).join(', ');
+  const targets = suppressed.targets.map(t => `${t.layer}@${t.nodeIp}`).join(', ');
+  log(`[Restart] ${plan.scope} plan for ${plan.condition} suppressed: it would restart silenced targets (${targets}), silence ${ids}`);
+  return suppressed;
+}
 
-  const event: RestartEvent = {
+/**
+ * Restart event for a detection; with a plan, scope, layers and nodes are
+ * the plan's (what actually runs), not the detection's.
+ */
+function newRestartEvent(result: DetectionResult, plan?: RestartPlan): RestartEvent {
+  const targets = plan ? planTargets(plan) : null;
+  return {
     timestamp: new Date().toISOString(),
-    scope: result.restartScope,
+    scope: plan?.scope ?? result.restartScope,
     condition: result.condition,
-    layers: result.affectedLayers ?? [],
-    nodes: result.affectedNodes ?? [],
+    layers: targets?.layers ?? result.affectedLayers ?? [],
+    nodes: targets?.nodes ?? result.affectedNodes ?? [],
     success: false,
   };
+}
+
+/**
+ * Check restart budgets for the planned restart against persisted history.
+ */
+async function checkBudgets(
+  config: Config,
+  event: RestartEvent,
+  history: RestartHistoryStore,
+): Promise<BudgetBlock | null> {
+  const lookback = budgetLookbackMinutes(config.restartBudgets);
+  // Dry-run plans never touched a node: they only count towards other dry runs
+  const recent = (await history.since(Date.now() - lookback * 60_000)).filter(e => config.dryRun || !e.dryRun);
+  const planned: DetectionResult = {
+    detected: true,
+    condition: event.condition,
+    details: '',
+    restartScope: event.scope,
+    affectedLayers: event.layers,
+    affectedNodes: event.nodes,
+  };
+  const blocked = checkRestartBudgets(config.restartBudgets, planned, recent);
+  if (blocked) {
+    // NOTE: Alertmanager handles alerting via Prometheus metrics
+    log(`[Restart] ${blocked.reason}`);
+  }
+  return blocked;
+}
 
+/**
+ * Dry-run counterpart of executeRestart: builds the plan, applies the same
+ * restart budgets and logs the plan, but executes nothing.
+ *
+ * The planned restart is recorded in history so dry-run cadence matches what
+ * a live watchdog would do.
+ */
+export async function planRestart(
+  config: Config,
+  detection: DetectionResult,
+  history: RestartHistoryStore,
+  guards: RestartGuards = {},
+  deps: PlanDeps = {},
+): Promise<RestartOutcome | null> {
+  if (!detection.detected || detection.restartScope === 'none') return null;
+
+  const { result, suppressed } = checkSilences(config, detection, guards.silences);
+  if (!result) return { event: newRestartEvent(detection), suppressed };
+
+  let plan: RestartPlan;
   try {
-    switch (result.restartScope) {
-      case 'individual-node':
-        await restartIndividualNodes(config, result);
-        break;
-      case 'full-layer':
-        for (const layer of result.affectedLayers ?? []) {
-          await restartFullLayer(config, layer);
-        }
-        break;
-      case 'full-metagraph':
-        await restartFullMetagraph(config);
-        break;
-    }
+    plan = await buildRestartPlan(config, result, deps, guards.silences);
+  } catch (err) {
+    const event = newRestartEvent(result);
+    event.error = err instanceof Error ? err.message : String(err);
+    log(`[Restart] DRY RUN — failed to build restart plan: ${event.error}`);
+    return { event, suppressed };
+  }
 
-    event.success = true;
-    log(`[Restart] Restart complete (${result.restartScope})`);
+  const planSilenced = checkPlanSilences(config, plan, guards.silences);
+  if (planSilenced) return { event: newRestartEvent(result, plan), suppressed: planSilenced };
+
+  const event = newRestartEvent(result, plan);
+  const blocked = await checkBudgets(config, event, history);
+  if (blocked) return { event, plan, blocked, suppressed };
+
+  log(`[Restart] DRY RUN — not executing. ${formatRestartPlan(plan)}`);
+
+  Object.assign(event, { success: true, dryRun: true, rollback: plan.rollback });
+  await history.record(event);
+  return { event, plan, suppressed };
+}
+
+/**
+ * Execute restart based on detection result.
+ * Returns null if there is nothing to restart; otherwise the outcome, with
+ * `blocked` set if a restart budget prevented it.
+ */
+export async function executeRestart(
+  config: Config,
+  detection: DetectionResult,
+  history: RestartHistoryStore,
+  journal: RestartJournalStore,
+  guards: RestartGuards = {},
+  deps: PlanDeps = {},
+): Promise<RestartOutcome | null> {
+  if (!detection.detected || detection.restartScope === 'none') return null;
+
+  const { result, suppressed } = checkSilences(config, detection, guards.silences);
+  if (!result) return { event: newRestartEvent(detection), suppressed };
+
+  let plan: RestartPlan;
+  try {
+    plan = await buildRestartPlan(config, result, deps, guards.silences);
   } catch (err) {
+    const event = newRestartEvent(result);
     event.error = err instanceof Error ? err.message : String(err);
-    log(`[Restart] Failed: ${event.error}`);
+    log(`[Restart] Failed to build restart plan: ${event.error}`);
+    await history.record(event);
+    return { event, suppressed };
   }
 
-  restartHistory.push(event);
-  return event.success;
+  const planSilenced = checkPlanSilences(config, plan, guards.silences);
+  if (planSilenced) return { event: newRestartEvent(result, plan), suppressed: planSilenced };
+
+  // Budgets apply to what will actually run, after any escalation
+  const event = newRestartEvent(result, plan);
+  const blocked = await checkBudgets(config, event, history);
+  if (blocked) return { event, plan, blocked, suppressed };
+
+  log(`[Restart] Initiating ${plan.scope} restart for ${result.condition}: ${result.details}`);
+  event.rollback = plan.rollback;
+  log(`[Restart] ${formatRestartPlan(plan)}`);
+
+  const entry = await journal.begin(randomUUID(), result, plan);
+  await runJournaled(config, entry, journal, event, false, guards.fence);
+
+  await history.record(event);
+  return { event, plan, suppressed };
+}
+
+/** What to do with a run found unfinished in the journal at startup */
+export type InterruptedRestartAction = 'resume' | 'abandon' | 'report-only';
+
+/**
+ * Decide how to handle an unfinished journaled run.
+ *
+ * Recent runs are resumed from the last completed phase. Runs older than
+ * `restartResumeMaxAgeMinutes` are abandoned — the cluster has likely moved
+ * on, and the regular detection cycle will pick the right action. In dry-run
+ * mode nothing is executed or changed.
+ */
+export function interruptedRestartAction(
+  config: Config,
+  entry: RestartJournalEntry,
+  now = Date.now(),
+): InterruptedRestartAction {
+  if (config.dryRun) return 'report-only';
+  const ageMinutes = (now - Date.parse(entry.updatedAt)) / 60_000;
+  return ageMinutes <= config.restartResumeMaxAgeMinutes ? 'resume' : 'abandon';
+}
+
+/**
+ * Handle a run left unfinished by a previous watchdog process.
+ * Returns the outcome if the run was resumed, or abandoned because a
+ * silence now covers it (a half-executed plan cannot be narrowed).
+ */
+export async function handleInterruptedRestart(
+  config: Config,
+  entry: RestartJournalEntry,
+  journal: RestartJournalStore,
+  history: RestartHistoryStore,
+  guards: RestartGuards = {},
+): Promise<RestartOutcome | null> {
+  const action = interruptedRestartAction(config, entry);
+  const progress = `${entry.nextPhase}/${entry.plan.phases.length} phases done`;
+  log(`[Restart] Found unfinished ${entry.plan.scope} run ${entry.runId} (${progress}) — ${action}`);
+
+  if (action === 'abandon') {
+    await journal.update(entry, { status: 'abandoned' });
+    return null;
+  }
+  if (action === 'report-only') return null;
+
+  const suppressed = checkSilences(config, entry.detection, guards.silences).suppressed
+    ?? checkPlanSilences(config, entry.plan, guards.silences);
+  if (suppressed) {
+    log(`[Restart] Not resuming run ${entry.runId}: silenced`);
+    await journal.update(entry, { status: 'abandoned' });
+    return { event: newRestartEvent(entry.detection, entry.plan), suppressed };
+  }
+
+  // Charged to the plan that runs, like a fresh restart
+  const event: RestartEvent = {
+    ...newRestartEvent(entry.detection, entry.plan),
+    rollback: entry.plan.rollback,
+  };
+  await runJournaled(config, entry, journal, event, true, guards.fence);
+
+  await history.record(event);
+  return { event, plan: entry.plan };
 }
 
 /**
  * Get recent restart history (for status page / debugging).
+ * Reads from the persistent store, so it includes other replicas' restarts.
  */
-export function getRestartHistory(): RestartEvent[] {
-  return [...restartHistory];
+export async function getRestartHistory(history: RestartHistoryStore): Promise<RestartEvent[]> {
+  return history.list();
 }
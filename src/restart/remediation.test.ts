@@ -0,0 +1,122 @@
+/**
+ * Remediation Plan Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildRemediationPlan, coveredLayers } from './remediation.js';
+import type { DetectionResult, Layer, RestartScope } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+const ALL_NODES = ['10.0.0.1', '10.0.0.2', '10.0.0.3'];
+
+function makeDetection(
+  condition: string,
+  scope: RestartScope,
+  layers: Layer[],
+  nodes: string[] = ALL_NODES,
+): DetectionResult {
+  return {
+    detected: true,
+    condition,
+    details: `${condition} on ${layers.join(', ')}`,
+    restartScope: scope,
+    affectedNodes: nodes,
+    affectedLayers: layers,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('coveredLayers()', () => {
+  it('covers the metagraph layers for a full metagraph restart', () => {
+    expect(coveredLayers(makeDetection('SnapshotsStopped', 'full-metagraph', ['ml0']))).toEqual(['ml0', 'cl1', 'dl1']);
+  });
+
+  it('covers CL1 and DL1 for a full-layer ML0 restart', () => {
+    expect(coveredLayers(makeDetection('ForkedCluster', 'full-layer', ['ml0']))).toEqual(['ml0', 'cl1', 'dl1']);
+    expect(coveredLayers(makeDetection('ForkedCluster', 'full-layer', ['gl0']))).toEqual(['gl0']);
+  });
+});
+
+describe('buildRemediationPlan()', () => {
+  it('returns null when nothing needs a restart', () => {
+    const detectionOnly: DetectionResult = { detected: true, condition: 'HypergraphHealth', details: '', restartScope: 'none' };
+    expect(buildRemediationPlan([])).toBeNull();
+    expect(buildRemediationPlan([detectionOnly])).toBeNull();
+  });
+
+  it('lets a full metagraph stall win over an earlier individual fork restart', () => {
+    const fork = makeDetection('ForkedCluster', 'individual-node', ['cl1'], ['10.0.0.3']);
+    const stall = makeDetection('SnapshotsStopped', 'full-metagraph', ['ml0', 'cl1', 'dl1']);
+
+    const plan = buildRemediationPlan([fork, stall])!;
+    expect(plan.result.condition).toBe('SnapshotsStopped');
+    expect(plan.result.restartScope).toBe('full-metagraph');
+    expect(plan.contributing).toEqual([stall, fork]);
+    expect(plan.deferred).toEqual([]);
+    expect(plan.result.contributingConditions).toEqual(['SnapshotsStopped', 'ForkedCluster']);
+    expect(plan.result.details).toBe('SnapshotsStopped: SnapshotsStopped on ml0, cl1, dl1; ForkedCluster: ForkedCluster on cl1');
+  });
+
+  it('merges individual-node restarts into one', () => {
+    const fork = makeDetection('ForkedCluster', 'individual-node', ['gl0'], ['10.0.0.3']);
+    const lag = makeDetection('NodeLagging', 'individual-node', ['gl0'], ['10.0.0.2']);
+    const unhealthy = makeDetection('UnhealthyNodes', 'individual-node', ['dl1'], ['10.0.0.3']);
+
+    const plan = buildRemediationPlan([fork, lag, unhealthy])!;
+    expect(plan.result.condition).toBe('ForkedCluster');
+    expect(plan.result.restartScope).toBe('individual-node');
+    expect(plan.result.affectedNodes).toEqual(['10.0.0.3', '10.0.0.2']);
+    expect(plan.result.affectedLayers).toEqual(['gl0', 'dl1']);
+    expect(plan.contributing).toHaveLength(3);
+  });
+
+  it('keeps the node + layer pairs of merged individual restarts', () => {
+    const unhealthy = makeDetection('UnhealthyNodes', 'individual-node', ['dl1'], ['10.0.0.1']);
+    const lag = makeDetection('NodeLagging', 'individual-node', ['ml0'], ['10.0.0.2']);
+
+    const plan = buildRemediationPlan([unhealthy, lag])!;
+    expect(plan.result.affectedTargets).toEqual([
+      { nodeIp: '10.0.0.1', layer: 'dl1' },
+      { nodeIp: '10.0.0.2', layer: 'ml0' },
+    ]);
+    expect(plan.result.affectedNodes).toEqual(['10.0.0.1', '10.0.0.2']);
+    expect(plan.result.affectedLayers).toEqual(['dl1', 'ml0']);
+  });
+
+  it('merges full-layer restarts and subsumes individual ones on those layers', () => {
+    const gl0 = makeDetection('UnhealthyNodes', 'full-layer', ['gl0']);
+    const dl1 = makeDetection('SnapshotsStopped', 'full-layer', ['dl1']);
+    const lag = makeDetection('NodeLagging', 'individual-node', ['dl1'], ['10.0.0.1']);
+
+    const plan = buildRemediationPlan([lag, gl0, dl1])!;
+    expect(plan.result.condition).toBe('UnhealthyNodes');
+    expect(plan.result.affectedLayers).toEqual(['gl0', 'dl1']);
+    expect(plan.contributing.map(d => d.condition)).toEqual(['UnhealthyNodes', 'NodeLagging', 'SnapshotsStopped']);
+    expect(plan.deferred).toEqual([]);
+  });
+
+  it('defers narrower restarts on layers the merged restart leaves alone', () => {
+    const stall = makeDetection('SnapshotsStopped', 'full-metagraph', ['ml0', 'cl1', 'dl1']);
+    const fork = makeDetection('ForkedCluster', 'individual-node', ['gl0'], ['10.0.0.2']);
+
+    const plan = buildRemediationPlan([fork, stall])!;
+    expect(plan.contributing).toEqual([stall]);
+    expect(plan.deferred).toEqual([fork]);
+    expect(plan.result.details).toBe(stall.details);
+  });
+
+  it('does not restart CL1 and DL1 twice alongside a full-layer ML0 restart', () => {
+    const ml0 = makeDetection('ForkedCluster', 'full-layer', ['ml0']);
+    const cl1 = makeDetection('SnapshotDivergence', 'full-layer', ['cl1']);
+
+    const plan = buildRemediationPlan([ml0, cl1])!;
+    expect(plan.result.affectedLayers).toEqual(['ml0']);
+    expect(plan.contributing).toEqual([ml0, cl1]);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Remediation Plan
+ *
+ * Every check cycle evaluates all conditions, and their restartable
+ * detections are merged here into the one restart the cycle performs, so
+ * condition order no longer decides the action (a fork's individual-node
+ * restart can't pre-empt the full metagraph restart a stall needs):
+ * - the broadest scope leads: full-metagraph > full-layer > individual-node
+ * - detections at the lead's scope merge (union of layers, and of nodes;
+ *   individual-node restarts keep their exact node + layer pairs)
+ * - narrower detections whose layers the restart takes down are subsumed
+ *   (a full-layer ML0 restart is a full metagraph restart, so it covers
+ *   CL1/DL1 too)
+ * - anything else is deferred; it is detected again next cycle
+ *
+ * This is a PURE FUNCTION module.
+ */
+
+import { METAGRAPH_LAYERS, type DetectionResult, type Layer, type RestartScope, type RestartTarget } from '../types.js';
+
+const SCOPE_RANK: Record<RestartScope, number> = {
+  'none': 0,
+  'individual-node': 1,
+  'full-layer': 2,
+  'full-metagraph': 3,
+};
+
+export interface RemediationPlan {
+  /** The merged restart; `condition` is the lead detection's */
+  result: DetectionResult;
+  /** Detections the restart covers, lead first */
+  contributing: DetectionResult[];
+  /** Restartable detections the restart does not cover */
+  deferred: DetectionResult[];
+}
+
+function unique<T>(items: T[]): T[] {
+  return [...new Set(items)];
+}
+
+/**
+ * Node + layer pairs an individual-node restart acts on: its exact targets,
+ * or every affected node on every affected layer.
+ */
+export function individualTargets(result: DetectionResult): RestartTarget[] {
+  if (result.affectedTargets) return result.affectedTargets;
+  const layers = result.affectedLayers ?? [];
+  return (result.affectedNodes ?? []).flatMap(nodeIp => layers.map(layer => ({ nodeIp, layer })));
+}
+
+/**
+ * Layers a restart takes down.
+ */
+export function coveredLayers(result: DetectionResult): Layer[] {
+  const layers = result.affectedLayers ?? [];
+  switch (result.restartScope) {
+    case 'full-metagraph':
+      return [...METAGRAPH_LAYERS];
+    case 'full-layer':
+      // The planner turns a full-layer ML0 restart into a full metagraph restart
+      return layers.includes('ml0') ? unique([...layers, ...METAGRAPH_LAYERS]) : layers;
+    default:
+      return layers;
+  }
+}
+
+/**
+ * Merge a cycle's detections into one restart. Returns null if none of
+ * them needs a restart. Input order (condition priority) breaks scope ties.
+ */
+export function buildRemediationPlan(detections: DetectionResult[]): RemediationPlan | null {
+  const restartable = detections.filter(d => d.detected && d.restartScope !== 'none');
+  if (restartable.length === 0) return null;
+
+  const lead = restartable.reduce((best, d) => SCOPE_RANK[d.restartScope] > SCOPE_RANK[best.restartScope] ? d : best);
+  const peers = restartable.filter(d => d.restartScope === lead.restartScope);
+
+  let layers = unique(peers.flatMap(d => d.affectedLayers ?? []));
+  if (lead.restartScope === 'full-layer' && layers.includes('ml0')) {
+    // CL1/DL1 restart along with ML0; listing them again would restart them twice
+    layers = layers.filter(l => l !== 'cl1' && l !== 'dl1');
+  }
+  const merged: DetectionResult = {
+    ...lead,
+    affectedNodes: unique(peers.flatMap(d => d.affectedNodes ?? [])),
+    affectedLayers: layers,
+  };
+  if (lead.restartScope === 'individual-node') {
+    // Unioning nodes and layers would restart their cross product
+    const targets = new Map(peers.flatMap(individualTargets).map(t => [`${t.layer}@${t.nodeIp}`, t]));
+    merged.affectedTargets = [...targets.values()];
+    merged.affectedNodes = unique(merged.affectedTargets.map(t => t.nodeIp));
+    merged.affectedLayers = unique(merged.affectedTargets.map(t => t.layer));
+  }
+
+  const covered = coveredLayers(merged);
+  const contributing: DetectionResult[] = [lead];
+  const deferred: DetectionResult[] = [];
+  for (const d of restartable) {
+    if (d === lead) continue;
+    const subsumed = (d.affectedLayers ?? []).every(l => covered.includes(l));
+    (d.restartScope === lead.restartScope || subsumed ? contributing : deferred).push(d);
+  }
+
+  merged.contributingConditions = unique(contributing.map(d => d.condition));
+  if (contributing.length > 1) {
+    merged.details = contributing.map(d => `${d.condition}: ${d.details}`).join('; ');
+  }
+  return { result: merged, contributing, deferred };
+}
+
+/**
+ * One-line summary of a plan for logs.
+ */
+export function describeRemediationPlan(plan: RemediationPlan): string {
+  const { result, contributing, deferred } = plan;
+  const targets = result.affectedTargets
+    ? result.affectedTargets.map(t => `${t.layer} on ${t.nodeIp}`).join(', ')
+    : `${(result.affectedLayers ?? []).join(', ') || 'no layers'} on ${(result.affectedNodes ?? []).join(', ') || 'no nodes'}`;
+  const from = contributing.map(d => `${d.condition} (${d.restartScope})`).join(', ');
+  const later = deferred.length > 0 ? `; deferred: ${deferred.map(d => `${d.condition} (${d.restartScope})`).join(', ')}` : '';
+  return `${result.restartScope} restart of ${targets} for ${from}${later}`;
+}
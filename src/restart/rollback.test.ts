@@ -0,0 +1,148 @@
+/**
+ * Rollback Node Selection Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { pickRollbackNode, collectRollbackCandidates } from './rollback.js';
+import type { Config } from '../config.js';
+import type { RollbackCandidate } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function makeConfig(nodeCount: number = 3): Config {
+  return {
+    nodes: Array.from({ length: nodeCount }, (_, i) => ({
+      ip: `10.0.0.${i + 1}`,
+      name: `node${i + 1}`,
+    })),
+    ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+    controller: 'ssh',
+    dockerSocketPath: '/var/run/docker.sock',
+    sshKeyPath: '/test/key',
+    sshUser: 'test',
+    cliPorts: { gl0: 9001, ml0: 9201, cl1: 9301, dl1: 9401 },
+    p2pPorts: { gl0: 9010, ml0: 9210, cl1: 9310, dl1: 9410 },
+    snapshotStallMinutes: 4,
+    snapshotStalls: {
+      gl0: { minutes: 4, scope: 'full-layer' },
+      ml0: { minutes: 4, scope: 'full-metagraph' },
+      cl1: { minutes: 10, scope: 'full-layer' },
+      dl1: { minutes: 10, scope: 'full-layer' },
+    },
+    nodeLagThresholds: { gl0: 20, ml0: 20, cl1: 20, dl1: 20 },
+    nodeLagReference: 'median',
+    nodeLagSustainSeconds: 180,
+    statePolicy: { timeouts: { WaitingForDownload: 0, DownloadInProgress: 0, Leaving: 0, Offline: 0, Unreachable: 0 }, defaultSeconds: 600 },
+    healthCheckIntervalSeconds: 60,
+    healthUpdates: { mode: 'poll', channel: 'monitor:health:updated', minIntervalSeconds: 10 },
+    restartCooldownMinutes: 10,
+    maxRestartsPerHour: 6,
+    conditions: {},
+    conditionModules: [],
+    restartBudgets: [],
+    confirmationRules: [],
+    recoveryCycles: 1,
+    escalation: { ladder: ['individual-node', 'full-layer', 'full-metagraph'], attemptsPerStep: 2 },
+    maintenanceWindows: [],
+    verifySettleSeconds: 0,
+    restartResumeMaxAgeMinutes: 30,
+    instanceId: 'test',
+    leaderElection: false,
+    leaderLeaseSeconds: 180,
+    redisUrl: 'redis://localhost:6379',
+    postgresUrl: '',
+    healthDataStaleSeconds: 60,
+    snapshotHistoryRetentionHours: 24,
+    daemon: false,
+    once: false,
+    dryRun: false,
+  };
+}
+
+function candidate(n: number, ordinal: number, hash?: string): RollbackCandidate {
+  return { nodeIp: `10.0.0.${n}`, ordinal, lastSnapshotHash: hash };
+}
+
+// ---------------------------------------------------------------------------
+// pickRollbackNode tests (pure function)
+// ---------------------------------------------------------------------------
+
+describe('pickRollbackNode()', () => {
+  it('picks the node with the highest ML0 ordinal', () => {
+    const choice = pickRollbackNode(makeConfig(), [
+      candidate(1, 100, 'a'),
+      candidate(2, 105, 'b'),
+      candidate(3, 101, 'c'),
+    ]);
+    expect(choice.nodeIp).toBe('10.0.0.2');
+    expect(choice.nodeIndex).toBe(1);
+    expect(choice.ordinal).toBe(105);
+  });
+
+  it('prefers the majority hash among nodes at the highest ordinal', () => {
+    const choice = pickRollbackNode(makeConfig(), [
+      candidate(1, 200, 'forked'),
+      candidate(2, 200, 'main'),
+      candidate(3, 200, 'main'),
+    ]);
+    expect(choice.nodeIp).toBe('10.0.0.2');
+    expect(choice.lastSnapshotHash).toBe('main');
+    expect(choice.reason).toContain('2/3');
+  });
+
+  it('does not pick a lone node ahead of agreeing peers', () => {
+    const choice = pickRollbackNode(makeConfig(), [
+      candidate(1, 100, 'main'),
+      candidate(2, 105, 'forked'),
+      candidate(3, 100, 'main'),
+    ]);
+    expect(choice.nodeIp).toBe('10.0.0.1');
+    expect(choice.ordinal).toBe(100);
+    expect(choice.reason).toContain('ignoring 1 uncorroborated node(s) ahead');
+  });
+
+  it('breaks ties by lowest node index', () => {
+    const choice = pickRollbackNode(makeConfig(), [
+      candidate(1, 50, 'x'),
+      candidate(2, 80, 'y'),
+      candidate(3, 80, 'z'),
+    ]);
+    expect(choice.nodeIp).toBe('10.0.0.2');
+  });
+
+  it('ignores unreachable nodes', () => {
+    const choice = pickRollbackNode(makeConfig(), [
+      candidate(1, -1),
+      candidate(2, -1),
+      candidate(3, 42, 'h'),
+    ]);
+    expect(choice.nodeIp).toBe('10.0.0.3');
+  });
+
+  it('falls back to node 0 when no ordinals are known', () => {
+    const candidates = [candidate(1, -1), candidate(2, -1), candidate(3, -1)];
+    const choice = pickRollbackNode(makeConfig(), candidates);
+    expect(choice.nodeIndex).toBe(0);
+    expect(choice.reason).toContain('defaulting to node 0');
+    expect(choice.candidates).toEqual(candidates);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// collectRollbackCandidates tests
+// ---------------------------------------------------------------------------
+
+describe('collectRollbackCandidates()', () => {
+  it('reports failed fetches as unreachable', async () => {
+    const candidates = await collectRollbackCandidates(makeConfig(2), async (ip) => {
+      if (ip === '10.0.0.2') throw new Error('ECONNREFUSED');
+      return { ordinal: 7, lastSnapshotHash: 'h7' };
+    });
+    expect(candidates).toEqual([
+      { nodeIp: '10.0.0.1', ordinal: 7, lastSnapshotHash: 'h7' },
+      { nodeIp: '10.0.0.2', ordinal: -1 },
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Rollback Node Selection
+ *
+ * Before a full metagraph restart kills anything, collects each node's ML0
+ * ordinal and last snapshot hash and picks the most advanced consistent node
+ * as the rollback/genesis node, so the metagraph never restarts on stale state.
+ *
+ * "Consistent" means at least one peer reports the same ordinal and last
+ * snapshot hash. A lone node ahead of agreeing peers may be on a fork, so
+ * the highest group that agrees wins over it; only when no two nodes agree
+ * does the highest ordinal win unverified.
+ */
+
+import type { Config } from '../config.js';
+import type { RollbackCandidate, RollbackChoice } from '../types.js';
+import { getLatestSnapshotRef, type SnapshotRef } from '../services/node-api.js';
+import { log } from '../logger.js';
+
+/** Snapshot fetch type for dependency injection in tests */
+export type SnapshotRefFetchFn = (ip: string, port: number) => Promise<SnapshotRef>;
+
+/** Default fetch using node-api */
+export const defaultSnapshotRefFetch: SnapshotRefFetchFn = (ip, port) =>
+  getLatestSnapshotRef(ip, port, 'ml0');
+
+/**
+ * Collect ML0 ordinal + last snapshot hash from every configured node.
+ * Unreachable nodes are reported with ordinal -1.
+ */
+export async function collectRollbackCandidates(
+  config: Config,
+  fetchFn: SnapshotRefFetchFn = defaultSnapshotRefFetch,
+): Promise<RollbackCandidate[]> {
+  return Promise.all(config.nodes.map(async n => {
+    try {
+      const ref = await fetchFn(n.ip, config.ports.ml0);
+      return { nodeIp: n.ip, ordinal: ref.ordinal, lastSnapshotHash: ref.lastSnapshotHash };
+    } catch {
+      return { nodeIp: n.ip, ordinal: -1 };
+    }
+  }));
+}
+
+/**
+ * Pick the rollback node from collected candidates.
+ *
+ * This is a PURE FUNCTION. Falls back to node 0 when no ML0 ordinal is known.
+ */
+export function pickRollbackNode(
+  config: Config,
+  candidates: RollbackCandidate[],
+): RollbackChoice {
+  const indexOf = (ip: string) => config.nodes.findIndex(n => n.ip === ip);
+  const known = candidates.filter(c => c.ordinal >= 0 && indexOf(c.nodeIp) >= 0);
+
+  if (known.length === 0) {
+    return {
+      nodeIp: config.nodes[0].ip,
+      nodeIndex: 0,
+      ordinal: -1,
+      reason: 'no ML0 ordinals available — defaulting to node 0',
+      candidates,
+    };
+  }
+
+  const topOrdinal = Math.max(...known.map(c => c.ordinal));
+
+  // Group by ordinal + hash; a group of two or more (with a known hash) is corroborated
+  const groups = new Map<string, RollbackCandidate[]>();
+  for (const c of known) {
+    const key = `${c.ordinal}:${c.lastSnapshotHash ?? ''}`;
+    groups.set(key, [...(groups.get(key) ?? []), c]);
+  }
+  const agreeing = [...groups.values()].filter(g => g.length >= 2 && g[0].lastSnapshotHash !== undefined);
+
+  // Highest ordinal first, then the largest group, then the lowest node index
+  const winner = [...(agreeing.length > 0 ? agreeing : groups.values())].sort((a, b) =>
+    b[0].ordinal - a[0].ordinal
+    || b.length - a.length
+    || Math.min(...a.map(c => indexOf(c.nodeIp))) - Math.min(...b.map(c => indexOf(c.nodeIp)))
+  )[0];
+
+  const chosen = [...winner].sort((a, b) => indexOf(a.nodeIp) - indexOf(b.nodeIp))[0];
+  const atOrdinal = known.filter(c => c.ordinal === chosen.ordinal).length;
+  const ahead = known.filter(c => c.ordinal > chosen.ordinal).length;
+
+  let reason: string;
+  if (agreeing.length === 0) {
+    reason = `highest ML0 ordinal ${topOrdinal} (no two nodes agree on ordinal and hash — unverified)`;
+  } else {
+    reason = `highest ML0 ordinal peers agree on, ${chosen.ordinal} (${winner.length}/${atOrdinal} nodes at that ordinal agree on hash)`;
+    if (ahead > 0) reason += `; ignoring ${ahead} uncorroborated node(s) ahead, up to ordinal ${topOrdinal}`;
+  }
+
+  return {
+    nodeIp: chosen.nodeIp,
+    nodeIndex: indexOf(chosen.nodeIp),
+    ordinal: chosen.ordinal,
+    lastSnapshotHash: chosen.lastSnapshotHash,
+    reason,
+    candidates,
+  };
+}
+
+/**
+ * Collect candidates and pick the rollback node.
+ */
+export async function selectRollbackNode(
+  config: Config,
+  fetchFn: SnapshotRefFetchFn = defaultSnapshotRefFetch,
+): Promise<RollbackChoice> {
+  const candidates = await collectRollbackCandidates(config, fetchFn);
+  for (const c of candidates) {
+    log(`[Rollback]   ${c.nodeIp}: ML0 ordinal=${c.ordinal} lastSnapshotHash=${c.lastSnapshotHash ?? 'n/a'}`);
+  }
+
+  const choice = pickRollbackNode(config, candidates);
+  log(`[Rollback] Selected ${choice.nodeIp} as rollback node — ${choice.reason}`);
+  return choice;
+}
@@ -0,0 +1,144 @@
+/**
+ * Silence and Maintenance Window Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applySilences, maintenanceWindowSilences, silenceActive } from './silences.js';
+import type { Config, MaintenanceWindow } from '../config.js';
+import type { DetectionResult, Layer, RestartScope, Silence } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+/** Sunday 2026-03-01 12:00 UTC */
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+const config = {
+  nodes: [
+    { name: 'node1', ip: '10.0.0.1' },
+    { name: 'node2', ip: '10.0.0.2' },
+    { name: 'node3', ip: '10.0.0.3' },
+  ],
+} as Config;
+
+function makeSilence(overrides: Partial<Silence> = {}): Silence {
+  return {
+    id: 's1',
+    startsAt: new Date(NOW - 60_000).toISOString(),
+    endsAt: new Date(NOW + 60 * 60_000).toISOString(),
+    reason: 'upgrade',
+    ...overrides,
+  };
+}
+
+function makeDetection(scope: RestartScope, nodes: string[], layers: Layer[]): DetectionResult {
+  return {
+    detected: true,
+    condition: 'UnhealthyNodes',
+    details: 'test',
+    restartScope: scope,
+    affectedNodes: nodes,
+    affectedLayers: layers,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('silenceActive()', () => {
+  it('is active between start and end only', () => {
+    const s = makeSilence();
+    expect(silenceActive(s, NOW)).toBe(true);
+    expect(silenceActive(s, NOW - 120_000)).toBe(false);
+    expect(silenceActive(s, NOW + 60 * 60_000)).toBe(false);
+  });
+});
+
+describe('maintenanceWindowSilences()', () => {
+  const weekly: MaintenanceWindow = { name: 'weekly', days: [0], start: '11:30', durationMinutes: 60, layer: 'dl1' };
+
+  it('opens on matching days within the window', () => {
+    const [silence] = maintenanceWindowSilences([weekly], NOW);
+    expect(silence).toMatchObject({
+      id: 'window:weekly:2026-03-01T11:30:00.000Z',
+      endsAt: '2026-03-01T12:30:00.000Z',
+      layer: 'dl1',
+      reason: 'Maintenance window weekly',
+    });
+  });
+
+  it('stays closed outside the window or on other days', () => {
+    expect(maintenanceWindowSilences([{ ...weekly, start: '13:00' }], NOW)).toEqual([]);
+    expect(maintenanceWindowSilences([{ ...weekly, days: [1, 2] }], NOW)).toEqual([]);
+  });
+
+  it('handles windows spanning midnight', () => {
+    // Saturday 23:00 + 14h is still open on Sunday at 12:00
+    const overnight: MaintenanceWindow = { name: 'overnight', days: [6], start: '23:00', durationMinutes: 14 * 60 };
+    expect(maintenanceWindowSilences([overnight], NOW)).toHaveLength(1);
+  });
+});
+
+describe('applySilences()', () => {
+  it('passes detections through when nothing is silenced', () => {
+    const result = makeDetection('individual-node', ['10.0.0.2'], ['dl1']);
+    expect(applySilences(config, [], result, NOW)).toEqual({ result, suppression: null });
+    expect(applySilences(config, [makeSilence({ node: 'node3' })], result, NOW).suppression).toBeNull();
+  });
+
+  it('ignores silences for other conditions and inactive silences', () => {
+    const result = makeDetection('individual-node', ['10.0.0.2'], ['dl1']);
+    const silences = [
+      makeSilence({ condition: 'ForkedCluster' }),
+      makeSilence({ startsAt: new Date(NOW + 60_000).toISOString() }),
+    ];
+    expect(applySilences(config, silences, result, NOW).suppression).toBeNull();
+  });
+
+  it('suppresses everything with a whole-metagraph silence', () => {
+    const decision = applySilences(config, [makeSilence()], makeDetection('full-metagraph', [], []), NOW);
+    expect(decision.result).toBeNull();
+    expect(decision.suppression?.partial).toBe(false);
+    expect(decision.suppression?.targets).toHaveLength(9);
+  });
+
+  it('skips silenced nodes (by name or IP) and restarts the rest', () => {
+    const result = makeDetection('individual-node', ['10.0.0.2', '10.0.0.3'], ['dl1']);
+    const decision = applySilences(config, [makeSilence({ node: 'node2' })], result, NOW);
+
+    expect(decision.result?.affectedNodes).toEqual(['10.0.0.3']);
+    expect(decision.suppression).toMatchObject({ partial: true, targets: [{ nodeIp: '10.0.0.2', layer: 'dl1' }] });
+  });
+
+  it('drops only the silenced node + layer pairs', () => {
+    const result = makeDetection('individual-node', ['10.0.0.2', '10.0.0.3'], ['cl1', 'dl1']);
+    const decision = applySilences(config, [makeSilence({ node: 'node2', layer: 'dl1' })], result, NOW);
+
+    expect(decision.result?.affectedTargets).toEqual([
+      { nodeIp: '10.0.0.2', layer: 'cl1' },
+      { nodeIp: '10.0.0.3', layer: 'cl1' },
+      { nodeIp: '10.0.0.3', layer: 'dl1' },
+    ]);
+    expect(decision.suppression?.partial).toBe(true);
+  });
+
+  it('suppresses an individual restart when all its targets are silenced', () => {
+    const result = makeDetection('individual-node', ['10.0.0.2'], ['dl1']);
+    expect(applySilences(config, [makeSilence({ layer: 'dl1' })], result, NOW).result).toBeNull();
+  });
+
+  it('suppresses layer restarts touching any silenced node', () => {
+    const result = makeDetection('full-layer', ['10.0.0.1'], ['cl1']);
+    const decision = applySilences(config, [makeSilence({ node: '10.0.0.3', layer: 'cl1' })], result, NOW);
+
+    expect(decision.result).toBeNull();
+    expect(decision.suppression?.targets).toEqual([{ nodeIp: '10.0.0.3', layer: 'cl1' }]);
+  });
+
+  it('treats a full ML0 layer restart as touching the L1 layers', () => {
+    const result = makeDetection('full-layer', [], ['ml0']);
+    expect(applySilences(config, [makeSilence({ layer: 'dl1' })], result, NOW).result).toBeNull();
+  });
+});
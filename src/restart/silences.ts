@@ -0,0 +1,194 @@
+/**
+ * Silences and Maintenance Windows
+ *
+ * Decides which restart targets (node + layer) are covered by an active
+ * silence. Individual-node restarts drop silenced targets and restart the
+ * rest (as exact node + layer pairs); layer and metagraph restarts cannot
+ * be split, so any silenced target suppresses the whole restart. Built plans
+ * are checked again, since planning can escalate past the detection's
+ * targets.
+ *
+ * Recurring maintenance windows from config are expanded into silences for
+ * the current time.
+ *
+ * This is a PURE MODULE — silences are passed in, nothing is read or written.
+ */
+
+import type { Config, MaintenanceWindow } from '../config.js';
+import type { DetectionResult, Layer, RestartPlan, RestartTarget, Silence } from '../types.js';
+import { METAGRAPH_LAYERS } from '../types.js';
+import { individualTargets } from './remediation.js';
+
+/** Targets skipped because of silences */
+export interface Suppression {
+  silences: Silence[];
+  targets: RestartTarget[];
+  /** True if only some targets were skipped and the rest still restart */
+  partial: boolean;
+}
+
+export interface SilenceDecision {
+  /** Detection to act on (narrowed if partial), or null if fully suppressed */
+  result: DetectionResult | null;
+  suppression: Suppression | null;
+}
+
+export function silenceActive(silence: Silence, now = Date.now()): boolean {
+  return Date.parse(silence.startsAt) <= now && now < Date.parse(silence.endsAt);
+}
+
+/**
+ * Silences for the maintenance windows open at `now`.
+ * Windows may span midnight; each occurrence gets a stable id per start time.
+ */
+export function maintenanceWindowSilences(windows: MaintenanceWindow[], now = Date.now()): Silence[] {
+  const silences: Silence[] = [];
+  const today = new Date(now);
+  today.setUTCHours(0, 0, 0, 0);
+
+  for (const w of windows) {
+    const [hours, minutes] = w.start.split(':').map(Number);
+    const spanDays = Math.ceil((hours * 60 + minutes + w.durationMinutes) / 1440);
+
+    for (let back = 0; back < spanDays; back++) {
+      const day = new Date(today.getTime() - back * 86_400_000);
+      if (w.days && !w.days.includes(day.getUTCDay())) continue;
+
+      const start = day.getTime() + (hours * 60 + minutes) * 60_000;
+      const end = start + w.durationMinutes * 60_000;
+      if (start <= now && now < end) {
+        silences.push({
+          id: `window:${w.name}:${new Date(start).toISOString()}`,
+          startsAt: new Date(start).toISOString(),
+          endsAt: new Date(end).toISOString(),
+          reason: w.reason ?? `Maintenance window ${w.name}`,
+          createdBy: 'config',
+          node: w.node,
+          layer: w.layer,
+          condition: w.condition,
+        });
+        break;
+      }
+    }
+  }
+
+  return silences;
+}
+
+/** Node + layer pairs a restart of this detection would act on */
+function restartTargets(config: Config, result: DetectionResult): RestartTarget[] {
+  const everyNode = (layers: Layer[]) => config.nodes.flatMap(n => layers.map(layer => ({ nodeIp: n.ip, layer })));
+  const layers = result.affectedLayers ?? [];
+
+  switch (result.restartScope) {
+    case 'individual-node':
+      return individualTargets(result);
+    case 'full-layer':
+      // A full ML0 restart escalates to the whole metagraph
+      return everyNode(layers.includes('ml0') ? METAGRAPH_LAYERS : layers);
+    case 'full-metagraph':
+      return everyNode(METAGRAPH_LAYERS);
+    default:
+      return [];
+  }
+}
+
+function silenceCovers(config: Config, silence: Silence, target: RestartTarget): boolean {
+  if (silence.layer && silence.layer !== target.layer) return false;
+  if (silence.node) {
+    const name = config.nodes.find(n => n.ip === target.nodeIp)?.name;
+    if (silence.node !== target.nodeIp && silence.node !== name) return false;
+  }
+  return true;
+}
+
+/** Split targets into silenced and kept ones, with the silences that matched */
+function splitTargets(
+  config: Config,
+  active: Silence[],
+  targets: RestartTarget[],
+): { silenced: RestartTarget[]; kept: RestartTarget[]; matched: Silence[] } {
+  const silenced: RestartTarget[] = [];
+  const kept: RestartTarget[] = [];
+  const matched = new Set<Silence>();
+  for (const target of targets) {
+    const by = active.filter(s => silenceCovers(config, s, target));
+    (by.length > 0 ? silenced : kept).push(target);
+    by.forEach(s => matched.add(s));
+  }
+  return { silenced, kept, matched: [...matched] };
+}
+
+/** Active silences that apply to a condition */
+function activeFor(silences: Silence[], condition: string, now: number): Silence[] {
+  return silences.filter(s => silenceActive(s, now) && (!s.condition || s.condition === condition));
+}
+
+/**
+ * Whether a target is silenced for a condition (e.g. so planning does not
+ * pick a node under maintenance as the join reference).
+ */
+export function isSilenced(
+  config: Config,
+  silences: Silence[],
+  condition: string,
+  target: RestartTarget,
+  now = Date.now(),
+): boolean {
+  return activeFor(silences, condition, now).some(s => silenceCovers(config, s, target));
+}
+
+/**
+ * Check a built plan against active silences. A plan cannot be narrowed, so
+ * any silenced node + layer it kills or starts suppresses all of it — this
+ * catches escalations (e.g. no healthy reference → full layer) that would
+ * reach a node the detection's silences had dropped.
+ */
+export function planSuppression(
+  config: Config,
+  silences: Silence[],
+  plan: RestartPlan,
+  now = Date.now(),
+): Suppression | null {
+  const active = activeFor(silences, plan.condition, now);
+  if (active.length === 0) return null;
+
+  const targets = new Map<string, RestartTarget>();
+  for (const s of plan.phases.flatMap(p => p.steps)) {
+    if (s.action === 'kill' || s.action === 'start') targets.set(`${s.layer}@${s.nodeIp}`, { nodeIp: s.nodeIp, layer: s.layer });
+  }
+
+  const { silenced, matched } = splitTargets(config, active, [...targets.values()]);
+  return silenced.length > 0 ? { silences: matched, targets: silenced, partial: false } : null;
+}
+
+/**
+ * Apply active silences to a detection.
+ */
+export function applySilences(
+  config: Config,
+  silences: Silence[],
+  result: DetectionResult,
+  now = Date.now(),
+): SilenceDecision {
+  const active = activeFor(silences, result.condition, now);
+  if (active.length === 0) return { result, suppression: null };
+
+  const { silenced, kept, matched } = splitTargets(config, active, restartTargets(config, result));
+  if (silenced.length === 0) return { result, suppression: null };
+
+  if (result.restartScope !== 'individual-node' || kept.length === 0) {
+    return { result: null, suppression: { silences: matched, targets: silenced, partial: false } };
+  }
+
+  // Restart exactly the unsilenced node + layer pairs
+  return {
+    result: {
+      ...result,
+      affectedNodes: [...new Set(kept.map(t => t.nodeIp))],
+      affectedLayers: [...new Set(kept.map(t => t.layer))],
+      affectedTargets: kept,
+    },
+    suppression: { silences: matched, targets: silenced, partial: true },
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Post-Restart Verification Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyVerification, verifyRestart } from './verification.js';
+import type { Config } from '../config.js';
+import type { DetectionResult, HealthSnapshot, RestartScope } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function makeDetection(scope: RestartScope, nodes: string[] = ['10.0.0.2'], detected = true): DetectionResult {
+  return {
+    detected,
+    condition: 'UnhealthyNodes',
+    details: detected ? 'DL1 unhealthy' : '',
+    restartScope: detected ? scope : 'none',
+    affectedNodes: detected ? nodes : undefined,
+    affectedLayers: detected ? ['dl1'] : undefined,
+  };
+}
+
+const emptySnapshot: HealthSnapshot = { timestamp: new Date(), nodes: [], stale: false, source: 'redis' };
+
+const config = { verifySettleSeconds: 0 } as Config;
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('classifyVerification()', () => {
+  it('is verified when the condition cleared', () => {
+    expect(classifyVerification(makeDetection('individual-node'), makeDetection('none', [], false))).toBe('verified');
+  });
+
+  it('is ineffective when the same condition persists', () => {
+    expect(classifyVerification(makeDetection('individual-node'), makeDetection('individual-node'))).toBe('ineffective');
+  });
+
+  it('is worse when a broader restart is now needed', () => {
+    expect(classifyVerification(makeDetection('individual-node'), makeDetection('full-layer'))).toBe('worse');
+  });
+
+  it('is worse when more nodes are affected', () => {
+    const after = makeDetection('individual-node', ['10.0.0.2', '10.0.0.3']);
+    expect(classifyVerification(makeDetection('individual-node'), after)).toBe('worse');
+  });
+
+  it('is ineffective when fewer nodes remain affected', () => {
+    const before = makeDetection('individual-node', ['10.0.0.2', '10.0.0.3']);
+    expect(classifyVerification(before, makeDetection('individual-node'))).toBe('ineffective');
+  });
+});
+
+describe('verifyRestart()', () => {
+  it('re-runs the detector against a fresh snapshot', async () => {
+    const seen: HealthSnapshot[] = [];
+    const result = await verifyRestart(
+      config,
+      makeDetection('individual-node'),
+      (snap) => { seen.push(snap); return makeDetection('none', [], false); },
+      async () => emptySnapshot,
+    );
+
+    expect(seen).toEqual([emptySnapshot]);
+    expect(result.status).toBe('verified');
+  });
+
+  it('treats a failed re-check as ineffective', async () => {
+    const result = await verifyRestart(
+      config,
+      makeDetection('individual-node'),
+      () => makeDetection('none', [], false),
+      async () => { throw new Error('redis down'); },
+    );
+
+    expect(result.status).toBe('ineffective');
+    expect(result.after.details).toContain('redis down');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Post-Restart Verification
+ *
+ * After a restart, waits for a settle period, takes a fresh HealthSnapshot
+ * and re-runs the detector that fired. The outcome tells us whether the
+ * restart actually fixed the problem:
+ * - verified: the condition is gone
+ * - ineffective: the condition is still present at the same or narrower scope
+ * - worse: the condition now needs a broader restart or affects more nodes
+ */
+
+import type { Config } from '../config.js';
+import type { DetectionResult, HealthSnapshot, RestartScope } from '../types.js';
+import { log } from '../logger.js';
+
+export type VerificationStatus = 'verified' | 'ineffective' | 'worse';
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  /** Detection that triggered the restart */
+  before: DetectionResult;
+  /** Detection re-run after the settle period */
+  after: DetectionResult;
+  settleSeconds: number;
+}
+
+/** Detector re-run against a fresh snapshot */
+export type RedetectFn = (snapshot: HealthSnapshot) => DetectionResult | Promise<DetectionResult>;
+
+const SCOPE_RANK: Record<RestartScope, number> = {
+  'none': 0,
+  'individual-node': 1,
+  'full-layer': 2,
+  'full-metagraph': 3,
+};
+
+/**
+ * Classify the post-restart detection against the original one.
+ *
+ * This is a PURE FUNCTION.
+ */
+export function classifyVerification(before: DetectionResult, after: DetectionResult): VerificationStatus {
+  if (!after.detected) return 'verified';
+
+  const broader = SCOPE_RANK[after.restartScope] > SCOPE_RANK[before.restartScope];
+  const moreNodes = (after.affectedNodes?.length ?? 0) > (before.affectedNodes?.length ?? 0);
+  return broader || moreNodes ? 'worse' : 'ineffective';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Wait for the settle period, then re-run the detector on a fresh snapshot.
+ */
+export async function verifyRestart(
+  config: Config,
+  before: DetectionResult,
+  redetect: RedetectFn,
+  readSnapshot: () => Promise<HealthSnapshot>,
+): Promise<VerificationResult> {
+  const settleSeconds = config.verifySettleSeconds;
+  log(`[Verify] Waiting ${settleSeconds}s before re-checking ${before.condition}`);
+  await sleep(settleSeconds * 1000);
+
+  let after: DetectionResult;
+  try {
+    const snapshot = await readSnapshot();
+    after = await redetect(snapshot);
+  } catch (err) {
+    // Treat a failed re-check as "still present" — we could not confirm the fix
+    log(`[Verify] Re-check of ${before.condition} failed: ${err}`);
+    after = { ...before, details: `Verification re-check failed: ${err}` };
+  }
+
+  const status = classifyVerification(before, after);
+  log(`[Verify] ${before.condition} after restart: ${status}${after.detected ? ` — ${after.details}` : ''}`);
+  return { status, before, after, settleSeconds };
+}
@@ -7,7 +7,17 @@
 
 import pg from 'pg';
 import type { Config } from '../config.js';
-import type { DetectionResult, RestartScope, Layer } from '../types.js';
+import type { DetectionResult, RestartScope, Layer, RestartPlan, RollbackChoice } from '../types.js';
+import type { BudgetBlock } from '../restart/budgets.js';
+import type { VerificationResult } from '../restart/verification.js';
+import type { InterruptedRestartAction } from '../restart/orchestrator.js';
+import type { EscalationChange, Incident } from '../restart/escalation.js';
+import type { Suppression } from '../restart/silences.js';
+import type { ConfirmationStatus } from '../conditions/confirmation.js';
+import type { RestartJournalEntry } from './restart-journal.js';
+import type { LeaderStatus } from './leader-election.js';
+import type { PayloadRejection } from './health-reader.js';
+import type { FallbackChange } from './redis.js';
 import { log } from '../logger.js';
 
 const { Pool } = pg;
@@ -15,6 +25,22 @@ const { Pool } = pg;
 export type WatchdogEventType =
   | 'RESTART'
   | 'RESTART_FAILED'
+  | 'RESTART_PLANNED'
+  | 'RESTART_BLOCKED'
+  | 'RESTART_SUPPRESSED'
+  | 'RESTART_VERIFIED'
+  | 'RESTART_INEFFECTIVE'
+  | 'RESTART_WORSE'
+  | 'RESTART_INTERRUPTED'
+  | 'RESTART_ESCALATED'
+  | 'RESTART_HALTED'
+  | 'CONDITION_DETECTED'
+  | 'CONDITION_PENDING'
+  | 'INCIDENT_RESOLVED'
+  | 'LEADER_CHANGED'
+  | 'HEALTH_DATA_INVALID'
+  | 'STORE_FALLBACK'
+  | 'STORE_RECOVERED'
   | 'WATCHDOG_START'
   | 'WATCHDOG_STOP';
 
@@ -117,6 +143,7 @@ export class EventPublisher {
     scope: RestartScope,
     success: boolean,
     error?: string,
+    rollback?: RollbackChoice,
   ): Promise<void> {
     await this.publish({
       eventType: success ? 'RESTART' : 'RESTART_FAILED',
@@ -131,7 +158,195 @@ export class EventPublisher {
         : `Restart failed: ${error ?? 'unknown error'}`,
       details: {
         detectionDetails: detection.details,
+        contributingConditions: detection.contributingConditions,
         error,
+        rollback,
+      },
+    });
+  }
+
+  /**
+   * Publish a restart that a restart budget prevented.
+   */
+  async publishRestartBlocked(
+    detection: DetectionResult,
+    blocked: BudgetBlock,
+  ): Promise<void> {
+    await this.publish({
+      eventType: 'RESTART_BLOCKED',
+      condition: detection.condition,
+      severity: 'WARNING',
+      scope: detection.restartScope,
+      affectedNodes: detection.affectedNodes,
+      affectedLayers: detection.affectedLayers,
+      success: false,
+      message: blocked.reason,
+      details: {
+        detectionDetails: detection.details,
+        contributingConditions: detection.contributingConditions,
+        budget: blocked.budget,
+      },
+    });
+  }
+
+  /**
+   * Publish restart targets skipped because of silences or maintenance windows.
+   */
+  async publishRestartSuppressed(
+    detection: DetectionResult,
+    suppressed: Suppression,
+  ): Promise<void> {
+    const reasons = suppressed.silences.map(s => `${s.id} (${s.reason})`).join(', ');
+    await this.publish({
+      eventType: 'RESTART_SUPPRESSED',
+      condition: detection.condition,
+      severity: 'INFO',
+      scope: detection.restartScope,
+      affectedNodes: [...new Set(suppressed.targets.map(t => t.nodeIp))],
+      affectedLayers: [...new Set(suppressed.targets.map(t => t.layer))],
+      success: false,
+      message: suppressed.partial
+        ? `Silenced targets skipped by ${reasons}; restarting the rest`
+        : `Restart suppressed by ${reasons}`,
+      details: {
+        detectionDetails: detection.details,
+        partial: suppressed.partial,
+        targets: suppressed.targets,
+        silences: suppressed.silences,
+      },
+    });
+  }
+
+  /**
+   * Publish the post-restart verification outcome.
+   */
+  async publishVerification(verification: VerificationResult): Promise<void> {
+    const { status, before, after } = verification;
+    const eventType = ({
+      verified: 'RESTART_VERIFIED',
+      ineffective: 'RESTART_INEFFECTIVE',
+      worse: 'RESTART_WORSE',
+    } as const)[status];
+
+    await this.publish({
+      eventType,
+      condition: before.condition,
+      severity: status === 'verified' ? 'INFO' : status === 'ineffective' ? 'WARNING' : 'CRITICAL',
+      scope: before.restartScope,
+      affectedNodes: before.affectedNodes,
+      affectedLayers: before.affectedLayers,
+      success: status === 'verified',
+      message: status === 'verified'
+        ? `Restart fixed ${before.condition}`
+        : `${before.condition} still present after restart: ${after.details}`,
+      details: {
+        detectionDetails: before.details,
+        contributingConditions: before.contributingConditions,
+        settleSeconds: verification.settleSeconds,
+        after: {
+          detected: after.detected,
+          details: after.details,
+          restartScope: after.restartScope,
+          affectedNodes: after.affectedNodes,
+          affectedLayers: after.affectedLayers,
+        },
+      },
+    });
+  }
+
+  /**
+   * Publish an incident stepping up the escalation ladder, or halting
+   * at the top of it.
+   */
+  async publishEscalation(detection: DetectionResult, change: EscalationChange): Promise<void> {
+    const { incident, from, to } = change;
+    await this.publish({
+      eventType: to ? 'RESTART_ESCALATED' : 'RESTART_HALTED',
+      condition: detection.condition,
+      severity: 'CRITICAL',
+      scope: to ?? from,
+      affectedNodes: detection.affectedNodes,
+      affectedLayers: detection.affectedLayers,
+      success: false,
+      message: to
+        ? `${detection.condition}: ${from} restarts failed, escalating to ${to}`
+        : `${detection.condition}: all restart strategies failed, human intervention required`,
+      details: {
+        detectionDetails: detection.details,
+        openedAt: incident.openedAt,
+        attempts: incident.attempts,
+      },
+    });
+  }
+
+  /**
+   * Publish an incident halted because the detector asked for a scope
+   * beyond the escalation ladder.
+   */
+  async publishRestartHalted(detection: DetectionResult, incident: Incident): Promise<void> {
+    await this.publish({
+      eventType: 'RESTART_HALTED',
+      condition: detection.condition,
+      severity: 'CRITICAL',
+      scope: detection.restartScope,
+      affectedNodes: detection.affectedNodes,
+      affectedLayers: detection.affectedLayers,
+      success: false,
+      message: `${detection.condition} needs a ${detection.restartScope} restart, which the escalation ladder does not allow — human intervention required`,
+      details: {
+        detectionDetails: detection.details,
+        openedAt: incident.openedAt,
+        attempts: incident.attempts,
+      },
+    });
+  }
+
+  /**
+   * Publish an unfinished restart run found in the journal at startup.
+   */
+  async publishRestartInterrupted(
+    entry: RestartJournalEntry,
+    action: InterruptedRestartAction,
+  ): Promise<void> {
+    const progress = `${entry.nextPhase}/${entry.plan.phases.length} phases`;
+    await this.publish({
+      eventType: 'RESTART_INTERRUPTED',
+      condition: entry.detection.condition,
+      severity: 'CRITICAL',
+      scope: entry.plan.scope,
+      affectedNodes: entry.detection.affectedNodes,
+      affectedLayers: entry.detection.affectedLayers,
+      message: `Unfinished ${entry.plan.scope} restart ${entry.runId} (${progress} done) — ${action}`,
+      details: {
+        runId: entry.runId,
+        startedAt: entry.startedAt,
+        updatedAt: entry.updatedAt,
+        nextPhase: entry.nextPhase,
+        nextPhaseDescription: entry.plan.phases[entry.nextPhase]?.description,
+        action,
+      },
+    });
+  }
+
+  /**
+   * Publish a restart plan that was computed but not executed (dry-run mode).
+   */
+  async publishRestartPlan(
+    detection: DetectionResult,
+    plan: RestartPlan,
+  ): Promise<void> {
+    await this.publish({
+      eventType: 'RESTART_PLANNED',
+      condition: detection.condition,
+      severity: 'WARNING',
+      scope: plan.scope,
+      affectedNodes: detection.affectedNodes,
+      affectedLayers: detection.affectedLayers,
+      message: `Dry run: ${plan.scope} restart planned for ${detection.condition} (${plan.phases.length} phases)`,
+      details: {
+        detectionDetails: detection.details,
+        contributingConditions: detection.contributingConditions,
+        plan,
       },
     });
   }
@@ -139,11 +354,107 @@ export class EventPublisher {
   /**
    * Publish watchdog lifecycle events.
    */
-  async publishLifecycle(started: boolean): Promise<void> {
+  async publishLifecycle(started: boolean, leader?: LeaderStatus): Promise<void> {
     await this.publish({
       eventType: started ? 'WATCHDOG_START' : 'WATCHDOG_STOP',
       severity: 'INFO',
       message: started ? 'Watchdog service started' : 'Watchdog service stopped',
+      details: leader ? { ...leader } : undefined,
+    });
+  }
+
+  /**
+   * Publish this instance gaining or losing the leader lease.
+   */
+  async publishLeaderChange(leader: LeaderStatus): Promise<void> {
+    await this.publish({
+      eventType: 'LEADER_CHANGED',
+      severity: leader.isLeader ? 'INFO' : 'WARNING',
+      success: leader.isLeader,
+      message: leader.isLeader
+        ? `${leader.instanceId} became leader (fencing token ${leader.token})`
+        : `${leader.instanceId} is a follower (leader: ${leader.leaderId ?? 'unknown'})`,
+      details: { ...leader },
+    });
+  }
+
+  /**
+   * Publish a Redis health payload that failed schema validation
+   * (the watchdog falls back to direct checks).
+   */
+  async publishHealthDataInvalid(rejection: PayloadRejection): Promise<void> {
+    await this.publish({
+      eventType: 'HEALTH_DATA_INVALID',
+      severity: 'WARNING',
+      success: false,
+      message: `Invalid health payload from services monitor (schema version ${JSON.stringify(rejection.schemaVersion)}): ${rejection.errors[0]}${rejection.errors.length > 1 ? ` (+${rejection.errors.length - 1} more)` : ''}`,
+      details: { ...rejection },
+    });
+  }
+
+  /**
+   * Publish a Redis-backed store switching to or from its in-memory fallback.
+   */
+  async publishStoreFallback(change: FallbackChange): Promise<void> {
+    await this.publish({
+      eventType: change.active ? 'STORE_FALLBACK' : 'STORE_RECOVERED',
+      severity: change.active ? 'WARNING' : 'INFO',
+      success: !change.active,
+      message: change.active
+        ? `${change.store} is running on its in-memory fallback (Redis: ${change.error}); state is not shared with other replicas or persisted`
+        : `${change.store} is using Redis again`,
+      details: { ...change },
+    });
+  }
+
+  /**
+   * Publish a detection awaiting confirmation over more check cycles.
+   */
+  async publishConfirmationPending(detection: DetectionResult, status: ConfirmationStatus): Promise<void> {
+    await this.publish({
+      eventType: 'CONDITION_PENDING',
+      condition: detection.condition,
+      severity: 'INFO',
+      scope: detection.restartScope,
+      affectedNodes: detection.affectedNodes,
+      affectedLayers: detection.affectedLayers,
+      message: `${detection.condition} awaiting confirmation (${status.hits}/${status.required} of last ${status.window} cycles)`,
+      details: { detectionDetails: detection.details, ...status },
+    });
+  }
+
+  /**
+   * Publish an incident closed after enough clean cycles.
+   */
+  async publishIncidentResolved(status: ConfirmationStatus): Promise<void> {
+    await this.publish({
+      eventType: 'INCIDENT_RESOLVED',
+      condition: status.condition,
+      severity: 'INFO',
+      success: true,
+      message: `${status.condition} clear for ${status.cleanCycles} cycle(s), incident closed`,
+      details: { ...status },
+    });
+  }
+
+  /**
+   * Publish a condition detected by a follower, which leaves the restart
+   * to the leader.
+   */
+  async publishDetection(detection: DetectionResult, leader: LeaderStatus): Promise<void> {
+    await this.publish({
+      eventType: 'CONDITION_DETECTED',
+      condition: detection.condition,
+      severity: 'WARNING',
+      scope: detection.restartScope,
+      affectedNodes: detection.affectedNodes,
+      affectedLayers: detection.affectedLayers,
+      message: `${detection.condition} detected by follower ${leader.instanceId}; restart left to leader ${leader.leaderId ?? 'unknown'}`,
+      details: {
+        detectionDetails: detection.details,
+        instanceId: leader.instanceId,
+        leaderId: leader.leaderId,
+      },
     });
   }
 
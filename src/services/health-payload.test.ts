@@ -0,0 +1,95 @@
+/**
+ * Redis Health Payload Validation Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateHealthPayload } from './health-payload.js';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function makePayload(overrides: Record<string, unknown> = {}, layer: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    schemaVersion: 1,
+    timestamp: '2026-10-19T12:00:00Z',
+    nodes: [{
+      ip: '10.0.0.1',
+      name: 'node1',
+      layers: [{ layer: 'ml0', state: 'Ready', ordinal: 100, reachable: true, clusterSize: 3, ...layer }],
+    }],
+    ...overrides,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('validateHealthPayload()', () => {
+  it('accepts a well-formed payload', () => {
+    const result = validateHealthPayload(makePayload());
+    expect(result.valid).toBe(true);
+    if (result.valid) expect(result.payload.nodes[0].layers[0].ordinal).toBe(100);
+  });
+
+  it('reads payloads without a schema version as v1', () => {
+    const result = validateHealthPayload(makePayload({ schemaVersion: undefined }));
+    expect(result).toMatchObject({ valid: true, schemaVersion: 1 });
+  });
+
+  it('rejects unknown schema versions', () => {
+    const result = validateHealthPayload(makePayload({ schemaVersion: 3 }));
+    expect(result).toMatchObject({ valid: false, schemaVersion: 3 });
+    if (!result.valid) expect(result.errors[0]).toContain('unsupported version 3');
+  });
+
+  it('requires per-node timestamps from v2 and checks per-layer ones', () => {
+    expect(validateHealthPayload(makePayload({ schemaVersion: 2 }))).toMatchObject({
+      valid: false,
+      errors: ['nodes[0].updatedAt: expected ISO date string, got undefined'],
+    });
+
+    const nodes = [{
+      ip: '10.0.0.1',
+      name: 'node1',
+      updatedAt: '2026-10-19T12:00:00Z',
+      layers: [
+        { layer: 'ml0', state: 'Ready', ordinal: 100, reachable: true, updatedAt: '2026-10-19T11:59:50Z' },
+        { layer: 'cl1', state: 'Ready', ordinal: 90, reachable: true, updatedAt: 'yesterday' },
+      ],
+    }];
+    expect(validateHealthPayload(makePayload({ schemaVersion: 2, nodes }))).toMatchObject({
+      valid: false,
+      errors: ['nodes[0].layers[1].updatedAt: expected ISO date string, got string "yesterday"'],
+    });
+  });
+
+  it('reports every field error with its path', () => {
+    const result = validateHealthPayload(makePayload({}, { layer: 'ml1', ordinal: '100', reachable: undefined }));
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.errors).toEqual([
+      'nodes[0].layers[0].layer: expected one of gl0, ml0, cl1, dl1, got string "ml1"',
+      'nodes[0].layers[0].ordinal: expected integer, got string "100"',
+      'nodes[0].layers[0].reachable: expected boolean, got undefined',
+    ]);
+  });
+
+  it('rejects renamed top-level fields', () => {
+    const result = validateHealthPayload(JSON.stringify({ schemaVersion: 1, updatedAt: '2026-10-19T12:00:00Z', hosts: [] }));
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors).toEqual([
+        'timestamp: expected ISO date string, got undefined',
+        'nodes: expected array, got undefined',
+      ]);
+    }
+  });
+
+  it('rejects data that is not JSON', () => {
+    const result = validateHealthPayload('{"timestamp":');
+    expect(result.valid).toBe(false);
+    if (!result.valid) expect(result.errors[0]).toContain('not valid JSON');
+  });
+});
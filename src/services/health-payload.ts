@@ -0,0 +1,159 @@
+/**
+ * Redis Health Payload Schema
+ *
+ * Runtime validation of `monitor:health:latest` as written by the services
+ * monitor. The payload carries a `schemaVersion`; versions we don't know are
+ * rejected outright rather than guessed at, and every field the detectors
+ * read is type-checked, so a format change in the monitor shows up as a
+ * clear validation error instead of a garbage snapshot that drives restarts.
+ *
+ * Payloads without `schemaVersion` predate versioning and are read as v1.
+ *
+ * Versions:
+ * - v1: one `timestamp` for the whole payload
+ * - v2: adds `updatedAt` per node (required) and per layer (optional,
+ *   defaults to the node's), so freshness is judged per entry
+ */
+
+import { ALL_LAYERS, type Layer } from '../types.js';
+
+/** Schema versions this watchdog can read */
+export const SUPPORTED_SCHEMA_VERSIONS = [1, 2];
+
+/** Version assumed for payloads written before `schemaVersion` existed */
+const LEGACY_SCHEMA_VERSION = 1;
+
+/** Redis health data format (as written by services monitor), schema v1/v2 */
+export interface RedisHealthPayload {
+  schemaVersion?: number;
+  timestamp: string;
+  nodes: Array<{
+    ip: string;
+    name: string;
+    /** v2: when this node was last polled */
+    updatedAt?: string;
+    layers: Array<{
+      layer: Layer;
+      /** v2: when this layer was last polled (defaults to the node's updatedAt) */
+      updatedAt?: string;
+      state: string;
+      ordinal: number;
+      reachable: boolean;
+      clusterSize?: number;
+      clusterHash?: string;
+      lastSnapshotHash?: string;
+    }>;
+  }>;
+}
+
+export type PayloadValidation =
+  | { valid: true; payload: RedisHealthPayload; schemaVersion: number }
+  /** `schemaVersion` is whatever the payload claimed (undefined if unreadable) */
+  | { valid: false; schemaVersion: unknown; errors: string[] };
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'string' ? `string "${value}"` : typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Collects errors with their JSON path, e.g. `nodes[1].layers[0].ordinal` */
+class Checker {
+  readonly errors: string[] = [];
+
+  fail(path: string, expected: string, value: unknown): void {
+    this.errors.push(`${path}: expected ${expected}, got ${describe(value)}`);
+  }
+
+  string(obj: Record<string, unknown>, key: string, path: string, optional = false): void {
+    const value = obj[key];
+    if (optional && value === undefined) return;
+    if (typeof value !== 'string') this.fail(`${path}.${key}`, 'string', value);
+  }
+
+  date(obj: Record<string, unknown>, key: string, path: string, optional = false): void {
+    const value = obj[key];
+    if (optional && value === undefined) return;
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) this.fail(`${path}.${key}`, 'ISO date string', value);
+  }
+
+  number(obj: Record<string, unknown>, key: string, path: string, opts: { integer?: boolean; optional?: boolean } = {}): void {
+    const value = obj[key];
+    if (opts.optional && value === undefined) return;
+    const ok = typeof value === 'number' && Number.isFinite(value) && (!opts.integer || Number.isInteger(value));
+    if (!ok) this.fail(`${path}.${key}`, opts.integer ? 'integer' : 'number', value);
+  }
+}
+
+function checkLayer(check: Checker, layer: unknown, path: string): void {
+  if (!isObject(layer)) {
+    check.fail(path, 'object', layer);
+    return;
+  }
+  if (!ALL_LAYERS.includes(layer.layer as Layer)) check.fail(`${path}.layer`, `one of ${ALL_LAYERS.join(', ')}`, layer.layer);
+  check.string(layer, 'state', path);
+  check.number(layer, 'ordinal', path, { integer: true });
+  if (typeof layer.reachable !== 'boolean') check.fail(`${path}.reachable`, 'boolean', layer.reachable);
+  check.number(layer, 'clusterSize', path, { integer: true, optional: true });
+  check.string(layer, 'clusterHash', path, true);
+  check.string(layer, 'lastSnapshotHash', path, true);
+  check.date(layer, 'updatedAt', path, true);
+}
+
+function checkNode(check: Checker, node: unknown, path: string, schemaVersion: number): void {
+  if (!isObject(node)) {
+    check.fail(path, 'object', node);
+    return;
+  }
+  check.string(node, 'ip', path);
+  check.string(node, 'name', path);
+  check.date(node, 'updatedAt', path, schemaVersion < 2);
+  if (!Array.isArray(node.layers)) {
+    check.fail(`${path}.layers`, 'array', node.layers);
+    return;
+  }
+  node.layers.forEach((layer, i) => checkLayer(check, layer, `${path}.layers[${i}]`));
+}
+
+/**
+ * Parse and validate a raw health payload.
+ *
+ * This is a PURE FUNCTION.
+ */
+export function validateHealthPayload(data: string): PayloadValidation {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch (err) {
+    return { valid: false, schemaVersion: undefined, errors: [`not valid JSON: ${err instanceof Error ? err.message : err}`] };
+  }
+  if (!isObject(parsed)) {
+    return { valid: false, schemaVersion: undefined, errors: [`payload: expected object, got ${describe(parsed)}`] };
+  }
+
+  const schemaVersion = parsed.schemaVersion ?? LEGACY_SCHEMA_VERSION;
+  if (typeof schemaVersion !== 'number' || !SUPPORTED_SCHEMA_VERSIONS.includes(schemaVersion)) {
+    return {
+      valid: false,
+      schemaVersion,
+      errors: [`schemaVersion: unsupported version ${JSON.stringify(schemaVersion)} (supported: ${SUPPORTED_SCHEMA_VERSIONS.join(', ')})`],
+    };
+  }
+
+  const check = new Checker();
+  if (typeof parsed.timestamp !== 'string' || Number.isNaN(Date.parse(parsed.timestamp))) {
+    check.fail('timestamp', 'ISO date string', parsed.timestamp);
+  }
+  if (!Array.isArray(parsed.nodes)) {
+    check.fail('nodes', 'array', parsed.nodes);
+  } else {
+    parsed.nodes.forEach((node, i) => checkNode(check, node, `nodes[${i}]`, schemaVersion));
+  }
+
+  if (check.errors.length > 0) return { valid: false, schemaVersion, errors: check.errors };
+  return { valid: true, payload: parsed as unknown as RedisHealthPayload, schemaVersion };
+}
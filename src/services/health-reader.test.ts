@@ -0,0 +1,191 @@
+/**
+ * Health Reader Tests
+ *
+ * Direct fallback polling and per-entry Redis freshness, with fake
+ * health checks.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildHybridSnapshot, pollHealthDirectly, type LayerHealthCheckFn, type NodeHealthCheckFn } from './health-reader.js';
+import type { RedisHealthPayload } from './health-payload.js';
+import { checkLayerForkFromSnapshot, detectForkedClusterFromSnapshot } from '../conditions/forked-cluster.js';
+import type { Config } from '../config.js';
+import type { ClusterMember, Layer, NodeHealth } from '../types.js';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+const config = {
+  healthDataStaleSeconds: 60,
+  ports: { gl0: 9000, ml0: 9200, cl1: 9300, dl1: 9400 },
+  nodes: [
+    { ip: '10.0.0.1', name: 'node1' },
+    { ip: '10.0.0.2', name: 'node2' },
+    { ip: '10.0.0.3', name: 'node3' },
+    { ip: '10.0.0.4', name: 'node4' },
+  ],
+} as Config;
+
+function members(...ids: string[]): ClusterMember[] {
+  return ids.map(id => ({ id, state: 'Ready' }));
+}
+
+function health(nodeIp: string, layer: Layer, cluster: ClusterMember[], reachable = true): NodeHealth {
+  return {
+    nodeIp,
+    layer,
+    reachable,
+    state: reachable ? 'Ready' : 'Unreachable',
+    cluster,
+    ordinal: reachable ? 500 : -1,
+    lastSnapshotHash: reachable ? 'abc' : undefined,
+  };
+}
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+
+function isoAgo(seconds: number): string {
+  return new Date(NOW - seconds * 1000).toISOString();
+}
+
+/** v2 payload: every node reports all layers, `ages` = seconds since each node's update */
+function payload(ages: number[]): RedisHealthPayload {
+  return {
+    schemaVersion: 2,
+    timestamp: isoAgo(Math.min(...ages)),
+    nodes: config.nodes.map((n, i) => ({
+      ip: n.ip,
+      name: n.name,
+      updatedAt: isoAgo(ages[i]),
+      layers: (['gl0', 'ml0', 'cl1', 'dl1'] as Layer[]).map(layer => ({
+        layer, state: 'Ready', ordinal: 400, reachable: true, clusterSize: 4, clusterHash: 'redis',
+      })),
+    })),
+  };
+}
+
+/** Records which node/layer pairs were polled directly */
+function recordingCheck(polled: string[]): NodeHealthCheckFn {
+  return async (ip, layer) => {
+    polled.push(`${ip}/${layer}`);
+    return health(ip, layer, members('a', 'b', 'c', 'd'));
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('pollHealthDirectly()', () => {
+  it('computes cluster hashes so equal-size partitions show up as a fork', async () => {
+    // 3 nodes see peers a-c, node4 sees a different 3-peer cluster
+    const checkLayer: LayerHealthCheckFn = async (cfg, layer) => cfg.nodes.map(n => health(
+      n.ip, layer, n.ip === '10.0.0.4' ? members('a', 'x', 'y') : members('a', 'b', 'c'),
+    ));
+
+    const snapshot = await pollHealthDirectly(config, checkLayer);
+    expect(snapshot.source).toBe('direct');
+
+    const ml0 = snapshot.nodes.map(n => n.layers.find(l => l.layer === 'ml0')!);
+    expect(ml0.every(l => l.clusterSize === 3 && l.clusterHash)).toBe(true);
+    expect(checkLayerForkFromSnapshot(snapshot, 'ml0').minorityNodes).toEqual(['10.0.0.4']);
+  });
+
+  it('polls all layers concurrently and keeps layer order per node', async () => {
+    const started: Layer[] = [];
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+
+    const checkLayer: LayerHealthCheckFn = async (cfg, layer) => {
+      started.push(layer);
+      if (started.length === 4) release();
+      await gate;
+      return cfg.nodes.map(n => health(n.ip, layer, members('a')));
+    };
+
+    const snapshot = await pollHealthDirectly(config, checkLayer);
+    expect(started).toHaveLength(4);
+    expect(snapshot.nodes[0].layers.map(l => l.layer)).toEqual(['gl0', 'ml0', 'cl1', 'dl1']);
+  });
+
+  it('carries ordinals and snapshot hashes, and no cluster hash for unreachable nodes', async () => {
+    const checkLayer: LayerHealthCheckFn = async (cfg, layer) =>
+      cfg.nodes.map(n => health(n.ip, layer, n.ip === '10.0.0.2' ? [] : members('a'), n.ip !== '10.0.0.2'));
+
+    const snapshot = await pollHealthDirectly(config, checkLayer);
+    const [node1, node2] = snapshot.nodes.map(n => n.layers.find(l => l.layer === 'gl0')!);
+
+    expect(node1).toMatchObject({ ordinal: 500, lastSnapshotHash: 'abc', reachable: true, clusterSize: 1 });
+    expect(node2).toMatchObject({ ordinal: -1, reachable: false, clusterHash: undefined });
+  });
+});
+
+describe('buildHybridSnapshot()', () => {
+  it('uses Redis alone when every entry is fresh', async () => {
+    const polled: string[] = [];
+    const snapshot = await buildHybridSnapshot(config, payload([5, 10, 5, 20]), NOW, recordingCheck(polled));
+
+    expect(polled).toEqual([]);
+    expect(snapshot.source).toBe('redis');
+    expect(snapshot.stale).toBe(false);
+    expect(snapshot.nodes[3].layers[0]).toMatchObject({ source: 'redis', ageSeconds: 20, ordinal: 400 });
+  });
+
+  it('polls a layer with a stale entry directly on every node, keeping fresh layers from Redis', async () => {
+    const data = payload([5, 5, 5, 5]);
+    data.nodes[2].layers[1].updatedAt = isoAgo(90); // node3 ML0 stale
+
+    const polled: string[] = [];
+    const snapshot = await buildHybridSnapshot(config, data, NOW, recordingCheck(polled));
+
+    expect(snapshot.source).toBe('hybrid');
+    expect(snapshot.stale).toBe(true);
+    expect(polled.sort()).toEqual(['10.0.0.1/ml0', '10.0.0.2/ml0', '10.0.0.3/ml0', '10.0.0.4/ml0']);
+    expect(snapshot.nodes[2].layers.map(l => l.layer)).toEqual(['gl0', 'ml0', 'cl1', 'dl1']);
+    expect(snapshot.nodes[2].layers[1]).toMatchObject({ source: 'direct', ageSeconds: 0, ordinal: 500 });
+    expect(snapshot.nodes[0].layers[1].source).toBe('direct');
+    expect(snapshot.nodes[0].layers[2]).toMatchObject({ source: 'redis', ageSeconds: 5, clusterHash: 'redis' });
+  });
+
+  it('never mixes Redis and local cluster hashes within a layer, so a stale entry is no fork', async () => {
+    const data = payload([5, 5, 90, 5]); // node3 stale on every layer
+
+    const snapshot = await buildHybridSnapshot(config, data, NOW, recordingCheck([]));
+    for (const layer of ['ml0', 'cl1', 'dl1'] as Layer[]) {
+      expect(new Set(snapshot.nodes.map(n => n.layers.find(l => l.layer === layer)!.source)).size).toBe(1);
+    }
+    expect(detectForkedClusterFromSnapshot(config, snapshot).detected).toBe(false);
+  });
+
+  it('judges layers by their own timestamp and fills in missing layers and nodes', async () => {
+    const data = payload([5, 5, 5, 5]);
+    data.nodes[0].layers[2].updatedAt = isoAgo(120); // node1 CL1 stuck
+    data.nodes[1].layers.pop(); // node2 reports no DL1
+
+    const polled: string[] = [];
+    const snapshot = await buildHybridSnapshot(config, data, NOW, recordingCheck(polled));
+    expect(polled).toHaveLength(8);
+    expect(snapshot.nodes[1].layers.map(l => l.source)).toEqual(['redis', 'redis', 'direct', 'direct']);
+
+    data.nodes.pop(); // node4 not in the payload at all
+    const withMissing = await buildHybridSnapshot(config, data, NOW, recordingCheck([]));
+    expect(withMissing.nodes.map(n => n.name)).toEqual(['node1', 'node2', 'node3', 'node4']);
+    expect(withMissing.source).toBe('direct');
+    expect(withMissing.stale).toBe(true);
+  });
+
+  it('falls back to v1 payload timestamps and reports a fully re-polled snapshot as direct', async () => {
+    const data = payload([5, 5, 5, 5]);
+    delete data.schemaVersion;
+    data.nodes.forEach(n => delete n.updatedAt);
+    data.timestamp = isoAgo(300);
+
+    const polled: string[] = [];
+    const snapshot = await buildHybridSnapshot(config, data, NOW, recordingCheck(polled));
+
+    expect(polled).toHaveLength(16);
+    expect(snapshot.source).toBe('direct');
+    expect(snapshot.timestamp.getTime()).toBe(NOW);
+  });
+});
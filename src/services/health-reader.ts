@@ -9,17 +9,39 @@
  *
  * Fallback:
  *   Tessellation Nodes → /node/info HTTP → Watchdog (direct poll)
+ *
+ * Freshness is judged per node and layer (schema v2 `updatedAt`, else the
+ * payload timestamp): layers whose Redis entries are all fresh are kept and
+ * only layers with stale or missing entries are polled directly, so one slow
+ * layer doesn't discard the whole cache.
+ *
+ * With HEALTH_UPDATES=pubsub|keyspace the reader also subscribes to update
+ * notifications, so the daemon can run a cycle as soon as data lands.
  */
 
 import { Redis } from 'ioredis';
 import type { Config } from '../config.js';
-import type { Layer } from '../types.js';
-import { checkLayerHealth, getLatestOrdinal } from './node-api.js';
+import { ALL_LAYERS, type HealthSource, type Layer, type NodeHealth } from '../types.js';
+import { checkLayerHealth, checkNodeHealth, getLatestOrdinal } from './node-api.js';
+import { createRedisClient } from './redis.js';
+import { hashClusterPOV } from '../conditions/forked-cluster.js';
+import { validateHealthPayload, type RedisHealthPayload } from './health-payload.js';
 import { log } from '../logger.js';
 
 /** Redis key where services monitor writes latest health data */
 const HEALTH_KEY = 'monitor:health:latest';
 
+/** Keyspace notification channel for the health key in the URL's database */
+function keyspaceChannel(redisUrl: string): string {
+  let db = '0';
+  try {
+    db = new URL(redisUrl).pathname.replace(/^\//, '') || '0';
+  } catch {
+    // Unparseable URL: createRedisClient reports it; assume the default db
+  }
+  return `__keyspace@${db}__:${HEALTH_KEY}`;
+}
+
 /** Layer health from a single node */
 export interface LayerHealth {
   layer: Layer;
@@ -28,6 +50,11 @@ export interface LayerHealth {
   reachable: boolean;
   clusterSize: number;
   clusterHash?: string;
+  lastSnapshotHash?: string;
+  /** Where this entry came from (a snapshot can mix both) */
+  source?: HealthSource;
+  /** Seconds between the entry being measured and the snapshot being read */
+  ageSeconds?: number;
 }
 
 /** Health data for a single node */
@@ -41,25 +68,140 @@ export interface NodeHealthData {
 export interface HealthSnapshot {
   timestamp: Date;
   nodes: NodeHealthData[];
+  /** Redis data had stale or missing entries (they were polled directly) */
   stale: boolean;
-  source: 'redis' | 'direct';
+  /** 'hybrid': Redis data with stale or missing entries polled directly */
+  source: HealthSource | 'hybrid';
+}
+
+/** A Redis payload that failed schema validation */
+export interface PayloadRejection {
+  schemaVersion: unknown;
+  errors: string[];
+  /** When the services monitor wrote it, if readable */
+  payloadTimestamp?: string;
+}
+
+/** Layer health check for all nodes (injectable for tests) */
+export type LayerHealthCheckFn = (config: Config, layer: Layer) => Promise<NodeHealth[]>;
+
+/** Health check for one node and layer (injectable for tests) */
+export type NodeHealthCheckFn = (ip: string, layer: Layer, port: number) => Promise<NodeHealth>;
+
+/** Convert a direct HTTP check into a snapshot entry */
+function fromNodeHealth(h: NodeHealth): LayerHealth {
+  return {
+    layer: h.layer,
+    state: h.state,
+    ordinal: h.ordinal,
+    reachable: h.reachable,
+    clusterSize: h.cluster.length,
+    clusterHash: h.reachable ? hashClusterPOV(h.cluster) : undefined,
+    lastSnapshotHash: h.lastSnapshotHash,
+    source: 'direct',
+    ageSeconds: 0,
+  };
+}
+
+type PayloadNode = RedisHealthPayload['nodes'][number];
+type PayloadLayer = PayloadNode['layers'][number];
+
+/** When a payload entry was measured: layer, then node, then payload timestamp */
+function entryTime(payload: RedisHealthPayload, node: PayloadNode, layer: PayloadLayer): number {
+  return Date.parse(layer.updatedAt ?? node.updatedAt ?? payload.timestamp);
+}
+
+/**
+ * Build a snapshot by polling every node and layer directly, all layers at
+ * once. Cluster hashes are computed from each node's /cluster/info the same
+ * way the fork detector does, so fork detection doesn't degrade to cluster
+ * sizes while Redis is down.
+ */
+export async function pollHealthDirectly(
+  config: Config,
+  checkLayer: LayerHealthCheckFn = checkLayerHealth,
+): Promise<HealthSnapshot> {
+  const byLayer = await Promise.all(ALL_LAYERS.map(layer => checkLayer(config, layer)));
+
+  const nodes: NodeHealthData[] = config.nodes.map(node => ({
+    ip: node.ip,
+    name: node.name,
+    layers: byLayer.flatMap(healths => healths.filter(h => h.nodeIp === node.ip).map(fromNodeHealth)),
+  }));
+
+  return { timestamp: new Date(), nodes, stale: false, source: 'direct' };
 }
 
-/** Redis health data format (as written by services monitor) */
-interface RedisHealthPayload {
-  timestamp: string;
-  nodes: Array<{
-    ip: string;
-    name: string;
-    layers: Array<{
-      layer: string;
-      state: string;
-      ordinal: number;
-      reachable: boolean;
-      clusterSize?: number;
-      clusterHash?: string;
-    }>;
-  }>;
+/**
+ * Build a snapshot from a validated Redis payload, keeping entries younger
+ * than `healthDataStaleSeconds`. A layer with any stale or missing entry
+ * (across payload and configured nodes) is polled directly on every node:
+ * cluster hashes from the services monitor and our own `hashClusterPOV`
+ * aren't comparable, so one layer never mixes the two.
+ *
+ * The snapshot is 'redis' when nothing needed polling, 'direct' when
+ * everything did, 'hybrid' otherwise; it is `stale` whenever any Redis
+ * entry was stale or missing.
+ */
+export async function buildHybridSnapshot(
+  config: Config,
+  payload: RedisHealthPayload,
+  now: number = Date.now(),
+  checkNode: NodeHealthCheckFn = checkNodeHealth,
+): Promise<HealthSnapshot> {
+  const known = new Set(payload.nodes.map(n => n.ip));
+  const nodeList = [
+    ...payload.nodes.map(n => ({ ip: n.ip, name: n.name, data: n as PayloadNode | undefined })),
+    ...config.nodes.filter(n => !known.has(n.ip)).map(n => ({ ip: n.ip, name: n.name, data: undefined })),
+  ];
+
+  // Fresh Redis entry per node and layer, null if stale or missing
+  const stale: string[] = [];
+  const fresh = nodeList.map(node => new Map(ALL_LAYERS.map(layer => {
+    const entry = node.data?.layers.find(l => l.layer === layer);
+    if (node.data && entry) {
+      const ageSeconds = Math.max(0, (now - entryTime(payload, node.data, entry)) / 1000);
+      if (ageSeconds < config.healthDataStaleSeconds) {
+        const health: LayerHealth = {
+          layer,
+          state: entry.state,
+          ordinal: entry.ordinal,
+          reachable: entry.reachable,
+          clusterSize: entry.clusterSize ?? 0,
+          clusterHash: entry.clusterHash,
+          lastSnapshotHash: entry.lastSnapshotHash,
+          source: 'redis',
+          ageSeconds,
+        };
+        return [layer, health] as const;
+      }
+    }
+    stale.push(`${node.name}/${layer}${entry ? '' : ' (missing)'}`);
+    return [layer, null] as const;
+  })));
+  const repoll = ALL_LAYERS.filter(layer => fresh.some(entries => entries.get(layer) === null));
+
+  const nodes: NodeHealthData[] = await Promise.all(nodeList.map(async (node, i) => ({
+    ip: node.ip,
+    name: node.name,
+    layers: await Promise.all(ALL_LAYERS.map(async layer => repoll.includes(layer)
+      ? fromNodeHealth(await checkNode(node.ip, layer, config.ports[layer]))
+      : fresh[i].get(layer)!)),
+  })));
+
+  const source = repoll.length === 0 ? 'redis' : repoll.length === ALL_LAYERS.length ? 'direct' : 'hybrid';
+  if (source === 'hybrid') {
+    log(`[HealthReader] Redis data stale or missing for ${stale.join(', ')}, polled ${repoll.map(l => l.toUpperCase()).join(', ')} directly on all nodes`);
+  } else if (source === 'direct') {
+    log(`[HealthReader] Redis data stale or missing on every layer (${stale.join(', ')}), polled all directly`);
+  }
+
+  return {
+    timestamp: source === 'redis' ? new Date(payload.timestamp) : new Date(now),
+    nodes,
+    stale: stale.length > 0,
+    source,
+  };
 }
 
 /**
@@ -69,12 +211,19 @@ interface RedisHealthPayload {
  */
 export class HealthReader {
   private redis: Redis | null = null;
+  /** Separate connection in subscriber mode for push updates */
+  private subscriber: Redis | null = null;
   private config: Config;
   private redisAvailable: boolean = true;
   private lastRedisError: Date | null = null;
+  private invalidPayloadListener: ((rejection: PayloadRejection) => void) | null = null;
+  /** Errors of the last rejected payload, so a persisting problem is reported once */
+  private lastRejection: string | null = null;
 
-  constructor(config: Config) {
+  /** `subscriber` overrides the push-update connection (tests). */
+  constructor(config: Config, subscriber?: Redis) {
     this.config = config;
+    this.subscriber = subscriber ?? null;
     this.initRedis();
   }
 
@@ -86,19 +235,7 @@ export class HealthReader {
     }
 
     try {
-      this.redis = new Redis(this.config.redisUrl, {
-        maxRetriesPerRequest: 1,
-        connectTimeout: 5000,
-        commandTimeout: 3000,
-        lazyConnect: true,
-        retryStrategy: (times: number) => {
-          if (times > 3) {
-            log('[HealthReader] Redis connection failed, falling back to direct checks');
-            return null; // Stop retrying
-          }
-          return Math.min(times * 200, 1000);
-        },
-      });
+      this.redis = createRedisClient(this.config.redisUrl, 'HealthReader');
 
       this.redis?.on('error', (err: Error) => {
         if (this.redisAvailable) {
@@ -122,100 +259,107 @@ export class HealthReader {
 
   /**
    * Get health snapshot.
-   * Tries Redis first, falls back to direct HTTP if stale or unavailable.
+   * Tries Redis first, polling stale or missing entries directly; falls back
+   * to a full direct poll if Redis is unavailable or its data invalid.
    */
   async getHealthSnapshot(): Promise<HealthSnapshot> {
     // Try Redis first
+    let parsed: RedisHealthPayload | null = null;
     if (this.redis && this.redisAvailable) {
       try {
         const data = await this.redis.get(HEALTH_KEY);
-        if (data) {
-          const parsed = JSON.parse(data) as RedisHealthPayload;
-          const timestamp = new Date(parsed.timestamp);
-          const ageSeconds = (Date.now() - timestamp.getTime()) / 1000;
-
-          if (ageSeconds < this.config.healthDataStaleSeconds) {
-            // Fresh data from Redis
-            return {
-              timestamp,
-              nodes: this.transformRedisNodes(parsed.nodes),
-              stale: false,
-              source: 'redis',
-            };
-          } else {
-            log(`[HealthReader] Redis data stale (${ageSeconds.toFixed(0)}s old), falling back to direct checks`);
-          }
-        } else {
+        parsed = data ? this.validate(data) : null;
+        if (!data) {
           log('[HealthReader] No health data in Redis, falling back to direct checks');
         }
       } catch (err) {
         log(`[HealthReader] Redis read failed: ${err}, falling back to direct checks`);
       }
     }
+    if (parsed) return buildHybridSnapshot(this.config, parsed);
 
     // Fallback to direct HTTP polling
     return this.pollDirectly();
   }
 
   /**
-   * Transform Redis payload to our internal format.
+   * Subscribe to health data updates (HEALTH_UPDATES=pubsub|keyspace) and
+   * call `onUpdate` whenever the services monitor writes new data.
+   * Returns false if push updates are off or the subscription failed; the
+   * interval poll keeps running either way.
    */
-  private transformRedisNodes(nodes: RedisHealthPayload['nodes']): NodeHealthData[] {
-    return nodes.map(n => ({
-      ip: n.ip,
-      name: n.name,
-      layers: n.layers.map(l => ({
-        layer: l.layer as Layer,
-        state: l.state,
-        ordinal: l.ordinal,
-        reachable: l.reachable,
-        clusterSize: l.clusterSize ?? 0,
-        clusterHash: l.clusterHash,
-      })),
-    }));
+  async subscribe(onUpdate: () => void): Promise<boolean> {
+    const { mode, channel: pubsubChannel } = this.config.healthUpdates;
+    if (mode === 'poll') return false;
+
+    // Keyspace notifications need notify-keyspace-events to include K$ (or KA)
+    const channel = mode === 'keyspace' ? keyspaceChannel(this.config.redisUrl) : pubsubChannel;
+    try {
+      if (!this.subscriber) {
+        if (!this.config.redisUrl) {
+          log('[HealthReader] No Redis URL configured, push updates disabled');
+          return false;
+        }
+        this.subscriber = createRedisClient(this.config.redisUrl, 'HealthReader');
+        this.subscriber.on('error', (err: Error) => {
+          log(`[HealthReader] Update subscription error: ${err.message}`);
+        });
+      }
+      this.subscriber.on('message', (from: string) => {
+        if (from === channel) onUpdate();
+      });
+      await this.subscriber.subscribe(channel);
+      log(`[HealthReader] Subscribed to health updates on ${channel}`);
+      return true;
+    } catch (err) {
+      log(`[HealthReader] Health update subscription failed (${err}), relying on the interval poll`);
+      return false;
+    }
   }
 
   /**
-   * Poll nodes directly via HTTP (fallback when Redis unavailable/stale).
+   * Register a listener for payloads that fail schema validation. Called on
+   * the first failure and whenever the errors change, not on every read.
    */
-  private async pollDirectly(): Promise<HealthSnapshot> {
-    log('[HealthReader] Using direct HTTP polling (fallback mode)');
-    const layers: Layer[] = ['gl0', 'ml0', 'cl1', 'dl1'];
-    const nodeHealthMap = new Map<string, NodeHealthData>();
+  onInvalidPayload(listener: (rejection: PayloadRejection) => void): void {
+    this.invalidPayloadListener = listener;
+  }
 
-    // Initialize nodes
-    for (const node of this.config.nodes) {
-      nodeHealthMap.set(node.ip, {
-        ip: node.ip,
-        name: node.name,
-        layers: [],
-      });
+  /**
+   * Validate a raw Redis payload. Invalid data counts as unavailable:
+   * returns null so the caller falls back to direct checks.
+   */
+  private validate(data: string): RedisHealthPayload | null {
+    const result = validateHealthPayload(data);
+    if (result.valid) {
+      this.lastRejection = null;
+      return result.payload;
     }
 
-    // Poll each layer
-    for (const layer of layers) {
-      const healths = await checkLayerHealth(this.config, layer);
-
-      for (const h of healths) {
-        const nodeData = nodeHealthMap.get(h.nodeIp);
-        if (nodeData) {
-          nodeData.layers.push({
-            layer: h.layer,
-            state: h.state,
-            ordinal: h.ordinal,
-            reachable: h.reachable,
-            clusterSize: h.cluster.length,
-          });
-        }
+    const shown = result.errors.slice(0, 5).join('; ') + (result.errors.length > 5 ? `; ... (${result.errors.length} errors)` : '');
+    log(`[HealthReader] Invalid health payload (schema version ${JSON.stringify(result.schemaVersion)}): ${shown}, falling back to direct checks`);
+
+    const signature = JSON.stringify([result.schemaVersion, result.errors]);
+    if (signature !== this.lastRejection) {
+      this.lastRejection = signature;
+      let payloadTimestamp: string | undefined;
+      try {
+        const ts = (JSON.parse(data) as { timestamp?: unknown }).timestamp;
+        payloadTimestamp = typeof ts === 'string' ? ts : undefined;
+      } catch {
+        // Not JSON at all
       }
+      this.invalidPayloadListener?.({ schemaVersion: result.schemaVersion, errors: result.errors, payloadTimestamp });
     }
+    return null;
+  }
 
-    return {
-      timestamp: new Date(),
-      nodes: Array.from(nodeHealthMap.values()),
-      stale: false,
-      source: 'direct',
-    };
+  /**
+   * Poll nodes directly via HTTP (fallback when Redis unavailable/stale).
+   */
+  private async pollDirectly(): Promise<HealthSnapshot> {
+    log('[HealthReader] Using direct HTTP polling (fallback mode)');
+    return pollHealthDirectly(this.config);
   }
 
   /**
@@ -227,18 +371,14 @@ export class HealthReader {
     if (this.redis && this.redisAvailable) {
       try {
         const data = await this.redis.get(HEALTH_KEY);
-        if (data) {
-          const parsed = JSON.parse(data) as RedisHealthPayload;
-          const timestamp = new Date(parsed.timestamp);
-          const ageSeconds = (Date.now() - timestamp.getTime()) / 1000;
-
-          if (ageSeconds < this.config.healthDataStaleSeconds) {
-            // Find first node with ML0 data
-            for (const node of parsed.nodes) {
-              const ml0 = node.layers.find(l => l.layer === 'ml0' && l.reachable);
-              if (ml0) {
-                return { ordinal: ml0.ordinal, nodeIp: node.ip };
-              }
+        const parsed = data ? this.validate(data) : null;
+        if (parsed) {
+          // Find first node with fresh ML0 data
+          const now = Date.now();
+          for (const node of parsed.nodes) {
+            const ml0 = node.layers.find(l => l.layer === 'ml0' && l.reachable);
+            if (ml0 && (now - entryTime(parsed, node, ml0)) / 1000 < this.config.healthDataStaleSeconds) {
+              return { ordinal: ml0.ordinal, nodeIp: node.ip };
             }
           }
         }
@@ -270,5 +410,9 @@ export class HealthReader {
       this.redis.disconnect();
       this.redis = null;
     }
+    if (this.subscriber) {
+      this.subscriber.disconnect();
+      this.subscriber = null;
+    }
   }
 }
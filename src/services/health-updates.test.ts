@@ -0,0 +1,127 @@
+/**
+ * Health Update Tests
+ *
+ * Push-triggered cycles: the trigger's pacing and the HealthReader
+ * subscription (fake subscriber connection).
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Redis } from 'ioredis';
+import { HealthUpdateTrigger, cycleTick } from './health-updates.js';
+import { HealthReader } from './health-reader.js';
+import type { Config, HealthUpdateMode } from '../config.js';
+
+class FakeSubscriber extends EventEmitter {
+  channels: string[] = [];
+
+  async subscribe(channel: string): Promise<number> {
+    this.channels.push(channel);
+    return this.channels.length;
+  }
+
+  publish(channel: string, message: string): void {
+    this.emit('message', channel, message);
+  }
+
+  disconnect(): void {}
+}
+
+function makeConfig(mode: HealthUpdateMode, redisUrl = ''): Config {
+  return {
+    redisUrl,
+    healthUpdates: { mode, channel: 'monitor:health:updated', minIntervalSeconds: 10 },
+  } as Config;
+}
+
+describe('HealthUpdateTrigger', () => {
+  it('falls back to the interval without updates', async () => {
+    const trigger = new HealthUpdateTrigger(30, 5);
+    trigger.started();
+    const start = Date.now();
+
+    expect(await trigger.wait()).toBe('interval');
+    expect(Date.now() - start).toBeGreaterThanOrEqual(25);
+  });
+
+  it('starts early on an update, but not before the minimum interval', async () => {
+    const trigger = new HealthUpdateTrigger(10_000, 40);
+    trigger.started();
+    const start = Date.now();
+    trigger.notify();
+
+    expect(await trigger.wait()).toBe('update');
+    const elapsed = Date.now() - start;
+    expect(elapsed).toBeGreaterThanOrEqual(35);
+    expect(elapsed).toBeLessThan(5_000);
+  });
+
+  it('wakes a waiting loop when an update arrives', async () => {
+    const trigger = new HealthUpdateTrigger(10_000, 0);
+    trigger.started();
+    setTimeout(() => trigger.notify(), 20);
+
+    expect(await trigger.wait()).toBe('update');
+  });
+
+  it('coalesces updates from the previous cycle into one', async () => {
+    const trigger = new HealthUpdateTrigger(10_000, 0);
+    trigger.started();
+    trigger.notify();
+    trigger.notify();
+    expect(await trigger.wait()).toBe('update');
+
+    trigger.started(Date.now() - 10_000);
+    expect(await trigger.wait()).toBe('interval');
+  });
+});
+
+describe('cycleTick()', () => {
+  it('numbers interval ticks by elapsed time, however many checks run', () => {
+    expect(cycleTick(0, 60_000, 0)).toBe(1);
+    expect(cycleTick(0, 60_000, 59_999)).toBe(1);
+    expect(cycleTick(0, 60_000, 60_000)).toBe(2);
+    expect(cycleTick(1_000, 60_000, 181_000)).toBe(4);
+  });
+});
+
+describe('HealthReader.subscribe()', () => {
+  it('does not subscribe in poll mode', async () => {
+    const subscriber = new FakeSubscriber();
+    const reader = new HealthReader(makeConfig('poll'), subscriber as unknown as Redis);
+
+    expect(await reader.subscribe(() => {})).toBe(false);
+    expect(subscriber.channels).toEqual([]);
+  });
+
+  it('calls back on messages from the monitor channel', async () => {
+    const subscriber = new FakeSubscriber();
+    const reader = new HealthReader(makeConfig('pubsub'), subscriber as unknown as Redis);
+    let updates = 0;
+
+    expect(await reader.subscribe(() => updates++)).toBe(true);
+    subscriber.publish('monitor:health:updated', '2026-10-19T00:00:00Z');
+    subscriber.publish('some:other:channel', 'x');
+    expect(updates).toBe(1);
+  });
+
+  it('subscribes to keyspace notifications for the health key in the configured db', async () => {
+    const subscriber = new FakeSubscriber();
+    const reader = new HealthReader(makeConfig('keyspace', 'redis://redis:6379/2'), subscriber as unknown as Redis);
+    let updates = 0;
+
+    await reader.subscribe(() => updates++);
+    expect(subscriber.channels).toEqual(['__keyspace@2__:monitor:health:latest']);
+    subscriber.publish('__keyspace@2__:monitor:health:latest', 'set');
+    expect(updates).toBe(1);
+    await reader.close();
+  });
+
+  it('reports a failed subscription so the poll carries on', async () => {
+    const subscriber = new FakeSubscriber();
+    subscriber.subscribe = async () => { throw new Error('Connection is closed.'); };
+    const reader = new HealthReader(makeConfig('pubsub'), subscriber as unknown as Redis);
+
+    expect(await reader.subscribe(() => {})).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Health Update Trigger
+ *
+ * Paces daemon check cycles. A cycle runs every `healthCheckIntervalSeconds`
+ * (the poll fallback), or sooner when a push update says new health data has
+ * landed — but never within `minIntervalSeconds` of the previous cycle start,
+ * so a chatty publisher can't drive the watchdog in a tight loop. Updates
+ * arriving mid-cycle are coalesced into one follow-up cycle.
+ */
+
+/**
+ * Interval tick (1-based) a check starting at `now` falls in. Cycle-counted
+ * settings (confirmation windows, recovery, `everyCycles`) count ticks, so
+ * extra push-triggered checks don't make them shorter in time.
+ *
+ * This is a PURE FUNCTION.
+ */
+export function cycleTick(startedAt: number, intervalMs: number, now: number): number {
+  return Math.floor((now - startedAt) / intervalMs) + 1;
+}
+
+/** Why the next cycle started */
+export type CycleReason = 'interval' | 'update';
+
+export class HealthUpdateTrigger {
+  private lastStart = 0;
+  private pending = false;
+  private wake: (() => void) | null = null;
+
+  constructor(
+    private readonly intervalMs: number,
+    private readonly minIntervalMs: number,
+  ) {}
+
+  /** Mark the start of a check cycle. */
+  started(now = Date.now()): void {
+    this.lastStart = now;
+    this.pending = false;
+  }
+
+  /** New health data has arrived. */
+  notify(): void {
+    this.pending = true;
+    this.wake?.();
+  }
+
+  /**
+   * Wait until the next cycle is due.
+   */
+  async wait(): Promise<CycleReason> {
+    for (;;) {
+      const now = Date.now();
+      const updateDue = this.pending ? this.lastStart + this.minIntervalMs : Infinity;
+      const due = Math.min(this.lastStart + this.intervalMs, updateDue);
+      if (now >= due) return now >= updateDue ? 'update' : 'interval';
+
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(() => this.wake?.(), due - now);
+        this.wake = () => {
+          clearTimeout(timer);
+          this.wake = null;
+          resolve();
+        };
+      });
+    }
+  }
+}
@@ -39,6 +39,53 @@ export async function getHypergraphCluster(url: string): Promise<ClusterMember[]
   return (await fetchJson<ClusterMember[]>(`${normalized}/cluster/info`)) ?? [];
 }
 
+/** State channel submission from a metagraph, as included in a global snapshot */
+export interface StateChannelSnapshotBinary {
+  lastSnapshotHash: string;
+  /** Serialized signed metagraph snapshot (JSON bytes) */
+  content: number[];
+}
+
+/** Latest global snapshot (only the fields the watchdog reads) */
+export interface GlobalSnapshot {
+  ordinal: number;
+  /** Metagraph address → state channel snapshots included in this global snapshot */
+  stateChannelSnapshots: Record<string, Array<{ value: StateChannelSnapshotBinary }>>;
+}
+
+async function fetchGlobalSnapshot(url: string, ref: string): Promise<GlobalSnapshot | null> {
+  const normalized = url.replace(/\/$/, '');
+  const data = await fetchJson<{ value?: Partial<GlobalSnapshot> }>(`${normalized}/global-snapshots/${ref}`);
+  if (typeof data?.value?.ordinal !== 'number') return null;
+  return {
+    ordinal: data.value.ordinal,
+    stateChannelSnapshots: data.value.stateChannelSnapshots ?? {},
+  };
+}
+
+/**
+ * Get the latest global snapshot from a GL0 / hypergraph L0 endpoint.
+ */
+export async function getLatestGlobalSnapshot(url: string): Promise<GlobalSnapshot | null> {
+  return fetchGlobalSnapshot(url, 'latest');
+}
+
+/**
+ * Get the global snapshot at an ordinal from a GL0 / hypergraph L0 endpoint.
+ */
+export async function getGlobalSnapshotAt(url: string, ordinal: number): Promise<GlobalSnapshot | null> {
+  return fetchGlobalSnapshot(url, String(ordinal));
+}
+
+/**
+ * Get the latest global snapshot ordinal from a GL0 / hypergraph L0 endpoint.
+ */
+export async function getLatestGlobalOrdinal(url: string): Promise<number | null> {
+  const normalized = url.replace(/\/$/, '');
+  const data = await fetchJson<{ value?: unknown }>(`${normalized}/global-snapshots/latest/ordinal`);
+  return typeof data?.value === 'number' ? data.value : null;
+}
+
 /**
  * Try multiple URLs, return first successful result.
  */
@@ -62,3 +109,6 @@ export async function tryFirstSuccess<T>(
 /** Fetch type for dependency injection in tests */
 export type HypergraphL0Fetch = (url: string) => Promise<NodeInfo | null>;
 export type HypergraphClusterFetch = (url: string) => Promise<ClusterMember[]>;
+export type GlobalSnapshotFetch = (url: string) => Promise<GlobalSnapshot | null>;
+export type GlobalSnapshotAtFetch = (url: string, ordinal: number) => Promise<GlobalSnapshot | null>;
+export type GlobalOrdinalFetch = (url: string) => Promise<number | null>;
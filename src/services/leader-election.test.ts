@@ -0,0 +1,126 @@
+/**
+ * Leader Election Tests
+ *
+ * Runs two replicas against a fake Redis that emulates the lease scripts
+ * (GET/SET PX/INCR semantics with a controllable clock).
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Redis } from 'ioredis';
+import { LeaderElection } from './leader-election.js';
+import type { Config } from '../config.js';
+
+// ---------------------------------------------------------------------------
+// Fake Redis
+// ---------------------------------------------------------------------------
+
+class FakeRedis {
+  now = 0;
+  down = false;
+  private lease: { value: string; expiresAt: number } | null = null;
+  private counter = 0;
+
+  private current(): string | null {
+    if (this.lease && this.lease.expiresAt <= this.now) this.lease = null;
+    return this.lease?.value ?? null;
+  }
+
+  async eval(_script: string, numKeys: number, ...args: Array<string | number>): Promise<unknown> {
+    if (this.down) throw new Error('Connection is closed.');
+    const cur = this.current();
+
+    if (numKeys === 1) {
+      // release(lease, value)
+      if (cur === args[1]) { this.lease = null; return 1; }
+      return 0;
+    }
+
+    // acquireOrRenew(lease, token, instanceId, ttlMs, held)
+    const [, , id, ttl, held] = args;
+    if (cur && cur === held) {
+      this.lease = { value: cur, expiresAt: this.now + Number(ttl) };
+      return cur;
+    }
+    if (cur) return cur;
+    const value = `${id}:${++this.counter}`;
+    this.lease = { value, expiresAt: this.now + Number(ttl) };
+    return value;
+  }
+
+  disconnect(): void {}
+}
+
+function makeReplica(redis: FakeRedis, instanceId: string): LeaderElection {
+  const config = { instanceId, leaderElection: true, leaderLeaseSeconds: 60, redisUrl: '' } as Config;
+  return new LeaderElection(config, redis as unknown as Redis);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('LeaderElection', () => {
+  it('is always leader when election is disabled', async () => {
+    const config = { instanceId: 'solo', leaderElection: false, leaderLeaseSeconds: 60, redisUrl: 'redis://localhost:6379' } as Config;
+    const election = new LeaderElection(config);
+
+    expect(await election.renew()).toMatchObject({ isLeader: true, leaderId: 'solo', token: null });
+    expect(await election.fence().check()).toBe(true);
+  });
+
+  it('elects exactly one leader and reports it to followers', async () => {
+    const redis = new FakeRedis();
+    const a = makeReplica(redis, 'a');
+    const b = makeReplica(redis, 'b');
+
+    expect(await a.renew(redis.now)).toMatchObject({ isLeader: true, leaderId: 'a', token: 1 });
+    expect(await b.renew(redis.now)).toMatchObject({ isLeader: false, leaderId: 'a', token: null });
+
+    // Renewal keeps the same token
+    redis.now += 30_000;
+    expect(await a.renew(redis.now)).toMatchObject({ isLeader: true, token: 1 });
+  });
+
+  it('hands over with a higher fencing token when the lease expires', async () => {
+    const redis = new FakeRedis();
+    const a = makeReplica(redis, 'a');
+    const b = makeReplica(redis, 'b');
+    await a.renew(redis.now);
+    const fence = a.fence();
+
+    redis.now += 61_000;
+    expect(await b.renew(redis.now)).toMatchObject({ isLeader: true, token: 2 });
+
+    // The old leader's fence fails, so its restart stops
+    expect(await fence.check()).toBe(false);
+    expect(await a.renew(redis.now)).toMatchObject({ isLeader: false, leaderId: 'b' });
+  });
+
+  it('releases the lease on close so a follower takes over at once', async () => {
+    const redis = new FakeRedis();
+    const a = makeReplica(redis, 'a');
+    const b = makeReplica(redis, 'b');
+    await a.renew(redis.now);
+
+    await a.close();
+    expect(await b.renew(redis.now)).toMatchObject({ isLeader: true });
+  });
+
+  it('keeps leadership through a Redis blip only until the lease would expire', async () => {
+    const redis = new FakeRedis();
+    const a = makeReplica(redis, 'a');
+    await a.renew(0);
+
+    redis.down = true;
+    expect((await a.renew(30_000)).isLeader).toBe(true);
+    expect((await a.renew(61_000)).isLeader).toBe(false);
+  });
+
+  it('never becomes leader while Redis is unreachable', async () => {
+    const redis = new FakeRedis();
+    redis.down = true;
+    const a = makeReplica(redis, 'a');
+
+    expect(await a.renew(0)).toMatchObject({ isLeader: false, leaderId: null });
+  });
+});
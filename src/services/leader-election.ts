@@ -0,0 +1,194 @@
+/**
+ * Leader Election
+ *
+ * Redis lease so several watchdog replicas can run side by side while only
+ * one of them executes restarts. The lease value is `<instanceId>:<token>`,
+ * where the token comes from a counter incremented on every acquisition —
+ * a monotonically increasing fencing token. Restarts check the lease is
+ * still held with the same token before every phase, so a replica that lost
+ * its lease (GC pause, partition) stops instead of racing the new leader.
+ *
+ * The lease is renewed every check cycle. With election disabled (the
+ * default, single replica) this instance is always the leader.
+ */
+
+import type { Redis } from 'ioredis';
+import type { Config } from '../config.js';
+import { createRedisClient } from './redis.js';
+import { log } from '../logger.js';
+
+/** Redis key holding the current lease (`<instanceId>:<token>`, with TTL) */
+const LEASE_KEY = 'watchdog:leader';
+
+/** Redis counter issuing fencing tokens */
+const TOKEN_KEY = 'watchdog:leader:token';
+
+/**
+ * Renew our lease if we hold it, else acquire it if free.
+ * KEYS: lease, token counter. ARGV: instanceId, ttl ms, our current lease value ('' if none).
+ * Returns the lease value after the call (ours or the current holder's).
+ */
+const ACQUIRE_OR_RENEW = `
+local cur = redis.call('GET', KEYS[1])
+if cur and cur == ARGV[3] then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  return cur
+end
+if cur then return cur end
+local v = ARGV[1] .. ':' .. redis.call('INCR', KEYS[2])
+redis.call('SET', KEYS[1], v, 'PX', ARGV[2])
+return v
+`;
+
+/** Release the lease only if we still hold it. */
+const RELEASE = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+export interface LeaderStatus {
+  instanceId: string;
+  isLeader: boolean;
+  /** Current lease holder, null if unknown (Redis unavailable) */
+  leaderId: string | null;
+  /** Our fencing token while leader */
+  token: number | null;
+}
+
+/**
+ * Fencing check handed to the restart orchestrator: `token` is recorded with
+ * the restart, `check()` re-validates (and extends) the lease.
+ */
+export interface LeaderFence {
+  token: number | null;
+  check(): Promise<boolean>;
+}
+
+function parseLease(value: string): { id: string; token: number } {
+  const sep = value.lastIndexOf(':');
+  return { id: value.slice(0, sep), token: parseInt(value.slice(sep + 1), 10) };
+}
+
+export class LeaderElection {
+  readonly instanceId: string;
+  private redis: Redis | null = null;
+  private readonly enabled: boolean;
+  private readonly leaseMs: number;
+  private lease: string | null = null;
+  private leaderId: string | null = null;
+  private renewedAt = 0;
+  /** Leadership at the previous renewal (null before the first) */
+  private wasLeader: boolean | null = null;
+
+  /** `client` overrides the Redis connection (tests). */
+  constructor(config: Config, client?: Redis) {
+    this.instanceId = config.instanceId;
+    this.leaseMs = config.leaderLeaseSeconds * 1000;
+    this.enabled = config.leaderElection && (!!config.redisUrl || !!client);
+
+    if (!this.enabled) {
+      log('[Leader] Leader election disabled, this instance always executes restarts');
+      return;
+    }
+    if (client) {
+      this.redis = client;
+      return;
+    }
+
+    try {
+      this.redis = createRedisClient(config.redisUrl, 'Leader');
+      this.redis.on('error', (err: Error) => {
+        log(`[Leader] Redis error: ${err.message}`);
+      });
+    } catch (err) {
+      log(`[Leader] Failed to initialize Redis: ${err}`);
+      this.redis = null;
+    }
+  }
+
+  private status(): LeaderStatus {
+    if (!this.enabled) {
+      return { instanceId: this.instanceId, isLeader: true, leaderId: this.instanceId, token: null };
+    }
+    return {
+      instanceId: this.instanceId,
+      isLeader: this.lease !== null,
+      leaderId: this.leaderId,
+      token: this.lease ? parseLease(this.lease).token : null,
+    };
+  }
+
+  /**
+   * Acquire or renew the lease (call once per check cycle).
+   *
+   * If Redis is unreachable we keep leadership only until our last lease
+   * would have expired — by then another replica may have taken over.
+   */
+  async renew(now = Date.now()): Promise<LeaderStatus> {
+    if (!this.enabled) return this.status();
+
+    const held = this.lease;
+    try {
+      if (!this.redis) throw new Error('no Redis client');
+      const value = await this.redis.eval(
+        ACQUIRE_OR_RENEW, 2, LEASE_KEY, TOKEN_KEY, this.instanceId, this.leaseMs, held ?? '',
+      ) as string;
+
+      const { id } = parseLease(value);
+      this.leaderId = id;
+      this.lease = id === this.instanceId ? value : null;
+      this.renewedAt = this.lease ? now : this.renewedAt;
+    } catch (err) {
+      if (held && now - this.renewedAt < this.leaseMs) {
+        log(`[Leader] Lease renewal failed (${err}), keeping leadership until lease expiry`);
+      } else {
+        if (held) log(`[Leader] Lease renewal failed (${err}), stepping down`);
+        this.lease = null;
+        this.leaderId = null;
+      }
+    }
+
+    const status = this.status();
+    if (status.isLeader !== this.wasLeader || (held && held !== this.lease)) {
+      log(status.isLeader
+        ? `[Leader] ${this.instanceId} is now leader (fencing token ${status.token})`
+        : `[Leader] ${this.instanceId} is a follower (leader: ${this.leaderId ?? 'unknown'})`);
+    }
+    this.wasLeader = status.isLeader;
+    return status;
+  }
+
+  /** Fence for the restart about to run under the current lease. */
+  fence(): LeaderFence {
+    const lease = this.lease;
+    const token = this.status().token;
+    return {
+      token,
+      check: async () => {
+        if (!this.enabled) return true;
+        await this.renew();
+        return lease !== null && this.lease === lease;
+      },
+    };
+  }
+
+  /**
+   * Release the lease on shutdown so a follower can take over immediately.
+   */
+  async close(): Promise<void> {
+    if (this.redis) {
+      if (this.lease) {
+        try {
+          await this.redis.eval(RELEASE, 1, LEASE_KEY, this.lease);
+        } catch (err) {
+          log(`[Leader] Failed to release lease: ${err}`);
+        }
+      }
+      this.redis.disconnect();
+      this.redis = null;
+    }
+    this.lease = null;
+  }
+}
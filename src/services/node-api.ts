@@ -1,7 +1,7 @@
 /**
  * Tessellation node HTTP API client.
  *
- * Fetches /node/info, /cluster/info, snapshot ordinals from each node.
+ * Fetches /node/info, /cluster/info, snapshot ordinals and hashes from each node.
  */
 
 import type { Layer, NodeInfo, ClusterMember, NodeHealth } from '../types.js';
@@ -31,17 +31,33 @@ export async function getClusterInfo(ip: string, port: number): Promise<ClusterM
   return (await fetchJson<ClusterMember[]>(`http://${ip}:${port}/cluster/info`)) ?? [];
 }
 
-export async function getLatestOrdinal(ip: string, port: number, layer: Layer): Promise<number> {
+/** Latest snapshot reference reported by a node */
+export interface SnapshotRef {
+  ordinal: number;
+  /** Hash of the snapshot preceding `ordinal` (links the chain) */
+  lastSnapshotHash?: string;
+}
+
+export async function getLatestSnapshotRef(ip: string, port: number, layer: Layer): Promise<SnapshotRef> {
   // Different layers have different snapshot endpoints
   const endpoint = layer === 'gl0'
     ? '/global-snapshots/latest'
     : '/snapshots/latest';
 
-  const data = await fetchJson<{ value?: { ordinal?: number }; ordinal?: number }>(
-    `http://${ip}:${port}${endpoint}`
-  );
+  const data = await fetchJson<{
+    value?: { ordinal?: number; lastSnapshotHash?: string };
+    ordinal?: number;
+    lastSnapshotHash?: string;
+  }>(`http://${ip}:${port}${endpoint}`);
 
-  return data?.value?.ordinal ?? data?.ordinal ?? -1;
+  return {
+    ordinal: data?.value?.ordinal ?? data?.ordinal ?? -1,
+    lastSnapshotHash: data?.value?.lastSnapshotHash ?? data?.lastSnapshotHash,
+  };
+}
+
+export async function getLatestOrdinal(ip: string, port: number, layer: Layer): Promise<number> {
+  return (await getLatestSnapshotRef(ip, port, layer)).ordinal;
 }
 
 /**
@@ -52,10 +68,10 @@ export async function checkNodeHealth(
   layer: Layer,
   port: number,
 ): Promise<NodeHealth> {
-  const [info, cluster, ordinal] = await Promise.all([
+  const [info, cluster, snapshot] = await Promise.all([
     getNodeInfo(ip, port),
     getClusterInfo(ip, port),
-    getLatestOrdinal(ip, port, layer),
+    getLatestSnapshotRef(ip, port, layer),
   ]);
 
   return {
@@ -64,7 +80,8 @@ export async function checkNodeHealth(
     reachable: info !== null,
     state: info?.state ?? 'Unreachable',
     cluster,
-    ordinal,
+    ordinal: snapshot.ordinal,
+    lastSnapshotHash: snapshot.lastSnapshotHash,
   };
 }
 
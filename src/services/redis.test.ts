@@ -0,0 +1,112 @@
+/**
+ * Redis Client Tests
+ *
+ * Runs a real client against a minimal in-process RESP server that can be
+ * stopped and restarted, to check the client survives an outage.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type AddressInfo, type Server, type Socket } from 'net';
+import type { Redis } from 'ioredis';
+import { createRedisClient, reconnectDelay } from './redis.js';
+
+// ---------------------------------------------------------------------------
+// Fake Redis server (GET/SET/INFO only)
+// ---------------------------------------------------------------------------
+
+class FakeRedisServer {
+  private server: Server | null = null;
+  private sockets = new Set<Socket>();
+  private data = new Map<string, string>();
+  port = 0;
+
+  async start(): Promise<void> {
+    this.server = createServer(socket => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+      socket.on('error', () => {});
+      let buffer = '';
+      socket.on('data', chunk => {
+        buffer += chunk.toString();
+        let parsed: { args: string[]; rest: string } | null;
+        while ((parsed = parseCommand(buffer))) {
+          buffer = parsed.rest;
+          socket.write(this.reply(parsed.args));
+        }
+      });
+    });
+    await new Promise<void>(resolve => this.server!.listen(this.port, '127.0.0.1', resolve));
+    this.port = (this.server!.address() as AddressInfo).port;
+  }
+
+  /** Drop all connections and stop listening (Redis down). */
+  async stop(): Promise<void> {
+    this.sockets.forEach(s => s.destroy());
+    await new Promise<void>(resolve => this.server?.close(() => resolve()));
+    this.server = null;
+  }
+
+  private reply([command, ...args]: string[]): string {
+    switch (command.toUpperCase()) {
+      case 'INFO': return bulk('# Server\r\nredis_version:7.2.0\r\nloading:0\r\n');
+      case 'SET': this.data.set(args[0], args[1]); return '+OK\r\n';
+      case 'GET': return this.data.has(args[0]) ? bulk(this.data.get(args[0])!) : '$-1\r\n';
+      default: return `-ERR unknown command '${command}'\r\n`;
+    }
+  }
+}
+
+function bulk(value: string): string {
+  return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+/** Parse one RESP array of bulk strings, or null if incomplete */
+function parseCommand(input: string): { args: string[]; rest: string } | null {
+  const lines = input.split('\r\n');
+  if (lines.length < 2 || !lines[0].startsWith('*')) return null;
+  const count = parseInt(lines[0].slice(1), 10);
+  if (lines.length < 1 + count * 2 + 1) return null;
+  const args = Array.from({ length: count }, (_, i) => lines[2 + i * 2]);
+  return { args, rest: lines.slice(1 + count * 2).join('\r\n') };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('createRedisClient()', () => {
+  let server: FakeRedisServer;
+  let client: Redis | null = null;
+
+  afterEach(async () => {
+    client?.disconnect();
+    await server?.stop();
+  });
+
+  it('keeps reconnecting with a capped backoff', () => {
+    expect(reconnectDelay(1)).toBe(200);
+    expect(reconnectDelay(10)).toBe(2000);
+    expect(reconnectDelay(1000)).toBe(5000);
+  });
+
+  it('works again once Redis is back after an outage', async () => {
+    server = new FakeRedisServer();
+    await server.start();
+    client = createRedisClient(`redis://127.0.0.1:${server.port}`, 'Test');
+    client.on('error', () => {});
+
+    await client.set('k', 'before');
+    expect(await client.get('k')).toBe('before');
+
+    // Outage long enough to exhaust the old 3-retry limit (200+400+600 ms)
+    await server.stop();
+    await expect(client.get('k')).rejects.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 2000));
+    expect(client.status).not.toBe('end');
+
+    await server.start();
+    await new Promise<void>(resolve => client!.once('ready', () => resolve()));
+    await client.set('k', 'after');
+    expect(await client.get('k')).toBe('after');
+  }, 20_000);
+});
@@ -0,0 +1,101 @@
+/**
+ * Shared Redis client factory.
+ *
+ * All watchdog Redis connections use the same short timeouts, so a Redis
+ * outage degrades to fallbacks instead of hanging a check cycle. Clients are
+ * long-lived and never give up reconnecting: a client that stopped retrying
+ * would fail every later command, even once Redis is back.
+ */
+
+import { Redis } from 'ioredis';
+import { log } from '../logger.js';
+
+/** Longest wait between reconnection attempts */
+const MAX_RETRY_DELAY_MS = 5000;
+
+/** Attempts after which an outage is logged (once per outage) */
+const LOG_AFTER_ATTEMPTS = 3;
+
+/**
+ * Delay before reconnection attempt `times` (1-based): linear backoff,
+ * capped. Never null, so the client keeps reconnecting.
+ *
+ * This is a PURE FUNCTION.
+ */
+export function reconnectDelay(times: number): number {
+  return Math.min(times * 200, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Create a lazily-connected Redis client.
+ * `tag` prefixes log lines (e.g. 'HealthReader'). With a `fallback`, the
+ * client's connection errors and recoveries switch it (stores with an
+ * in-memory fallback).
+ */
+export function createRedisClient(url: string, tag: string, fallback?: RedisFallback): Redis {
+  const client = new Redis(url, {
+    maxRetriesPerRequest: 1,
+    connectTimeout: 5000,
+    commandTimeout: 3000,
+    lazyConnect: true,
+    retryStrategy: (times: number) => {
+      if (times === LOG_AFTER_ATTEMPTS + 1) {
+        log(`[${tag}] Redis connection failed, retrying every ${MAX_RETRY_DELAY_MS / 1000}s at most`);
+      }
+      return reconnectDelay(times);
+    },
+  });
+  let lost = false;
+  client.on('reconnecting', () => { lost = true; });
+  client.on('ready', () => {
+    if (lost) log(`[${tag}] Redis connection restored`);
+    lost = false;
+    fallback?.ok();
+  });
+  if (fallback) client.on('error', (err: Error) => fallback.failed(err));
+  return client;
+}
+
+/** A Redis-backed store switching to or from its in-memory fallback */
+export interface FallbackChange {
+  store: string;
+  /** true: serving from memory (not shared with replicas, lost on exit) */
+  active: boolean;
+  error?: string;
+}
+
+/**
+ * Tracks whether a Redis-backed store is running on its in-memory fallback.
+ * Stores call `failed()` when a Redis operation fails and `ok()` when one
+ * succeeds; each switch is logged once and passed to the change listener,
+ * rather than every failed operation being logged on its own.
+ */
+export class RedisFallback {
+  private error: string | null = null;
+  private listener: ((change: FallbackChange) => void) | null = null;
+
+  constructor(readonly store: string) {}
+
+  /** Whether the store is currently serving from memory */
+  get active(): boolean {
+    return this.error !== null;
+  }
+
+  onChange(listener: (change: FallbackChange) => void): void {
+    this.listener = listener;
+  }
+
+  failed(err: unknown): void {
+    if (this.error !== null) return;
+    this.error = err instanceof Error ? err.message : String(err);
+    log(`[${this.store}] Redis unavailable (${this.error}), using in-memory fallback: not shared with other replicas or persisted until Redis returns`);
+    this.listener?.({ store: this.store, active: true, error: this.error });
+  }
+
+  ok(): void {
+    if (this.error === null) return;
+    this.error = null;
+    log(`[${this.store}] Redis available again, leaving in-memory fallback`);
+    this.listener?.({ store: this.store, active: false });
+  }
+}
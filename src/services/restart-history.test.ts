@@ -0,0 +1,118 @@
+/**
+ * Restart History Store Tests
+ *
+ * Covers the in-memory fallback used when Redis is not configured, and a
+ * fake Redis going down and coming back.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Redis } from 'ioredis';
+import { RestartHistoryStore } from './restart-history.js';
+import type { FallbackChange } from './redis.js';
+import type { Config } from '../config.js';
+import type { RestartEvent } from '../types.js';
+
+function makeEvent(minutesAgo: number, condition = 'UnhealthyNodes'): RestartEvent {
+  return {
+    timestamp: new Date(Date.now() - minutesAgo * 60_000).toISOString(),
+    scope: 'individual-node',
+    condition,
+    layers: ['dl1'],
+    nodes: ['10.0.0.2'],
+    success: true,
+  };
+}
+
+describe('RestartHistoryStore (in-memory)', () => {
+  it('returns recorded events oldest first', async () => {
+    const store = new RestartHistoryStore(null);
+    await store.record(makeEvent(30, 'A'));
+    await store.record(makeEvent(5, 'B'));
+
+    const events = await store.list();
+    expect(events.map(e => e.condition)).toEqual(['A', 'B']);
+  });
+
+  it('filters events by time window', async () => {
+    const store = new RestartHistoryStore(null);
+    await store.record(makeEvent(90));
+    await store.record(makeEvent(10));
+
+    const lastHour = await store.since(Date.now() - 60 * 60_000);
+    expect(lastHour).toHaveLength(1);
+  });
+
+  it('drops events older than the retention window', async () => {
+    const store = new RestartHistoryStore(null);
+    await store.record(makeEvent(25 * 60));
+    await store.record(makeEvent(1));
+
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it('keeps events as long as the longest restart budget window', async () => {
+    const config = {
+      redisUrl: '',
+      restartBudgets: [{ name: 'weekly', scope: 'full-metagraph', maxRestarts: 2, windowMinutes: 7 * 24 * 60, cooldownMinutes: 0 }],
+    } as unknown as Config;
+    const store = new RestartHistoryStore(config);
+    await store.record(makeEvent(3 * 24 * 60));
+    await store.record(makeEvent(8 * 24 * 60));
+
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it('load is a no-op without Redis', async () => {
+    const store = new RestartHistoryStore(null);
+    await store.record(makeEvent(1));
+    await store.load();
+    expect(await store.list()).toHaveLength(1);
+  });
+});
+
+/** Sorted-set fake: just enough of ZADD/ZRANGEBYSCORE/MULTI for the store */
+class FakeRedis {
+  down = false;
+  events = new Map<string, number>();
+
+  multi() {
+    const ops: Array<() => void> = [];
+    const chain = {
+      zadd: (_key: string, score: number, member: string) => { ops.push(() => this.events.set(member, score)); return chain; },
+      zremrangebyscore: () => chain,
+      exec: async () => {
+        if (this.down) throw new Error('Connection is closed.');
+        ops.forEach(op => op());
+        return [];
+      },
+    };
+    return chain;
+  }
+
+  async zrangebyscore(): Promise<string[]> {
+    if (this.down) throw new Error('Connection is closed.');
+    return [...this.events.entries()].sort((a, b) => a[1] - b[1]).map(([member]) => member);
+  }
+}
+
+describe('RestartHistoryStore (Redis outage)', () => {
+  it('reports the memory fallback and writes outage events once Redis is back', async () => {
+    const redis = new FakeRedis();
+    const store = new RestartHistoryStore(null, redis as unknown as Redis);
+    const changes: FallbackChange[] = [];
+    store.fallback.onChange(change => changes.push(change));
+
+    redis.down = true;
+    await store.record(makeEvent(10, 'DuringOutage'));
+    expect(store.fallback.active).toBe(true);
+    expect((await store.list()).map(e => e.condition)).toEqual(['DuringOutage']);
+
+    redis.down = false;
+    await store.record(makeEvent(1, 'After'));
+    expect(store.fallback.active).toBe(false);
+    expect(redis.events.size).toBe(2);
+    expect((await store.list()).map(e => e.condition)).toEqual(['DuringOutage', 'After']);
+    expect(changes.map(c => c.active)).toEqual([true, false]);
+    expect(changes[0]).toMatchObject({ store: 'RestartHistory', error: 'Connection is closed.' });
+  });
+});
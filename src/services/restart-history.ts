@@ -0,0 +1,139 @@
+/**
+ * Restart History Store
+ *
+ * Persists restart events in Redis so cooldown and rate limits hold across
+ * watchdog restarts, redeploys and replicas. Events live in a sorted set
+ * scored by timestamp and are trimmed to a retention window on every write:
+ * 24h, or longer if a restart budget looks further back.
+ *
+ * Falls back to an in-memory list if Redis is unavailable, so restarts are
+ * still rate limited within the current process; events recorded meanwhile
+ * are written to Redis once it's back.
+ */
+
+import type { Redis } from 'ioredis';
+import type { Config } from '../config.js';
+import type { RestartEvent } from '../types.js';
+import { budgetLookbackMinutes } from '../restart/budgets.js';
+import { createRedisClient, RedisFallback } from './redis.js';
+import { log } from '../logger.js';
+
+/** Redis key holding restart events (sorted set, score = timestamp ms) */
+const HISTORY_KEY = 'watchdog:restart:history';
+
+/** How long restart events are kept at least */
+const MIN_RETENTION_MS = 24 * 60 * 60_000;
+
+export class RestartHistoryStore {
+  private redis: Redis | null = null;
+  /** Whether Redis is unavailable and memory serves instead */
+  readonly fallback = new RedisFallback('RestartHistory');
+  private memory: RestartEvent[] = [];
+  /** Events recorded while Redis was unavailable, written once it's back */
+  private unsynced: RestartEvent[] = [];
+  /** Covers the longest budget window or cooldown, so no budget undercounts */
+  private readonly retentionMs: number;
+
+  /**
+   * Pass null for a purely in-memory store (tests, no Redis configured).
+   * `client` overrides the Redis connection (tests).
+   */
+  constructor(config: Config | null, client?: Redis) {
+    this.retentionMs = Math.max(MIN_RETENTION_MS, budgetLookbackMinutes(config?.restartBudgets ?? []) * 60_000);
+    if (client) {
+      this.redis = client;
+      return;
+    }
+    if (!config?.redisUrl) {
+      log('[RestartHistory] No Redis URL configured, restart history is in-memory only');
+      return;
+    }
+
+    try {
+      this.redis = createRedisClient(config.redisUrl, 'RestartHistory', this.fallback);
+    } catch (err) {
+      log(`[RestartHistory] Failed to initialize Redis: ${err}`);
+      this.redis = null;
+    }
+  }
+
+  /**
+   * Load persisted history into memory (call once at startup).
+   */
+  async load(): Promise<void> {
+    const events = await this.readRedis(Date.now() - this.retentionMs);
+    if (events === null) return;
+
+    this.memory = events;
+    const lastHour = events.filter(e => Date.parse(e.timestamp) > Date.now() - 60 * 60_000).length;
+    log(`[RestartHistory] Loaded ${events.length} restart(s) from Redis (${lastHour} in the last hour)`);
+  }
+
+  /**
+   * Record a restart event.
+   */
+  async record(event: RestartEvent): Promise<void> {
+    this.memory.push(event);
+    this.memory = this.memory.filter(e => Date.parse(e.timestamp) > Date.now() - this.retentionMs);
+
+    if (!this.redis) return;
+    this.unsynced.push(event);
+    try {
+      await this.flush(this.redis);
+    } catch (err) {
+      this.fallback.failed(err);
+      log(`[RestartHistory] Failed to persist restart event: ${err}`);
+    }
+  }
+
+  /** Write events recorded during an outage, so other replicas see them. */
+  private async flush(redis: Redis): Promise<void> {
+    if (this.unsynced.length === 0) return;
+    const multi = redis.multi();
+    for (const e of this.unsynced) multi.zadd(HISTORY_KEY, Date.parse(e.timestamp), JSON.stringify(e));
+    await multi.zremrangebyscore(HISTORY_KEY, '-inf', Date.now() - this.retentionMs).exec();
+    this.unsynced = [];
+    this.fallback.ok();
+  }
+
+  /**
+   * Restart events since the given time (oldest first).
+   * Reads from Redis so events recorded by other replicas are included.
+   */
+  async since(sinceMs: number): Promise<RestartEvent[]> {
+    const events = await this.readRedis(sinceMs);
+    if (events !== null) return events;
+    return this.memory.filter(e => Date.parse(e.timestamp) > sinceMs);
+  }
+
+  /**
+   * All retained restart events (oldest first).
+   */
+  async list(): Promise<RestartEvent[]> {
+    return this.since(Date.now() - this.retentionMs);
+  }
+
+  private async readRedis(sinceMs: number): Promise<RestartEvent[] | null> {
+    if (!this.redis) return null;
+    try {
+      await this.flush(this.redis);
+      const raw = await this.redis.zrangebyscore(HISTORY_KEY, `(${sinceMs}`, '+inf');
+      this.fallback.ok();
+      return raw.map(r => JSON.parse(r) as RestartEvent);
+    } catch (err) {
+      this.fallback.failed(err);
+      log(`[RestartHistory] Redis read failed: ${err}, using in-memory history`);
+      return null;
+    }
+  }
+
+  /**
+   * Close connections.
+   */
+  async close(): Promise<void> {
+    if (this.redis) {
+      this.redis.disconnect();
+      this.redis = null;
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Restart Journal Store Tests
+ *
+ * Covers the in-memory fallback used when Redis is not configured.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RestartJournalStore } from './restart-journal.js';
+import type { DetectionResult, RestartPlan } from '../types.js';
+
+const detection: DetectionResult = {
+  detected: true,
+  condition: 'SnapshotsStopped',
+  details: 'stalled',
+  restartScope: 'full-metagraph',
+};
+
+const plan: RestartPlan = {
+  scope: 'full-metagraph',
+  condition: 'SnapshotsStopped',
+  phases: [
+    { description: 'Kill ML0 on all nodes', steps: [], settleMs: 0 },
+    { description: 'Start ML0 genesis', steps: [], settleMs: 0 },
+  ],
+};
+
+describe('RestartJournalStore (in-memory)', () => {
+  it('reports a running entry as unfinished', async () => {
+    const journal = new RestartJournalStore(null);
+    await journal.begin('run-1', detection, plan);
+
+    const entry = await journal.loadUnfinished();
+    expect(entry?.runId).toBe('run-1');
+    expect(entry?.nextPhase).toBe(0);
+  });
+
+  it('tracks phase progress', async () => {
+    const journal = new RestartJournalStore(null);
+    const entry = await journal.begin('run-1', detection, plan);
+    await journal.update(entry, { nextPhase: 1 });
+
+    expect((await journal.loadUnfinished())?.nextPhase).toBe(1);
+  });
+
+  it('does not report completed, failed or abandoned runs', async () => {
+    for (const status of ['completed', 'failed', 'abandoned'] as const) {
+      const journal = new RestartJournalStore(null);
+      const entry = await journal.begin('run-1', detection, plan);
+      await journal.update(entry, { status });
+      expect(await journal.loadUnfinished()).toBeNull();
+    }
+  });
+
+  it('returns null when nothing was journaled', async () => {
+    expect(await new RestartJournalStore(null).loadUnfinished()).toBeNull();
+  });
+});
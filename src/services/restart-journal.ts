@@ -0,0 +1,126 @@
+/**
+ * Restart Journal Store
+ *
+ * Durable step journal for the restart currently in progress. Every run
+ * stores its plan and the index of the next phase to execute, so a watchdog
+ * killed halfway through (e.g. after the kill phase of a full metagraph
+ * restart) can pick the run up again on startup.
+ *
+ * Only one run is journaled at a time — restarts never run concurrently.
+ * Falls back to in-memory storage if Redis is unavailable.
+ */
+
+import type { Redis } from 'ioredis';
+import type { Config } from '../config.js';
+import type { DetectionResult, RestartPlan } from '../types.js';
+import { createRedisClient, RedisFallback } from './redis.js';
+import { log } from '../logger.js';
+
+/** Redis key holding the current (or last) journaled run */
+const JOURNAL_KEY = 'watchdog:restart:journal';
+
+export type JournalStatus = 'running' | 'completed' | 'failed' | 'abandoned';
+
+/** Journal entry for one restart run */
+export interface RestartJournalEntry {
+  runId: string;
+  startedAt: string;
+  updatedAt: string;
+  detection: DetectionResult;
+  plan: RestartPlan;
+  /** Index of the next phase to execute (= number of completed phases) */
+  nextPhase: number;
+  status: JournalStatus;
+  error?: string;
+}
+
+export class RestartJournalStore {
+  private redis: Redis | null = null;
+  /** Whether Redis is unavailable and memory serves instead */
+  readonly fallback = new RedisFallback('RestartJournal');
+  private memory: RestartJournalEntry | null = null;
+
+  /** Pass null for a purely in-memory journal (tests, no Redis configured). */
+  constructor(config: Config | null) {
+    if (!config?.redisUrl) {
+      log('[RestartJournal] No Redis URL configured, restart journal is in-memory only');
+      return;
+    }
+
+    try {
+      this.redis = createRedisClient(config.redisUrl, 'RestartJournal', this.fallback);
+    } catch (err) {
+      log(`[RestartJournal] Failed to initialize Redis: ${err}`);
+      this.redis = null;
+    }
+  }
+
+  /**
+   * Start journaling a new run.
+   */
+  async begin(runId: string, detection: DetectionResult, plan: RestartPlan): Promise<RestartJournalEntry> {
+    const now = new Date().toISOString();
+    const entry: RestartJournalEntry = {
+      runId,
+      startedAt: now,
+      updatedAt: now,
+      detection,
+      plan,
+      nextPhase: 0,
+      status: 'running',
+    };
+    await this.write(entry);
+    return entry;
+  }
+
+  /**
+   * Record progress or a final status for a run.
+   */
+  async update(
+    entry: RestartJournalEntry,
+    changes: Partial<Pick<RestartJournalEntry, 'nextPhase' | 'status' | 'error'>>,
+  ): Promise<void> {
+    Object.assign(entry, changes, { updatedAt: new Date().toISOString() });
+    await this.write(entry);
+  }
+
+  /**
+   * Return the journaled run if it never finished, else null.
+   */
+  async loadUnfinished(): Promise<RestartJournalEntry | null> {
+    let entry = this.memory;
+    if (this.redis) {
+      try {
+        const raw = await this.redis.get(JOURNAL_KEY);
+        entry = raw ? JSON.parse(raw) as RestartJournalEntry : null;
+        this.fallback.ok();
+      } catch (err) {
+        this.fallback.failed(err);
+        log(`[RestartJournal] Redis read failed: ${err}, using in-memory journal`);
+      }
+    }
+    return entry?.status === 'running' ? entry : null;
+  }
+
+  private async write(entry: RestartJournalEntry): Promise<void> {
+    this.memory = { ...entry };
+    if (!this.redis) return;
+    try {
+      await this.redis.set(JOURNAL_KEY, JSON.stringify(entry));
+      this.fallback.ok();
+    } catch (err) {
+      this.fallback.failed(err);
+      log(`[RestartJournal] Failed to persist journal for run ${entry.runId}: ${err}`);
+    }
+  }
+
+  /**
+   * Close connections.
+   */
+  async close(): Promise<void> {
+    if (this.redis) {
+      this.redis.disconnect();
+      this.redis = null;
+    }
+  }
+}
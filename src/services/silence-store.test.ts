@@ -0,0 +1,67 @@
+/**
+ * Silence Store Tests
+ *
+ * Covers the in-memory fallback used when Redis is not configured, and
+ * write failures when it is.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Redis } from 'ioredis';
+import { SilenceStore } from './silence-store.js';
+
+const HOUR = 60 * 60_000;
+
+function window(fromHoursAgo: number, toHoursAhead: number) {
+  return {
+    startsAt: new Date(Date.now() - fromHoursAgo * HOUR).toISOString(),
+    endsAt: new Date(Date.now() + toHoursAhead * HOUR).toISOString(),
+    reason: 'upgrade',
+  };
+}
+
+describe('SilenceStore (in-memory)', () => {
+  it('adds, lists and removes silences', async () => {
+    const store = new SilenceStore(null);
+    const silence = await store.add({ ...window(0, 1), node: 'node2' });
+
+    expect(await store.list()).toEqual([silence]);
+    expect(await store.remove(silence.id)).toBe(true);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('reports only silences in effect as active, and prunes ended ones', async () => {
+    const store = new SilenceStore(null);
+    const current = await store.add(window(1, 1));
+    await store.add(window(-1, 2)); // starts in an hour
+    await store.add(window(2, -1)); // already ended
+
+    expect(await store.active()).toEqual([current]);
+    expect(await store.list()).toHaveLength(2);
+  });
+
+  it('rejects silences that end before they start', async () => {
+    const store = new SilenceStore(null);
+    await expect(store.add(window(-2, 1))).rejects.toThrow('end after');
+  });
+});
+
+describe('SilenceStore (Redis outage)', () => {
+  const down = {
+    hset: async () => { throw new Error('Connection is closed.'); },
+    hdel: async () => { throw new Error('Connection is closed.'); },
+    hgetall: async () => { throw new Error('Connection is closed.'); },
+  } as unknown as Redis;
+
+  it('throws instead of keeping a silence only in memory', async () => {
+    const store = new SilenceStore(null, down);
+
+    await expect(store.add(window(0, 1))).rejects.toThrow('Failed to store silence in Redis: Connection is closed.');
+    expect(store.fallback.active).toBe(true);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('throws when a removal does not reach Redis', async () => {
+    const store = new SilenceStore(null, down);
+    await expect(store.remove('abc')).rejects.toThrow('Failed to remove silence abc');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Silence Store
+ *
+ * Operator-created silences, kept in a Redis hash (id → JSON) so every
+ * replica sees them. Expired silences are pruned on read. Active silences
+ * also include the maintenance windows from config open at that moment.
+ *
+ * Reads fall back to in-memory storage if Redis is unavailable. Writes
+ * with Redis configured must reach it: a silence only this process knows
+ * about would not protect anything, so a failed write throws.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Redis } from 'ioredis';
+import type { MaintenanceWindow, SilenceConfig } from '../config.js';
+import type { Silence } from '../types.js';
+import { maintenanceWindowSilences, silenceActive } from '../restart/silences.js';
+import { createRedisClient, RedisFallback } from './redis.js';
+import { log } from '../logger.js';
+
+/** Redis hash holding silences (field = silence id) */
+const SILENCES_KEY = 'watchdog:silences';
+
+export class SilenceStore {
+  private redis: Redis | null = null;
+  /** Whether Redis is unavailable and memory serves instead */
+  readonly fallback = new RedisFallback('Silences');
+  private memory = new Map<string, Silence>();
+  private readonly windows: MaintenanceWindow[];
+
+  /**
+   * Pass null for a purely in-memory store (tests, no Redis configured).
+   * `client` overrides the Redis connection (tests).
+   */
+  constructor(config: SilenceConfig | null, client?: Redis) {
+    this.windows = config?.maintenanceWindows ?? [];
+
+    if (client) {
+      this.redis = client;
+      return;
+    }
+    if (!config?.redisUrl) {
+      log('[Silences] No Redis URL configured, silences are in-memory only');
+      return;
+    }
+
+    try {
+      this.redis = createRedisClient(config.redisUrl, 'Silences', this.fallback);
+    } catch (err) {
+      log(`[Silences] Failed to initialize Redis: ${err}`);
+      this.redis = null;
+    }
+  }
+
+  /**
+   * Create a silence. Returns it with its generated id; throws if it could
+   * not be written to Redis.
+   */
+  async add(silence: Omit<Silence, 'id'>): Promise<Silence> {
+    if (!(Date.parse(silence.endsAt) > Date.parse(silence.startsAt))) {
+      throw new Error('Silence must end after it starts');
+    }
+
+    const created: Silence = { id: randomUUID().slice(0, 8), ...silence };
+    if (this.redis) {
+      try {
+        await this.redis.hset(SILENCES_KEY, created.id, JSON.stringify(created));
+        this.fallback.ok();
+      } catch (err) {
+        this.fallback.failed(err);
+        throw new Error(`Failed to store silence in Redis: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+    this.memory.set(created.id, created);
+    return created;
+  }
+
+  /**
+   * Remove a silence. Returns false if it did not exist; throws if it could
+   * not be removed from Redis.
+   */
+  async remove(id: string): Promise<boolean> {
+    let removed = false;
+    if (this.redis) {
+      try {
+        removed = (await this.redis.hdel(SILENCES_KEY, id)) > 0;
+        this.fallback.ok();
+      } catch (err) {
+        this.fallback.failed(err);
+        throw new Error(`Failed to remove silence ${id} from Redis: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+    return this.memory.delete(id) || removed;
+  }
+
+  /**
+   * All stored silences that have not ended yet (including future ones).
+   */
+  async list(now = Date.now()): Promise<Silence[]> {
+    const silences = await this.readRedis() ?? [...this.memory.values()];
+
+    const expired = silences.filter(s => Date.parse(s.endsAt) <= now);
+    if (expired.length > 0) {
+      expired.forEach(s => this.memory.delete(s.id));
+      if (this.redis) {
+        try {
+          await this.redis.hdel(SILENCES_KEY, ...expired.map(s => s.id));
+        } catch (err) {
+          this.fallback.failed(err);
+          log(`[Silences] Failed to prune expired silences: ${err}`);
+        }
+      }
+    }
+
+    return silences
+      .filter(s => Date.parse(s.endsAt) > now)
+      .sort((a, b) => Date.parse(a.startsAt) - Date.parse(b.startsAt));
+  }
+
+  /**
+   * Silences in effect at `now`: stored ones plus open maintenance windows.
+   */
+  async active(now = Date.now()): Promise<Silence[]> {
+    const stored = (await this.list(now)).filter(s => silenceActive(s, now));
+    return [...stored, ...maintenanceWindowSilences(this.windows, now)];
+  }
+
+  private async readRedis(): Promise<Silence[] | null> {
+    if (!this.redis) return null;
+    try {
+      const raw = await this.redis.hgetall(SILENCES_KEY);
+      this.fallback.ok();
+      return Object.values(raw).map(r => JSON.parse(r) as Silence);
+    } catch (err) {
+      this.fallback.failed(err);
+      log(`[Silences] Redis read failed: ${err}, using in-memory silences`);
+      return null;
+    }
+  }
+
+  /**
+   * Close connections.
+   */
+  async close(): Promise<void> {
+    if (this.redis) {
+      this.redis.disconnect();
+      this.redis = null;
+    }
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Snapshot History Store Tests
+ *
+ * Covers the in-memory fallback used when Redis is not configured, the
+ * pure query helpers, and reads and writes against a stubbed Redis stream.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Redis } from 'ioredis';
+import { SnapshotHistoryStore, layerSeries } from './snapshot-history.js';
+import type { HealthSnapshot } from '../types.js';
+
+const T0 = Date.parse('2026-10-19T03:00:00Z');
+
+function makeSnapshot(ml0Ordinal: number, node2Reachable = true): HealthSnapshot {
+  return {
+    timestamp: new Date(T0),
+    stale: false,
+    source: 'redis',
+    nodes: [
+      {
+        ip: '10.0.0.1',
+        name: 'node1',
+        layers: [
+          { layer: 'ml0', state: 'Ready', ordinal: ml0Ordinal, reachable: true, clusterSize: 2 },
+          { layer: 'dl1', state: 'Ready', ordinal: 50, reachable: true, clusterSize: 2 },
+        ],
+      },
+      {
+        ip: '10.0.0.2',
+        name: 'node2',
+        layers: [
+          { layer: 'ml0', state: node2Reachable ? 'Ready' : 'Unreachable', ordinal: node2Reachable ? ml0Ordinal : -1, reachable: node2Reachable, clusterSize: 2 },
+        ],
+      },
+    ],
+  };
+}
+
+/** Store with one snapshot per minute from T0, ML0 ordinals as given */
+async function makeStore(ordinals: number[], retentionHours = 24): Promise<SnapshotHistoryStore> {
+  const store = new SnapshotHistoryStore(null, retentionHours);
+  for (const [i, ordinal] of ordinals.entries()) {
+    await store.record(makeSnapshot(ordinal, i !== 2), T0 + i * 60_000);
+  }
+  return store;
+}
+
+describe('SnapshotHistoryStore (in-memory)', () => {
+  it('queries snapshots by time range, oldest first', async () => {
+    const store = await makeStore([100, 101, 102, 103]);
+
+    const records = await store.query({ from: new Date(T0 + 60_000), to: new Date(T0 + 120_000) });
+    expect(records.map(r => r.snapshot.nodes[0].layers[0].ordinal)).toEqual([101, 102]);
+    expect(records[0].recordedAt.getTime()).toBe(T0 + 60_000);
+  });
+
+  it('narrows results to one node and layer', async () => {
+    const store = await makeStore([100, 101, 102]);
+
+    const byName = await store.query({ node: 'node2', layer: 'ml0' });
+    expect(byName).toHaveLength(3);
+    expect(byName.every(r => r.snapshot.nodes.length === 1 && r.snapshot.nodes[0].layers.length === 1)).toBe(true);
+    expect(byName[2].snapshot.nodes[0].layers[0]).toMatchObject({ reachable: false, state: 'Unreachable' });
+
+    // node2 has no DL1: nothing matches
+    expect(await store.query({ node: '10.0.0.2', layer: 'dl1' })).toEqual([]);
+    expect(await store.query({ layer: 'ml0', limit: 2 })).toHaveLength(2);
+    expect(await store.query({ limit: 10 })).toHaveLength(3);
+  });
+
+  it('drops snapshots older than the retention window', async () => {
+    const store = new SnapshotHistoryStore(null, 1);
+    await store.record(makeSnapshot(100), T0);
+    await store.record(makeSnapshot(200), T0 + 2 * 60 * 60_000);
+
+    const records = await store.query();
+    expect(records.map(r => r.snapshot.nodes[0].layers[0].ordinal)).toEqual([200]);
+  });
+
+  it('records nothing when disabled', async () => {
+    const store = await makeStore([100, 101], 0);
+    expect(store.enabled).toBe(false);
+    expect(await store.query()).toEqual([]);
+  });
+
+  it('serves a recent window for trend-based detectors', async () => {
+    const store = await makeStore([100, 101, 102, 102, 102]);
+
+    const recent = store.recent(3 * 60_000, T0 + 4 * 60_000);
+    expect(recent).toHaveLength(4);
+    expect(layerSeries(recent, 'node1', 'ml0').map(s => s.ordinal)).toEqual([101, 102, 102, 102]);
+    expect(layerSeries(recent, '10.0.0.2', 'ml0').map(s => s.reachable)).toEqual([true, false, true, true]);
+  });
+});
+
+/**
+ * Redis stub holding one stream in memory. Entry IDs are `<ms>-0`; range
+ * bounds are milliseconds, '-', '+' or '(' + ID (exclusive).
+ */
+function fakeStream() {
+  const entries: [string, string[]][] = [];
+  const calls: string[] = [];
+  const ms = (id: string) => parseInt(id.split('-')[0], 10);
+  const inRange = (id: string, start: string, end: string) => {
+    const after = start === '-' || ms(id) >= parseInt(start, 10);
+    const before = end === '+' || (end.startsWith('(') ? ms(id) < ms(end.slice(1)) : ms(id) <= parseInt(end, 10));
+    return after && before;
+  };
+  const client = {
+    xadd: async (...args: string[]) => {
+      entries.push([`${Date.now() + entries.length}-0`, args.slice(-2)]);
+      return 'ok';
+    },
+    xrange: async (_key: string, start: string, end: string) => {
+      calls.push('XRANGE');
+      return entries.filter(([id]) => inRange(id, start, end));
+    },
+    xrevrange: async (_key: string, end: string, start: string, _count: string, count: number) => {
+      calls.push('XREVRANGE');
+      return entries.filter(([id]) => inRange(id, start, end)).reverse().slice(0, count);
+    },
+  };
+  return { client: client as unknown as Redis, entries, calls };
+}
+
+describe('SnapshotHistoryStore (Redis)', () => {
+  it('persists only the snapshots it is told to (the leader\'s)', async () => {
+    const { client, entries } = fakeStream();
+    const store = new SnapshotHistoryStore(null, 24, client);
+
+    await store.record(makeSnapshot(100), T0, true);
+    await store.record(makeSnapshot(101), T0 + 60_000, false);
+
+    expect(entries).toHaveLength(1);
+    expect(store.recent(Infinity, T0 + 60_000)).toHaveLength(2);
+  });
+
+  it('reads newest first with COUNT when a limit is given', async () => {
+    const { client, entries, calls } = fakeStream();
+    const store = new SnapshotHistoryStore(null, 24, client);
+    for (const ordinal of [100, 101, 102, 103, 104]) {
+      const snapshot = makeSnapshot(ordinal);
+      // node2 is missing from the 103 snapshot
+      if (ordinal === 103) snapshot.nodes.pop();
+      entries.push([`${T0 + (ordinal - 100) * 60_000}-0`, ['snapshot', JSON.stringify(snapshot)]]);
+    }
+
+    const latest = await store.query({ limit: 2 });
+    expect(latest.map(r => r.snapshot.nodes[0].layers[0].ordinal)).toEqual([103, 104]);
+    expect(calls).toEqual(['XREVRANGE']);
+
+    // The first page holds only one node2 match, so a second page is read
+    const node2 = await store.query({ node: 'node2', limit: 2 });
+    expect(node2.map(r => r.recordedAt.getTime())).toEqual([T0 + 2 * 60_000, T0 + 4 * 60_000]);
+    expect(calls).toEqual(['XREVRANGE', 'XREVRANGE', 'XREVRANGE']);
+  });
+});
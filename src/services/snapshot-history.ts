@@ -0,0 +1,243 @@
+/**
+ * Health Snapshot History Store
+ *
+ * Records the snapshot every check cycle ran its conditions on, so incidents
+ * can be reconstructed afterwards ("what did the watchdog see before it
+ * restarted ML0 at 03:12?") and detectors can look at recent trends.
+ *
+ * Snapshots go to a Redis stream (entry ID = recording time), trimmed to
+ * SNAPSHOT_HISTORY_RETENTION_HOURS on every write (XADD MINID, Redis 6.2+).
+ * Only the leader writes to the stream, so replicas watching the same
+ * cluster don't each add a copy of every cycle. The most recent entries are
+ * also kept in memory on every replica, which detectors read synchronously
+ * and which serves all queries if Redis is unavailable.
+ */
+
+import type { Redis } from 'ioredis';
+import type { Config } from '../config.js';
+import type { HealthSnapshot, Layer } from '../types.js';
+import { createRedisClient, RedisFallback } from './redis.js';
+import { log } from '../logger.js';
+
+/** Redis stream holding recorded snapshots */
+const HISTORY_KEY = 'watchdog:health:history';
+
+/** Cap on snapshots kept in memory (one day at the default 60s interval) */
+const MAX_MEMORY_ENTRIES = 1440;
+
+/** A snapshot as seen by one check cycle */
+export interface SnapshotRecord {
+  /** When the cycle recorded it (the snapshot's own timestamp can be older) */
+  recordedAt: Date;
+  snapshot: HealthSnapshot;
+}
+
+/** Filters for history queries; omitted fields match anything */
+export interface SnapshotQuery {
+  /** Inclusive bounds on `recordedAt` */
+  from?: Date;
+  to?: Date;
+  /** Node IP or name: other nodes are removed from the results */
+  node?: string;
+  /** Other layers are removed from the results */
+  layer?: Layer;
+  /** Most recent N matching records */
+  limit?: number;
+}
+
+/** One node layer over time, oldest first */
+export interface LayerSample {
+  at: Date;
+  state: string;
+  ordinal: number;
+  reachable: boolean;
+}
+
+/**
+ * Restrict a snapshot to one node and/or layer. Returns null if nothing
+ * matches.
+ *
+ * This is a PURE FUNCTION.
+ */
+export function filterSnapshot(snapshot: HealthSnapshot, node?: string, layer?: Layer): HealthSnapshot | null {
+  const nodes = snapshot.nodes
+    .filter(n => !node || n.ip === node || n.name === node)
+    .map(n => ({ ...n, layers: n.layers.filter(l => !layer || l.layer === layer) }))
+    .filter(n => n.layers.length > 0);
+  return nodes.length > 0 ? { ...snapshot, nodes } : null;
+}
+
+/**
+ * Samples of one node layer across records, for trend decisions (e.g. is a
+ * node's ordinal still moving). Records without the layer are skipped.
+ *
+ * This is a PURE FUNCTION.
+ */
+export function layerSeries(records: SnapshotRecord[], node: string, layer: Layer): LayerSample[] {
+  return records.flatMap(r => {
+    const lh = r.snapshot.nodes.find(n => n.ip === node || n.name === node)?.layers.find(l => l.layer === layer);
+    return lh ? [{ at: r.recordedAt, state: lh.state, ordinal: lh.ordinal, reachable: lh.reachable }] : [];
+  });
+}
+
+function serialize(snapshot: HealthSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+function deserialize(id: string, raw: string): SnapshotRecord {
+  const parsed = JSON.parse(raw) as HealthSnapshot & { timestamp: string };
+  return {
+    recordedAt: new Date(parseInt(id.split('-')[0], 10)),
+    snapshot: { ...parsed, timestamp: new Date(parsed.timestamp) },
+  };
+}
+
+export class SnapshotHistoryStore {
+  private redis: Redis | null = null;
+  /** Whether Redis is unavailable and memory serves instead */
+  readonly fallback = new RedisFallback('SnapshotHistory');
+  private memory: SnapshotRecord[] = [];
+  private readonly retentionMs: number;
+
+  /** Pass null for a purely in-memory store (tests, no Redis configured). */
+  constructor(config: Config | null, retentionHours = config?.snapshotHistoryRetentionHours ?? 24, client?: Redis) {
+    this.retentionMs = retentionHours * 60 * 60_000;
+    if (this.retentionMs <= 0) {
+      log('[SnapshotHistory] Snapshot history disabled (SNAPSHOT_HISTORY_RETENTION_HOURS=0)');
+      return;
+    }
+    if (client) {
+      this.redis = client;
+      return;
+    }
+    if (!config?.redisUrl) {
+      log('[SnapshotHistory] No Redis URL configured, snapshot history is in-memory only');
+      return;
+    }
+
+    try {
+      this.redis = createRedisClient(config.redisUrl, 'SnapshotHistory', this.fallback);
+    } catch (err) {
+      log(`[SnapshotHistory] Failed to initialize Redis: ${err}`);
+      this.redis = null;
+    }
+  }
+
+  get enabled(): boolean {
+    return this.retentionMs > 0;
+  }
+
+  /**
+   * Load the most recent persisted snapshots into memory (call once at
+   * startup), so trend-based detectors don't start from nothing.
+   */
+  async load(): Promise<void> {
+    if (!this.redis) return;
+    try {
+      const entries = await this.redis.xrevrange(HISTORY_KEY, '+', Date.now() - this.retentionMs, 'COUNT', MAX_MEMORY_ENTRIES);
+      this.fallback.ok();
+      this.memory = entries.reverse().map(([id, fields]) => deserialize(id, fields[1]));
+      log(`[SnapshotHistory] Loaded ${this.memory.length} snapshot(s) from Redis`);
+    } catch (err) {
+      this.fallback.failed(err);
+      log(`[SnapshotHistory] Redis read failed: ${err}, starting with an empty history`);
+    }
+  }
+
+  /**
+   * Record the snapshot a check cycle is about to evaluate. Only `persist`
+   * (the leader's) snapshots are written to Redis; the others are kept in
+   * memory for this replica's detectors.
+   */
+  async record(snapshot: HealthSnapshot, now: number = Date.now(), persist = true): Promise<void> {
+    if (!this.enabled) return;
+    this.memory.push({ recordedAt: new Date(now), snapshot });
+    this.memory = this.memory.filter(r => r.recordedAt.getTime() >= now - this.retentionMs).slice(-MAX_MEMORY_ENTRIES);
+
+    if (!this.redis || !persist) return;
+    try {
+      await this.redis.xadd(HISTORY_KEY, 'MINID', '~', String(now - this.retentionMs), '*', 'snapshot', serialize(snapshot));
+      this.fallback.ok();
+    } catch (err) {
+      this.fallback.failed(err);
+      log(`[SnapshotHistory] Failed to persist snapshot: ${err}`);
+    }
+  }
+
+  /**
+   * Snapshots recorded in the last `windowMs`, oldest first, from memory.
+   * Synchronous so detectors can use it for trend decisions.
+   */
+  recent(windowMs: number, now: number = Date.now()): SnapshotRecord[] {
+    return this.memory.filter(r => r.recordedAt.getTime() >= now - windowMs);
+  }
+
+  /**
+   * Recorded snapshots matching the query, oldest first. Reads from Redis so
+   * snapshots recorded by other replicas or earlier processes are included.
+   */
+  async query(q: SnapshotQuery = {}): Promise<SnapshotRecord[]> {
+    const from = q.from?.getTime() ?? 0;
+    const to = q.to?.getTime() ?? Infinity;
+    const match = (r: SnapshotRecord): SnapshotRecord[] => {
+      const snapshot = filterSnapshot(r.snapshot, q.node, q.layer);
+      return snapshot ? [{ recordedAt: r.recordedAt, snapshot }] : [];
+    };
+
+    const records = await this.readRedis(from, to, match, q.limit);
+    if (records !== null) return records;
+
+    const matching = this.memory
+      .filter(r => r.recordedAt.getTime() >= from && r.recordedAt.getTime() <= to)
+      .flatMap(match);
+    return q.limit !== undefined ? matching.slice(Math.max(0, matching.length - q.limit)) : matching;
+  }
+
+  /**
+   * Matching records in [from, to], oldest first. With a limit, reads the
+   * stream newest first, `limit` entries at a time, until enough match,
+   * instead of reading the whole range.
+   */
+  private async readRedis(
+    from: number,
+    to: number,
+    match: (r: SnapshotRecord) => SnapshotRecord[],
+    limit?: number,
+  ): Promise<SnapshotRecord[] | null> {
+    if (!this.redis) return null;
+    const start = String(from);
+    const end = Number.isFinite(to) ? String(to) : '+';
+    try {
+      if (limit === undefined) {
+        const entries = await this.redis.xrange(HISTORY_KEY, start, end);
+        this.fallback.ok();
+        return entries.flatMap(([id, fields]) => match(deserialize(id, fields[1])));
+      }
+
+      const newestFirst: SnapshotRecord[] = [];
+      let before = end;
+      while (newestFirst.length < limit) {
+        const entries = await this.redis.xrevrange(HISTORY_KEY, before, start, 'COUNT', limit);
+        this.fallback.ok();
+        for (const [id, fields] of entries) newestFirst.push(...match(deserialize(id, fields[1])));
+        if (entries.length < limit) break;
+        before = `(${entries[entries.length - 1][0]}`;
+      }
+      return newestFirst.slice(0, limit).reverse();
+    } catch (err) {
+      this.fallback.failed(err);
+      log(`[SnapshotHistory] Redis read failed: ${err}, using in-memory history`);
+      return null;
+    }
+  }
+
+  /**
+   * Close connections.
+   */
+  async close(): Promise<void> {
+    if (this.redis) {
+      this.redis.disconnect();
+      this.redis = null;
+    }
+  }
+}
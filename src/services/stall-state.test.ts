@@ -0,0 +1,65 @@
+/**
+ * Stall State Store Tests
+ *
+ * Round-trips tracker state through a fake Redis hash, as a restarted
+ * watchdog would.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Redis } from 'ioredis';
+import { StallStateStore } from './stall-state.js';
+import { StallTracker } from '../conditions/snapshots-stopped.js';
+
+class FakeRedis {
+  hash = new Map<string, string>();
+  ttl = 0;
+
+  async hgetall(): Promise<Record<string, string>> {
+    return Object.fromEntries(this.hash);
+  }
+
+  multi() {
+    const ops: Array<() => void> = [];
+    const chain = {
+      hset: (_key: string, fields: Record<string, string>) => {
+        ops.push(() => Object.entries(fields).forEach(([k, v]) => this.hash.set(k, v)));
+        return chain;
+      },
+      expire: (_key: string, seconds: number) => {
+        ops.push(() => { this.ttl = seconds; });
+        return chain;
+      },
+      exec: async () => ops.forEach(op => op()),
+    };
+    return chain;
+  }
+
+  disconnect(): void {}
+}
+
+describe('StallStateStore', () => {
+  it('restores a saved tracker so the stall clock survives a restart', async () => {
+    const redis = new FakeRedis();
+    const tracker = new StallTracker();
+    tracker.update('cluster', 'ml0', 100, 1_000);
+    tracker.update('cluster', 'dl1', 40, 2_000);
+
+    await new StallStateStore(null, redis as unknown as Redis).save(tracker);
+    expect(redis.ttl).toBeGreaterThan(0);
+
+    const restarted = new StallTracker();
+    await new StallStateStore(null, redis as unknown as Redis).load(restarted);
+    expect(restarted.lastOrdinal('cluster', 'ml0')).toBe(100);
+    expect(restarted.staleSecs('cluster', 'dl1', 62_000)).toBe(60);
+  });
+
+  it('leaves the tracker untouched without Redis', async () => {
+    const tracker = new StallTracker();
+    tracker.update('cluster', 'ml0', 5);
+
+    const store = new StallStateStore(null);
+    await store.save(tracker);
+    await store.load(tracker);
+    expect(tracker.lastOrdinal('cluster', 'ml0')).toBe(5);
+  });
+});
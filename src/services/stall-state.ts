@@ -0,0 +1,95 @@
+/**
+ * Stall State Store
+ *
+ * Persists the snapshot stall tracker in Redis so a watchdog restart (or a
+ * failover to another replica) doesn't reset the stall clock. State is a
+ * Redis hash (`<nodeId>:<layer>` → JSON {ordinal, timestamp}) that expires if
+ * no watchdog has written it for a day.
+ *
+ * Without Redis the tracker simply stays in-memory.
+ */
+
+import type { Redis } from 'ioredis';
+import type { Config } from '../config.js';
+import type { OrdinalState, StallTracker } from '../conditions/snapshots-stopped.js';
+import { createRedisClient, RedisFallback } from './redis.js';
+import { log } from '../logger.js';
+
+/** Redis hash holding stall tracker entries */
+const STALL_KEY = 'watchdog:stall';
+
+/** Drop persisted state nobody has refreshed for this long */
+const TTL_SECONDS = 24 * 60 * 60;
+
+export class StallStateStore {
+  private redis: Redis | null = null;
+  /** Whether Redis is unavailable and memory serves instead */
+  readonly fallback = new RedisFallback('StallState');
+
+  /** Pass null for no persistence (tests, no Redis configured). */
+  constructor(config: Config | null, client?: Redis) {
+    if (client) {
+      this.redis = client;
+      return;
+    }
+    if (!config?.redisUrl) {
+      log('[StallState] No Redis URL configured, stall tracking is in-memory only');
+      return;
+    }
+
+    try {
+      this.redis = createRedisClient(config.redisUrl, 'StallState', this.fallback);
+    } catch (err) {
+      log(`[StallState] Failed to initialize Redis: ${err}`);
+      this.redis = null;
+    }
+  }
+
+  /**
+   * Restore persisted state into the tracker (call once at startup).
+   */
+  async load(tracker: StallTracker): Promise<void> {
+    if (!this.redis) return;
+    try {
+      const raw = await this.redis.hgetall(STALL_KEY);
+      this.fallback.ok();
+      const entries = Object.entries(raw).map(([k, v]) => [k, JSON.parse(v) as OrdinalState] as [string, OrdinalState]);
+      if (entries.length === 0) return;
+
+      tracker.restore(entries);
+      log(`[StallState] Restored ${entries.map(([k, s]) => `${k}=${s.ordinal}`).join(', ')}`);
+    } catch (err) {
+      this.fallback.failed(err);
+      log(`[StallState] Failed to load stall state: ${err}`);
+    }
+  }
+
+  /**
+   * Persist the tracker's current state.
+   */
+  async save(tracker: StallTracker): Promise<void> {
+    const entries = tracker.entries();
+    if (!this.redis || entries.length === 0) return;
+    try {
+      await this.redis
+        .multi()
+        .hset(STALL_KEY, Object.fromEntries(entries.map(([k, s]) => [k, JSON.stringify(s)])))
+        .expire(STALL_KEY, TTL_SECONDS)
+        .exec();
+      this.fallback.ok();
+    } catch (err) {
+      this.fallback.failed(err);
+      log(`[StallState] Failed to persist stall state: ${err}`);
+    }
+  }
+
+  /**
+   * Close connections.
+   */
+  async close(): Promise<void> {
+    if (this.redis) {
+      this.redis.disconnect();
+      this.redis = null;
+    }
+  }
+}
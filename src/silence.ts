@@ -0,0 +1,93 @@
+/**
+ * Silence CLI
+ *
+ * Create, list and remove silences in the Redis the watchdog reads.
+ *
+ * Usage:
+ *   node dist/silence.js list
+ *   node dist/silence.js add --reason "v2 upgrade" [--node node2|10.0.0.2] [--layer dl1]
+ *                            [--condition UnhealthyNodes] [--duration 60 | --ends <ISO>]
+ *                            [--starts <ISO>] [--by alice]
+ *   node dist/silence.js remove <id>
+ *
+ * A silence without --node, --layer or --condition covers the whole metagraph.
+ * Only REDIS_URL and MAINTENANCE_WINDOWS are read from the environment.
+ */
+
+import { loadSilenceConfig } from './config.js';
+import { SilenceStore } from './services/silence-store.js';
+import { maintenanceWindowSilences } from './restart/silences.js';
+import { ALL_LAYERS, type Layer, type Silence } from './types.js';
+
+function flag(args: string[], name: string): string | undefined {
+  const i = args.indexOf(`--${name}`);
+  return i !== -1 ? args[i + 1] : undefined;
+}
+
+function describe(s: Silence): string {
+  const target = [s.node && `node=${s.node}`, s.layer && `layer=${s.layer}`, s.condition && `condition=${s.condition}`]
+    .filter(Boolean)
+    .join(' ') || 'whole metagraph';
+  return `${s.id}  ${s.startsAt} → ${s.endsAt}  ${target}  "${s.reason}"${s.createdBy ? ` (${s.createdBy})` : ''}`;
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  const config = loadSilenceConfig();
+  const store = new SilenceStore(config);
+
+  try {
+    switch (command) {
+      case 'list': {
+        const silences = await store.list();
+        const windows = maintenanceWindowSilences(config.maintenanceWindows);
+        if (silences.length === 0 && windows.length === 0) console.log('No silences');
+        silences.forEach(s => console.log(describe(s)));
+        windows.forEach(s => console.log(`${describe(s)}  [open maintenance window]`));
+        break;
+      }
+
+      case 'add': {
+        const reason = flag(args, 'reason');
+        if (!reason) throw new Error('--reason is required');
+        const layer = flag(args, 'layer') as Layer | undefined;
+        if (layer && !ALL_LAYERS.includes(layer)) throw new Error(`Unknown layer "${layer}"`);
+
+        const startsAt = new Date(flag(args, 'starts') ?? Date.now());
+        const ends = flag(args, 'ends');
+        const endsAt = ends
+          ? new Date(ends)
+          : new Date(startsAt.getTime() + parseInt(flag(args, 'duration') ?? '60', 10) * 60_000);
+
+        const silence = await store.add({
+          startsAt: startsAt.toISOString(),
+          endsAt: endsAt.toISOString(),
+          reason,
+          createdBy: flag(args, 'by') ?? process.env.USER,
+          node: flag(args, 'node'),
+          layer,
+          condition: flag(args, 'condition'),
+        });
+        console.log(`Created ${describe(silence)}`);
+        break;
+      }
+
+      case 'remove': {
+        const id = args[0];
+        if (!id) throw new Error('Usage: silence remove <id>');
+        console.log(await store.remove(id) ? `Removed ${id}` : `No silence ${id}`);
+        break;
+      }
+
+      default:
+        throw new Error('Usage: silence <list|add|remove> [options]');
+    }
+  } finally {
+    await store.close();
+  }
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -35,6 +35,9 @@ export interface NodeHealth {
   lastSnapshotHash?: string;
 }
 
+/** Origin of health data: services monitor cache or our own HTTP poll */
+export type HealthSource = 'redis' | 'direct';
+
 /** Layer health from a single node (used by health-reader) */
 export interface LayerHealth {
   layer: Layer;
@@ -43,6 +46,12 @@ export interface LayerHealth {
   reachable: boolean;
   clusterSize: number;
   clusterHash?: string;
+  /** Hash of the snapshot preceding `ordinal`, as reported by the node */
+  lastSnapshotHash?: string;
+  /** Where this entry came from (a snapshot can mix both) */
+  source?: HealthSource;
+  /** Seconds between the entry being measured and the snapshot being read */
+  ageSeconds?: number;
 }
 
 /** Health data for a single node (used by health-reader) */
@@ -56,8 +65,16 @@ export interface NodeHealthData {
 export interface HealthSnapshot {
   timestamp: Date;
   nodes: NodeHealthData[];
+  /** Redis data had stale or missing entries (they were polled directly) */
   stale: boolean;
-  source: 'redis' | 'direct';
+  /** 'hybrid': Redis data with stale or missing entries polled directly */
+  source: HealthSource | 'hybrid';
+}
+
+/** A node + layer a restart would act on */
+export interface RestartTarget {
+  nodeIp: string;
+  layer: Layer;
 }
 
 /** Detection result */
@@ -68,6 +85,14 @@ export interface DetectionResult {
   restartScope: RestartScope;
   affectedNodes?: string[];
   affectedLayers?: Layer[];
+  /**
+   * Exact node + layer pairs for an individual-node restart whose nodes are
+   * not all affected on every layer (e.g. merged detections). Without it,
+   * every affected node is restarted on every affected layer.
+   */
+  affectedTargets?: RestartTarget[];
+  /** Conditions merged into this restart by the remediation plan, lead first */
+  contributingConditions?: string[];
 }
 
 export type RestartScope = 'none' | 'individual-node' | 'full-layer' | 'full-metagraph';
@@ -81,7 +106,79 @@ export interface RestartEvent {
   nodes: string[];
   success: boolean;
   error?: string;
+  /** True when the plan was only logged (dry-run mode), not executed */
+  dryRun?: boolean;
+  /** Node chosen as ML0 genesis for a full metagraph restart */
+  rollback?: RollbackChoice;
+  /** Leader fencing token the restart ran under (leader election only) */
+  fencingToken?: number;
 }
 
-/** Stuck/bad states that indicate unhealthy nodes */
-export const STUCK_STATES = new Set(['WaitingForDownload', 'Leaving', 'Offline', 'DownloadInProgress', 'Unreachable']);
+/** ML0 state of one node, collected before a full metagraph restart */
+export interface RollbackCandidate {
+  nodeIp: string;
+  ordinal: number;
+  lastSnapshotHash?: string;
+}
+
+/** Rollback/genesis node selected for a full metagraph restart */
+export interface RollbackChoice {
+  nodeIp: string;
+  nodeIndex: number;
+  ordinal: number;
+  lastSnapshotHash?: string;
+  reason: string;
+  candidates: RollbackCandidate[];
+}
+
+/** Primitive action performed by a restart plan step */
+export type RestartAction = 'kill' | 'start' | 'wait-ready' | 'join';
+
+/** A single step of a restart plan, targeting one container on one node */
+export interface RestartStep {
+  action: RestartAction;
+  layer: Layer;
+  nodeIp: string;
+  container: string;
+  /** join: node whose /node/info id and IP the target joins to */
+  referenceIp?: string;
+  /** wait-ready: how long to wait for Ready */
+  timeoutMs?: number;
+  /** wait-ready: fail the plan if the node does not become Ready, even in a best-effort phase */
+  required?: boolean;
+}
+
+/** Group of steps executed concurrently, followed by a settle delay */
+export interface RestartPhase {
+  description: string;
+  steps: RestartStep[];
+  settleMs: number;
+  /** Log step failures instead of aborting the plan (except required steps) */
+  bestEffort?: boolean;
+}
+
+/** Ordered restart procedure built from a detection result */
+export interface RestartPlan {
+  scope: RestartScope;
+  condition: string;
+  phases: RestartPhase[];
+  /** Set when the plan includes a full metagraph restart */
+  rollback?: RollbackChoice;
+}
+
+/**
+ * Silence: suppresses automated restarts touching its targets between
+ * startsAt and endsAt. Omitted filters match anything, so a silence with no
+ * node, layer or condition covers the whole metagraph.
+ */
+export interface Silence {
+  id: string;
+  startsAt: string;
+  endsAt: string;
+  reason: string;
+  createdBy?: string;
+  /** Node IP or name */
+  node?: string;
+  layer?: Layer;
+  condition?: string;
+}